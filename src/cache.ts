@@ -3,3 +3,10 @@ import path from "node:path";
 
 // Cache path ~/.cache
 export const CACHE_DIR = path.join(os.homedir(), '.lepo')
+
+// Per-project state directory, e.g. <projectRoot>/.lepo
+export const PROJECT_CACHE_DIR_NAME = '.lepo'
+
+export function projectCacheDir(projectRoot: string): string {
+  return path.join(projectRoot, PROJECT_CACHE_DIR_NAME)
+}
@@ -0,0 +1,16 @@
+import {Args} from '@oclif/core';
+
+import {ComponentType} from '../../core/project-builder/extension-component.js';
+import AddModule from './module.js';
+
+export default class AddElement extends AddModule {
+  static override args = {
+    name: Args.string({description: 'Name of the element component, e.g. ColorPicker for a <color-picker> element', required: true}),
+  }
+  static override description = 'add a native element to an existing extension, next to the modules and elements it already has'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ColorPicker',
+    '<%= config.bin %> <%= command.id %> ColorPicker --platforms android --dry-run',
+  ]
+  protected override readonly componentType: ComponentType = 'element';
+}
@@ -0,0 +1,83 @@
+import {intro, log, note, outro} from '@clack/prompts';
+import {Args, Command, Flags} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+import color from 'picocolors';
+
+import {LIBRARY_CONFIG_FILE, loadConfig} from '../../core/config.js';
+import {
+  addExtensionComponent,
+  collectComponentPlatforms,
+  ComponentFileChange,
+  ComponentType,
+  componentVariables,
+} from '../../core/project-builder/extension-component.js';
+import {configurePrompts} from '../../core/prompts.js';
+import {answerFlags, promptFlags} from '../../flags.js';
+import {getProjectRoot, readPackageJson} from '../../utils/common.js';
+
+const CHANGE_LABELS: Record<ComponentFileChange, string> = {
+  added: 'added',
+  appended: 'updated, existing content kept',
+  kept: 'already in the extension, kept',
+};
+
+export default class AddModule extends Command {
+  static override args = {
+    name: Args.string({description: 'Name of the module, e.g. Camera for a NativeCameraModule class', required: true}),
+  }
+  static override description = 'add a native module to an existing extension, next to the modules and elements it already has'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> Camera',
+    '<%= config.bin %> <%= command.id %> Camera --platforms android,ios --dry-run',
+  ]
+  static override flags = {
+    ...promptFlags,
+    'android-package': answerFlags['android-package'],
+    'dry-run': Flags.boolean({description: 'List the files this would write without writing them'}),
+    'ios-component-name': answerFlags['ios-component-name'],
+    platforms: Flags.string({description: 'Comma separated native platforms to add it to, by default those of lynx.lib.json. Platforms new to the extension are added to it.'}),
+  }
+  protected readonly componentType: ComponentType = 'module';
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(this.ctor as typeof AddModule);
+    const projectRoot = await getProjectRoot();
+    await configurePrompts(flags);
+
+    const configPath = path.join(projectRoot, LIBRARY_CONFIG_FILE);
+    if (!fs.existsSync(configPath)) {
+      this.error(`${projectRoot} has no ${LIBRARY_CONFIG_FILE}, run lepo add ${this.componentType} in the root of an extension`);
+    }
+
+    const names = componentVariables(this.componentType, args.name);
+    const className = String(names.moduleName ?? names.elementName);
+    intro(`Add ${this.componentType} ${className}`);
+    const {name: packageName} = await readPackageJson(projectRoot);
+    const requested = flags.platforms?.split(',').map(platform => platform.trim()).filter(Boolean);
+    const platforms = await collectComponentPlatforms(loadConfig(configPath), packageName, this.componentType, requested);
+    const changes = await addExtensionComponent(projectRoot, {
+      dryRun: flags['dry-run'],
+      name: args.name,
+      packageName,
+      platforms,
+      type: this.componentType,
+    });
+
+    for (const {change, file} of changes) {
+      if (change === 'kept') log.info(color.dim(`${file}: ${CHANGE_LABELS[change]}`));
+      else log.step(`${file}: ${CHANGE_LABELS[change]}`);
+    }
+
+    if (flags['dry-run']) {
+      outro(`Dry run finished, ${changes.filter(({change}) => change !== 'kept').length} file(s) would change.`);
+      return;
+    }
+
+    const nextSteps = this.componentType === 'module'
+      ? [`1. ${color.cyan('npm run codegen')} ${color.dim(`(generates the ${className}Spec the native code implements)`)}`, `2. import { ${className} } from '${packageName}'`]
+      : [`1. import { ${className} } from '${packageName}'`, `2. <${className} label="..." /> ${color.dim(`(renders the <${names.elementTag}> element)`)}`];
+    note(nextSteps.map(step => color.reset(step)).join('\n'), 'Next steps');
+    outro(`Added ${this.componentType} ${className} to ${packageName}.`);
+  }
+}
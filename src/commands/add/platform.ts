@@ -0,0 +1,108 @@
+import {intro, log, note, outro} from '@clack/prompts';
+import {Args, Command, Flags} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+import color from 'picocolors';
+
+import {ActionRunner} from '../../core/actions/action-runner.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import {createReporter} from '../../core/actions/reporter.js';
+import {APP_CONFIG_FILE, Config, loadConfig, saveConfig} from '../../core/config.js';
+import {ProjectBuilder} from '../../core/project-builder/project-builder.js';
+import {checkCancel} from '../../core/project-builder/template.js';
+import {configurePrompts, promptConfirm} from '../../core/prompts.js';
+import {answerFlags, pipelineFlags, promptFlags} from '../../flags.js';
+import {defaultLogger} from '../../logger.js';
+import {getAvailablePlatforms, platformProviders} from '../../template-context-provider/platform-providers.js';
+import {getProjectRoot, readPackageJson} from '../../utils/common.js';
+
+export default class AddPlatform extends Command {
+  static override args = {
+    platform: Args.string({description: 'Platform to add', options: getAvailablePlatforms(), required: true}),
+  }
+  static override description = 'add a native platform to an existing app, and generate its project'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> android',
+    '<%= config.bin %> <%= command.id %> ios --bundle-id com.example.App --yes',
+    '<%= config.bin %> <%= command.id %> android --no-generate',
+  ]
+  static override flags = {
+    ...pipelineFlags,
+    ...promptFlags,
+    'android-package': answerFlags['android-package'],
+    'bundle-id': answerFlags['bundle-id'],
+    generate: Flags.boolean({allowNo: true, description: 'Generate the platform project now. Otherwise the first lepo run or build generates it.'}),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(AddPlatform);
+    const projectRoot = await getProjectRoot();
+    const reporter = createReporter(flags);
+    await configurePrompts(flags);
+
+    const configPath = path.join(projectRoot, APP_CONFIG_FILE);
+    // Apps created from the common template start without native platforms, and without lynx.app.json
+    const config: Config = fs.existsSync(configPath) ? loadConfig(configPath) : {platforms: {}, precommands: []};
+    config.platforms ??= {};
+    if (config.platforms[args.platform]) {
+      throw new Error(`${args.platform} is already a platform of this app, see ${configPath}`);
+    }
+
+    intro(`Add ${args.platform} Platform`);
+    const {name} = await readPackageJson(projectRoot);
+    const provider = platformProviders[args.platform];
+    const platformConfig = await provider.collectAppPlatformConfig(name);
+    const platformDir = path.resolve(projectRoot, platformConfig.platformDir as string);
+    const template = await provider.getTemplate();
+
+    let generate = false;
+    if (!fs.existsSync(template)) {
+      log.warn(`lepo has no ${args.platform} app template yet, only ${APP_CONFIG_FILE} is updated.`);
+    } else if (fs.existsSync(platformDir) && fs.readdirSync(platformDir).length > 0) {
+      log.info(`${path.relative(projectRoot, platformDir)} already exists, it is left as it is.`);
+    } else {
+      generate = flags.generate ?? checkCancel<boolean>(await promptConfirm({
+        initialValue: true,
+        key: 'generate',
+        message: `Generate the ${args.platform} project in ${path.relative(projectRoot, platformDir)} now?`,
+      }));
+    }
+
+    const builder = new ProjectBuilder({checkEmpty: false, packageName: name, projectRoot, targetDir: generate ? platformDir : projectRoot});
+    if (generate) {
+      // A dry run does not ask for the variables, it lists the files unresolved
+      const variables = flags['dry-run'] ? {} : await provider.collectAppTemplateVariables(name);
+      await builder.loadTemplate(template, {variables});
+    }
+
+    builder.addStep({
+      postHook() {
+        config.platforms[args.platform] = platformConfig;
+        saveConfig(configPath, config);
+      },
+    });
+
+    const actionContext = {
+      devMode: false,
+      environment: 'development' as const,
+      logger: defaultLogger,
+      profiler: flags.profile ? new Profiler() : undefined,
+      projectRoot,
+      reporter,
+    };
+    const runner = new ActionRunner(actionContext);
+    runner.addAction(builder.toSingleAction(`add-${args.platform}-platform`, `Add the ${args.platform} platform to ${APP_CONFIG_FILE}`));
+
+    if (flags['dry-run']) {
+      await runner.plan();
+      outro('Dry run finished, nothing was changed.');
+      return;
+    }
+
+    await runner.run();
+
+    note(color.cyan(`lepo run ${args.platform}`), 'Next steps');
+
+    outro(`Added ${args.platform} to ${APP_CONFIG_FILE}.`);
+  }
+}
@@ -6,6 +6,10 @@ import { BuildAndroidAction } from '../../core/actions/build-android-action.js';
 import { BuildAppAction } from '../../core/actions/build-app-action.js';
 import { NpmInstallAction } from '../../core/actions/npm-install-action.js';
 import { PreparePlatformAppAction } from '../../core/actions/prepare-platform-app-action.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import { createReporter } from '../../core/actions/reporter.js';
+import {configurePrompts} from "../../core/prompts.js";
+import {androidBuildFlags, answerFlags, pipelineFlags, promptFlags, resumeFlags} from "../../flags.js";
 import {defaultLogger} from "../../logger.js";
 import {getProjectRoot} from "../../utils/common.js";
 
@@ -17,32 +21,45 @@ export default class BuildAndroid extends Command {
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
   ]
-  static override flags = {}
+  static override flags = {
+    ...androidBuildFlags,
+    ...pipelineFlags,
+    ...promptFlags,
+    ...resumeFlags,
+    'android-package': answerFlags['android-package'],
+  }
 
   public async run(): Promise<void> {
-    const {args} = await this.parse(BuildAndroid);
+    const {args, flags} = await this.parse(BuildAndroid);
     const projectRoot = args.projectRoot ?? await getProjectRoot();
+    await configurePrompts(flags);
 
     defaultLogger.info("Running android in project: ", projectRoot);
 
     const actionContext: ActionContext = {
-      appName:"unknwon",
       devMode: false,
-      environment: process.env.NODE_ENV === 'production' ? 'production' : 'development',
+      environment: flags.release || process.env.NODE_ENV === 'production' ? 'production' : 'development',
       logger: defaultLogger,
+      profiler: flags.profile ? new Profiler() : undefined,
       projectRoot,
+      reporter: createReporter(flags),
     };
 
     const npmInstallAction = new NpmInstallAction();
     const prepareAndroidProjectAction = new PreparePlatformAppAction('android');
     const buildAppAction = new BuildAppAction();
-    const buildAndroidAction = new BuildAndroidAction();
+    const buildAndroidAction = new BuildAndroidAction({release: flags.release});
 
     const runner = new ActionRunner(actionContext);
     runner.addAction(npmInstallAction); // First install npm dependencies
-    runner.addAction(prepareAndroidProjectAction); // Then prepare the Android project
-    runner.addAction(buildAppAction); // Then build the app and copy assets
+    runner.addAction(prepareAndroidProjectAction, []); // Prepare the Android project alongside npm install
+    runner.addAction(buildAppAction, [npmInstallAction.name, prepareAndroidProjectAction.name]); // Then build the app and copy assets
     runner.addAction(buildAndroidAction); // Finally, build the Android APK
-    await runner.run(); 
+    if (flags['dry-run']) {
+      await runner.plan();
+      return;
+    }
+
+    await runner.run({from: flags.from, resume: flags.resume});
   }
 }
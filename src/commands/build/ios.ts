@@ -0,0 +1,69 @@
+import {Args, Command, Flags} from '@oclif/core';
+
+import { ActionRunner } from '../../core/actions/action-runner.js';
+import { ActionContext } from '../../core/actions/action.js';
+import { BuildAppAction } from '../../core/actions/build-app-action.js';
+import { BuildiOSAction, IOS_SDKS } from '../../core/actions/build-ios-action.js';
+import { NpmInstallAction } from '../../core/actions/npm-install-action.js';
+import { PreparePlatformAppAction } from '../../core/actions/prepare-platform-app-action.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import { createReporter } from '../../core/actions/reporter.js';
+import {configurePrompts} from "../../core/prompts.js";
+import {answerFlags, pipelineFlags, promptFlags, resumeFlags} from "../../flags.js";
+import {defaultLogger} from "../../logger.js";
+import {getProjectRoot} from "../../utils/common.js";
+
+export default class BuildiOS extends Command {
+  static override args = {
+    projectRoot: Args.string({description: 'Root of the project', required: false}),
+  }
+  static override description = 'build the iOS app without selecting or launching a device'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --sdk iphoneos',
+    '<%= config.bin %> <%= command.id %> --destination "platform=iOS Simulator,name=iPhone 16"',
+  ]
+  static override flags = {
+    ...pipelineFlags,
+    ...promptFlags,
+    ...resumeFlags,
+    'bundle-id': answerFlags['bundle-id'],
+    destination: Flags.string({description: 'xcodebuild destination, defaults to any device of the SDK'}),
+    sdk: Flags.string({default: 'iphonesimulator', description: 'SDK to build with, iphoneos builds for devices and needs signing set up in the Xcode project', options: [...IOS_SDKS]}),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(BuildiOS);
+    const projectRoot = args.projectRoot ?? await getProjectRoot();
+    await configurePrompts(flags);
+
+    defaultLogger.info("Building iOS in project: ", projectRoot);
+
+    const actionContext: ActionContext = {
+      devMode: false,
+      environment: process.env.NODE_ENV === 'production' ? 'production' : 'development',
+      logger: defaultLogger,
+      platform: 'ios',
+      profiler: flags.profile ? new Profiler() : undefined,
+      projectRoot,
+      reporter: createReporter(flags),
+    };
+
+    const npmInstallAction = new NpmInstallAction();
+    const prepareiOSProjectAction = new PreparePlatformAppAction('ios');
+    const buildAppAction = new BuildAppAction();
+    const buildiOSAction = new BuildiOSAction({destination: flags.destination, sdk: flags.sdk as typeof IOS_SDKS[number]});
+
+    const runner = new ActionRunner(actionContext);
+    runner.addAction(npmInstallAction); // First install npm dependencies
+    runner.addAction(prepareiOSProjectAction, []); // Prepare the iOS project alongside npm install
+    runner.addAction(buildAppAction, [npmInstallAction.name, prepareiOSProjectAction.name]); // Then build the app and copy assets
+    runner.addAction(buildiOSAction); // Finally, build the .app
+    if (flags['dry-run']) {
+      await runner.plan();
+      return;
+    }
+
+    await runner.run({from: flags.from, resume: flags.resume});
+  }
+}
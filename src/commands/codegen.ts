@@ -3,6 +3,9 @@ import {Args, Command} from '@oclif/core'
 import {ActionRunner} from "../core/actions/action-runner.js";
 import {ActionContext} from "../core/actions/action.js";
 import {CodegenAction} from "../core/actions/codegen-action.js";
+import {Profiler} from "../core/actions/profiler.js";
+import {createReporter} from "../core/actions/reporter.js";
+import {pipelineFlags} from "../flags.js";
 import {defaultLogger} from "../logger.js";
 
 export default class Codegen extends Command {
@@ -14,21 +17,28 @@ export default class Codegen extends Command {
     '<%= config.bin %> <%= command.id %>',
   ]
   static override flags = {
-    // flag with a value (-n, --name=VALUE)
+    ...pipelineFlags,
   }
 
   public async run(): Promise<void> {
-    const {args} = await this.parse(Codegen)
+    const {args, flags} = await this.parse(Codegen)
 
     const action = new CodegenAction()
     const context: ActionContext = {
       devMode: false,
       environment: 'development',
       logger: defaultLogger,
+      profiler: flags.profile ? new Profiler() : undefined,
       projectRoot: args.dir ?? process.cwd(),
+      reporter: createReporter(flags),
     }
     const runner = new ActionRunner(context)
     runner.addAction(action)
+    if (flags['dry-run']) {
+      await runner.plan()
+      return
+    }
+
     await runner.run()
   }
 }
@@ -0,0 +1,32 @@
+import {Args, Command} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {findConfigFile, getConfigValue, loadConfig, parseConfigPath} from '../../core/config.js';
+import {configFlags} from '../../flags.js';
+import {getProjectRoot} from '../../utils/common.js';
+
+export default class ConfigGet extends Command {
+  static override args = {
+    path: Args.string({description: 'Dotted path of the value, e.g. platforms.android.platformDir', required: true}),
+  }
+  static override description = 'print a value of lynx.app.json, or lynx.lib.json of an extension'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> platforms.android.platformDir',
+    '<%= config.bin %> <%= command.id %> platforms --library',
+  ]
+  static override flags = {
+    ...configFlags,
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(ConfigGet);
+    const file = findConfigFile(await getProjectRoot(), flags.library);
+    if (!fs.existsSync(file.path)) this.error(`${file.path} not found`);
+
+    const value = getConfigValue(loadConfig(file.path), parseConfigPath(args.path));
+    if (value === undefined) this.error(`${args.path} is not set in ${path.basename(file.path)}`);
+    // Strings print bare, so scripts can use them as they are
+    this.log(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+  }
+}
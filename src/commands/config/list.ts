@@ -0,0 +1,51 @@
+import {Command, Flags} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {validateConfig} from '../../core/config-schema.js';
+import {CONFIG_SCHEMAS, findConfigFile, loadConfig} from '../../core/config.js';
+import {configFlags} from '../../flags.js';
+import {getProjectRoot} from '../../utils/common.js';
+
+// Dotted paths and values of the leaves of a config, arrays and empty objects are leaves
+function flatten(value: unknown, prefix: string): Array<[string, unknown]> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || Object.keys(value).length === 0) {
+    return [[prefix, value]];
+  }
+
+  return Object.entries(value).flatMap(([key, item]) => flatten(item, prefix ? `${prefix}.${key}` : key));
+}
+
+export default class ConfigList extends Command {
+  static override description = 'list the values of lynx.app.json, or lynx.lib.json of an extension, and check them against the schema'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --library --json',
+  ]
+  static override flags = {
+    ...configFlags,
+    json: Flags.boolean({description: 'Print the config as JSON'}),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(ConfigList);
+    const file = findConfigFile(await getProjectRoot(), flags.library);
+    if (!fs.existsSync(file.path)) this.error(`${file.path} not found`);
+
+    const config = loadConfig(file.path);
+    if (flags.json) {
+      this.log(JSON.stringify(config, null, 2));
+    } else {
+      for (const [key, value] of flatten(config, '')) {
+        this.log(`${key} = ${JSON.stringify(value)}`);
+      }
+    }
+
+    const problems = validateConfig(config, CONFIG_SCHEMAS[file.kind]);
+    for (const problem of problems) {
+      this.warn(`${path.basename(file.path)}: ${problem}`);
+    }
+
+    if (problems.length > 0) process.exitCode = 1;
+  }
+}
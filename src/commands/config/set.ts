@@ -0,0 +1,51 @@
+import {Args, Command} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {coerceConfigValue, schemaAt, validateConfig} from '../../core/config-schema.js';
+import {Config, CONFIG_SCHEMAS, findConfigFile, loadConfig, parseConfigPath, saveConfig, setConfigValue} from '../../core/config.js';
+import {configFlags} from '../../flags.js';
+import {getProjectRoot} from '../../utils/common.js';
+
+export default class ConfigSet extends Command {
+  static override args = {
+    path: Args.string({description: 'Dotted path of the value, e.g. platforms.android.platformDir', required: true}),
+    value: Args.string({description: 'The value, converted to the type the schema asks for. JSON for arrays and objects.', required: true}),
+  }
+  static override description = 'set a value of lynx.app.json, or lynx.lib.json of an extension, checking it against the schema'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> platforms.android.signing.keyAlias upload',
+    '<%= config.bin %> <%= command.id %> precommands \'["pnpm codegen"]\'',
+    '<%= config.bin %> <%= command.id %> platforms.ios.sourceDir ios --library',
+  ]
+  static override flags = {
+    ...configFlags,
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(ConfigSet);
+    const file = findConfigFile(await getProjectRoot(), flags.library);
+    const name = path.basename(file.path);
+    const schema = CONFIG_SCHEMAS[file.kind];
+    const keys = parseConfigPath(args.path);
+    const config = fs.existsSync(file.path) ? loadConfig(file.path) : {} as Config;
+    // Problems the file already had are not this change's to fix
+    const before = new Set(validateConfig(config, schema));
+
+    let value: unknown;
+    try {
+      value = coerceConfigValue(args.value, schemaAt(schema, keys));
+    } catch (error) {
+      this.error(`Cannot set ${args.path}: ${(error as Error).message}`);
+    }
+
+    setConfigValue(config as unknown as Record<string, unknown>, keys, value);
+    const problems = validateConfig(config, schema).filter(problem => !before.has(problem));
+    if (problems.length > 0) {
+      this.error(`${name} was not changed, the value makes it invalid:\n  ${problems.join('\n  ')}`);
+    }
+
+    saveConfig(file.path, config);
+    this.log(`Set ${args.path} in ${name}`);
+  }
+}
@@ -0,0 +1,42 @@
+import {Args, Command} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {validateConfig} from '../../core/config-schema.js';
+import {CONFIG_SCHEMAS, findConfigFile, loadConfig, parseConfigPath, saveConfig, unsetConfigValue} from '../../core/config.js';
+import {configFlags} from '../../flags.js';
+import {getProjectRoot} from '../../utils/common.js';
+
+export default class ConfigUnset extends Command {
+  static override args = {
+    path: Args.string({description: 'Dotted path of the value, e.g. platforms.android.signing', required: true}),
+  }
+  static override description = 'remove a value of lynx.app.json, or lynx.lib.json of an extension'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> platforms.android.signing',
+    '<%= config.bin %> <%= command.id %> precommands.0',
+  ]
+  static override flags = {
+    ...configFlags,
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(ConfigUnset);
+    const file = findConfigFile(await getProjectRoot(), flags.library);
+    const name = path.basename(file.path);
+    if (!fs.existsSync(file.path)) this.error(`${file.path} not found`);
+
+    const schema = CONFIG_SCHEMAS[file.kind];
+    const config = loadConfig(file.path);
+    const before = new Set(validateConfig(config, schema));
+    if (!unsetConfigValue(config, parseConfigPath(args.path))) this.error(`${args.path} is not set in ${name}`);
+
+    const problems = validateConfig(config, schema).filter(problem => !before.has(problem));
+    if (problems.length > 0) {
+      this.error(`${name} was not changed, removing the value makes it invalid:\n  ${problems.join('\n  ')}`);
+    }
+
+    saveConfig(file.path, config);
+    this.log(`Removed ${args.path} from ${name}`);
+  }
+}
@@ -0,0 +1,40 @@
+import {Command} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {validateConfig} from '../../core/config-schema.js';
+import {CONFIG_SCHEMAS, findConfigFile, loadConfig} from '../../core/config.js';
+import {configFlags} from '../../flags.js';
+import {getProjectRoot} from '../../utils/common.js';
+
+export default class ConfigValidate extends Command {
+  static override description = 'check lynx.app.json, or lynx.lib.json of an extension, against the schema, exiting with 1 when it has problems'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --library',
+  ]
+  static override flags = {
+    ...configFlags,
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(ConfigValidate);
+    const file = findConfigFile(await getProjectRoot(), flags.library);
+    const name = path.basename(file.path);
+    if (!fs.existsSync(file.path)) this.error(`${file.path} not found`);
+
+    let config;
+    try {
+      config = loadConfig(file.path);
+    } catch (error) {
+      this.error(`${name} is not valid JSON: ${(error as Error).message}`, {exit: 1});
+    }
+
+    const problems = validateConfig(config, CONFIG_SCHEMAS[file.kind]);
+    if (problems.length > 0) {
+      this.error(`${name} has ${problems.length} problem(s):\n  ${problems.join('\n  ')}`, {exit: 1});
+    }
+
+    this.log(`${name} is valid`);
+  }
+}
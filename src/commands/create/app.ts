@@ -1,12 +1,16 @@
-import {intro, note, outro, text} from "@clack/prompts";
+import {intro, note, outro} from "@clack/prompts";
 import {Args, Command} from '@oclif/core'
 import path from "node:path"
 import { fileURLToPath } from 'node:url'
 import color from 'picocolors';
 
 import { ActionRunner } from '../../core/actions/action-runner.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import { createReporter } from '../../core/actions/reporter.js';
 import { ProjectBuilder } from '../../core/project-builder/project-builder.js';
 import {checkCancel, formatProjectName, templatePath} from "../../core/project-builder/template.js"
+import {configurePrompts, promptText} from "../../core/prompts.js";
+import {pipelineFlags, promptFlags} from "../../flags.js";
 import {defaultLogger} from "../../logger.js";
 import {readPackageJson} from "../../utils/common.js";
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -23,17 +27,22 @@ export default class CreateApp extends Command {
     '<%= config.bin %> <%= command.id %>',
   ]
   static override flags = {
+    ...pipelineFlags,
+    ...promptFlags,
   }
 
   public async run(): Promise<void> {
-    const {args} = await this.parse(CreateApp);
+    const {args, flags} = await this.parse(CreateApp);
     const {version} = await readPackageJson(path.resolve(__dirname, '../../..'));
+    const reporter = createReporter(flags);
+    await configurePrompts(flags);
 
     intro("Create App Project");
     // Get project name from user input
     const projectName = args.name ?? checkCancel<string>(
-      await text({
+      await promptText({
         defaultValue: 'lepo-app-project',
+        key: 'name',
         message: 'Project name or path',
         placeholder: 'lepo-app-project',
         validate(value) {
@@ -55,6 +64,7 @@ export default class CreateApp extends Command {
     const builder = ProjectBuilder.create({
       checkEmpty: true,
       packageName,
+      projectRoot: distFolder,
       targetDir: distFolder,
       version,
     });
@@ -73,7 +83,9 @@ export default class CreateApp extends Command {
       devMode: false,
       environment: 'development' as const,
       logger: defaultLogger,
+      profiler: flags.profile ? new Profiler() : undefined,
       projectRoot: process.cwd(),
+      reporter,
     };
     
     const runner = new ActionRunner(actionContext);
@@ -84,7 +96,13 @@ export default class CreateApp extends Command {
     
     // Add the single action to the runner
     runner.addAction(projectAction);
-    
+
+    if (flags['dry-run']) {
+      await runner.plan();
+      outro('Dry run finished, nothing was changed.');
+      return;
+    }
+
     // Execute the action
     await runner.run();
 
@@ -93,6 +111,7 @@ export default class CreateApp extends Command {
       `2. ${color.cyan('git init')} ${color.dim('(optional)')}`,
       `3. ${color.cyan('pnpm install')}`,
       `4. ${color.cyan('pnpm dev')}`,
+      `5. ${color.cyan('lepo add platform android')} ${color.dim('(or ios, to run it natively)')}`,
     ];
 
     if (nextSteps.length > 0) {
@@ -1,10 +1,13 @@
-import {intro, multiselect, note, outro, select, text} from "@clack/prompts";
+import {intro, note, outro} from "@clack/prompts";
 import {Args, Command} from '@oclif/core'
 import path from "node:path"
 import color from 'picocolors';
 
 import {ActionRunner} from '../../core/actions/action-runner.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import {createReporter} from '../../core/actions/reporter.js';
 import {APP_CONFIG_FILE, Config, LIBRARY_CONFIG_FILE} from "../../core/config.js";
+import {DEFAULT_COMPONENT_VARIABLES} from '../../core/project-builder/extension-component.js';
 import {ProjectBuilder} from '../../core/project-builder/project-builder.js';
 import {
     checkCancel, defaultLanguage,
@@ -12,6 +15,8 @@ import {
     ProjectType,
     templatePath
 } from "../../core/project-builder/template.js"
+import {configurePrompts, promptMultiselect, promptSelect, promptText} from "../../core/prompts.js";
+import {answerFlags, pipelineFlags, promptFlags} from "../../flags.js";
 import {defaultLogger} from "../../logger.js";
 import {platformProviders} from '../../template-context-provider/platform-providers.js';
 import {readPackageJson, writeJSON, writePackageJson} from "../../utils/common.js";
@@ -29,17 +34,27 @@ export default class CreateExtension extends Command {
     static override examples = [
         '<%= config.bin %> <%= command.id %>',
     ]
-    static override flags = {}
+    static override flags = {
+        ...pipelineFlags,
+        ...promptFlags,
+        'android-package': answerFlags['android-package'],
+        'ios-component-name': answerFlags['ios-component-name'],
+        platforms: answerFlags.platforms,
+        type: answerFlags.type,
+    }
 
     public async run(): Promise<void> {
-        const {args} = await this.parse(CreateExtension);
+        const {args, flags} = await this.parse(CreateExtension);
+        const reporter = createReporter(flags);
+        await configurePrompts(flags);
 
         intro("Create Extension Project");
 
         // Get project name from user input
         const projectName = args.name ?? checkCancel<string>(
-            await text({
+            await promptText({
                 defaultValue: 'lepo-project',
+                key: 'name',
                 message: 'Project name or path',
                 placeholder: 'lepo-project',
                 validate(value) {
@@ -51,7 +66,8 @@ export default class CreateExtension extends Command {
         );
 
         const chosenNativePlatforms = checkCancel<string[]>(
-            await multiselect({
+            await promptMultiselect({
+                key: 'platforms',
                 message: 'Choose platforms if you want to create native component (Use <space> to select, <enter> to continue)',
                 options: [
                     {label: 'Android', value: 'android'},
@@ -63,7 +79,8 @@ export default class CreateExtension extends Command {
         )
 
         const extensionType = chosenNativePlatforms.length > 0 ? checkCancel<ProjectType>(
-            await select({
+            await promptSelect({
+                key: 'type',
                 message: 'Select extension type',
                 options: [
                     {label: 'Element', value: 'element'},
@@ -84,6 +101,7 @@ export default class CreateExtension extends Command {
         const builder = ProjectBuilder.create({
             checkEmpty: true,
             packageName,
+            projectRoot: distFolder,
             targetDir: distFolder,
         });
 
@@ -91,6 +109,7 @@ export default class CreateExtension extends Command {
         await builder.loadTemplate(templatePath(`extension-${extensionType}-react-ts`), {
             variables: {
                 componentName: packageName,
+                ...DEFAULT_COMPONENT_VARIABLES,
             },
         });
 
@@ -117,7 +136,7 @@ export default class CreateExtension extends Command {
             builder.addStep({
                 from: templatePath(`extension-${extensionType}-${platform}-${defaultLanguage(platform)}`),
                 to: platform,
-                variables: extensionTemplateVariables[platform],
+                variables: {...extensionTemplateVariables[platform], ...DEFAULT_COMPONENT_VARIABLES},
             })
         }
 
@@ -173,7 +192,9 @@ export default class CreateExtension extends Command {
             devMode: false,
             environment: 'development' as const,
             logger: defaultLogger,
+            profiler: flags.profile ? new Profiler() : undefined,
             projectRoot: process.cwd(),
+            reporter,
         };
 
         const runner = new ActionRunner(actionContext);
@@ -185,6 +206,12 @@ export default class CreateExtension extends Command {
         // Add the single action to the runner
         runner.addAction(projectAction);
 
+        if (flags['dry-run']) {
+            await runner.plan();
+            outro('Dry run finished, nothing was changed.');
+            return;
+        }
+
         // Execute the action
         await runner.run();
         const nextSteps = [
@@ -0,0 +1,45 @@
+import {Command, Flags} from '@oclif/core';
+
+import {DeviceTarget, listDeviceTargets} from '../utils/devices.js';
+
+const COLUMNS: Array<[string, (target: DeviceTarget) => string]> = [
+  ['ID', target => target.id],
+  ['NAME', target => target.name],
+  ['OS', target => target.osVersion ?? '-'],
+  ['STATE', target => target.state],
+  ['TYPE', target => target.type],
+];
+
+export default class Devices extends Command {
+  static override description = 'list the Android devices, emulators, AVDs and iOS simulators apps can run on'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --json',
+    '<%= config.bin %> run android --device emulator-5554',
+  ]
+  static override flags = {
+    json: Flags.boolean({description: 'Print the devices as JSON'}),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Devices);
+    const targets = await listDeviceTargets();
+    if (flags.json) {
+      this.log(JSON.stringify(targets, null, 2));
+      return;
+    }
+
+    if (targets.length === 0) {
+      this.log('No devices, emulators or simulators found. Run `lepo doctor` to check the Android SDK and Xcode.');
+      return;
+    }
+
+    const rows = [COLUMNS.map(([header]) => header), ...targets.map(target => COLUMNS.map(([, cell]) => cell(target)))];
+    const widths = COLUMNS.map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    for (const row of rows) {
+      this.log(row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+    }
+
+    this.log('\nPass an ID or NAME to --device of lepo run android or lepo run ios. Connect Android devices over Wi-Fi with lepo devices connect.');
+  }
+}
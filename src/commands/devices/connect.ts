@@ -0,0 +1,30 @@
+import {Args, Command, Flags} from '@oclif/core';
+
+import {connectAndroidDevice} from '../../utils/devices.js';
+
+export default class DevicesConnect extends Command {
+  static override args = {
+    address: Args.string({description: 'host:port the device shows under Developer options > Wireless debugging', required: true}),
+  }
+  static override description = 'connect an Android device over Wi-Fi with adb, pairing it first when it is new to this computer'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> 192.168.1.20:37519',
+    '<%= config.bin %> <%= command.id %> 192.168.1.20:37519 --pair 192.168.1.20:41023 --code 482913',
+  ]
+  static override flags = {
+    code: Flags.string({dependsOn: ['pair'], description: 'Pairing code the device shows next to the pairing address'}),
+    pair: Flags.string({dependsOn: ['code'], description: 'host:port of "Pair device with pairing code" on the device, needed once per computer on Android 11 and later'}),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(DevicesConnect);
+    const pairing = flags.pair && flags.code ? {address: flags.pair, code: flags.code} : undefined;
+    try {
+      const target = await connectAndroidDevice(args.address, pairing);
+      this.log(`Connected to ${target.name} (${target.id}${target.osVersion ? `, ${target.osVersion}` : ''}).`);
+      this.log(`Run on it with lepo run android --device ${target.id}`);
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import {intro, log, outro, spinner} from '@clack/prompts';
+import {Command, Flags} from '@oclif/core';
+import os from 'node:os';
+
+import {CheckResult, runDoctorChecks} from '../core/doctor.js';
+import {defaultLogger} from '../logger.js';
+import {AndroidEnvUtils} from '../utils/android-env-utils.js';
+import {getProjectRoot} from '../utils/common.js';
+
+export default class Doctor extends Command {
+  static override description = 'check the tools and environment lepo builds and runs apps with'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --json > doctor.json',
+    '<%= config.bin %> <%= command.id %> --fix',
+  ]
+  static override flags = {
+    fix: Flags.boolean({description: 'Download and install the missing JDK, Android cmdline-tools and SDK packages, then check again'}),
+    json: Flags.boolean({description: 'Print the report as JSON, e.g. to attach it to a bug report'}),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Doctor);
+    let projectRoot: string | undefined;
+    try {
+      projectRoot = await getProjectRoot();
+    } catch {
+      // Outside of a project, the checks of the project are skipped
+    }
+
+    const options = {engines: this.config.pjson.engines?.node, logger: defaultLogger, projectRoot};
+
+    if (!flags.json) intro('lepo doctor');
+    let results = await runDoctorChecks(options);
+    if (flags.fix && results.some(result => result.fixable && result.status !== 'pass')) {
+      const spin = flags.json ? undefined : spinner();
+      spin?.start('Preparing the Android environment, this can take a while...');
+      try {
+        await new AndroidEnvUtils(defaultLogger).checkAndPrepareEnvironment();
+        spin?.stop('Android environment prepared.');
+      } catch (error: unknown) {
+        spin?.stop(`Failed to prepare the Android environment: ${error instanceof Error ? error.message : error}`, 2);
+      }
+
+      results = await runDoctorChecks(options);
+    }
+
+    if (results.some(result => result.status === 'fail')) process.exitCode = 1;
+    if (flags.json) {
+      this.log(JSON.stringify({
+        checks: results,
+        environment: {arch: os.arch(), lepo: this.config.version, node: process.version, platform: os.platform(), release: os.release()},
+      }, null, 2));
+      return;
+    }
+
+    for (const result of results) printResult(result);
+    const count = (status: CheckResult['status']) => results.filter(result => result.status === status).length;
+    const fixable = results.some(result => result.fixable && result.status !== 'pass');
+    outro(`${count('pass')} passed, ${count('warn')} warnings, ${count('fail')} failed${fixable && !flags.fix ? '. Run lepo doctor --fix to install what is missing.' : ''}`);
+  }
+}
+
+function printResult(result: CheckResult): void {
+  const message = `${result.name}: ${result.message}${result.fix ? `\n  fix: ${result.fix}` : ''}`;
+  switch (result.status) {
+    case 'fail': {
+      log.error(message);
+      break;
+    }
+
+    case 'pass': {
+      log.success(message);
+      break;
+    }
+
+    case 'warn': {
+      log.warn(message);
+      break;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import {intro, log, outro} from '@clack/prompts';
+import {Args, Command, Flags} from '@oclif/core';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {checkCancel} from '../../core/project-builder/template.js';
+import {configurePrompts, promptPassword} from '../../core/prompts.js';
+import {promptFlags} from '../../flags.js';
+import {saveSigningSettings, SIGNING_ENV} from '../../utils/android-signing.js';
+import {getProjectRoot, readPackageJson} from '../../utils/common.js';
+import {runProcess} from '../../utils/process-runner.js';
+
+// Shortest password keytool accepts
+const MIN_PASSWORD_LENGTH = 6;
+
+function validatePassword(value: string): string | undefined {
+  return value.length < MIN_PASSWORD_LENGTH ? `Use at least ${MIN_PASSWORD_LENGTH} characters` : undefined;
+}
+
+export default class KeystoreCreate extends Command {
+  static override args = {
+    keystore: Args.string({default: 'release.keystore', description: 'Path of the keystore, relative to the project root'}),
+  }
+  static override description = 'create a keystore that signs Android release builds, and remember it in lynx.app.json'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    `${SIGNING_ENV.storePassword}=... <%= config.bin %> <%= command.id %> keys/upload.keystore --alias upload --yes`,
+  ]
+  static override flags = {
+    ...promptFlags,
+    alias: Flags.string({default: 'upload', description: 'Alias of the key'}),
+    dname: Flags.string({description: 'Distinguished name of the certificate, defaults to CN=<package name>'}),
+    validity: Flags.integer({default: 10_000, description: 'Days the certificate is valid'}),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(KeystoreCreate);
+    const projectRoot = await getProjectRoot();
+    await configurePrompts(flags);
+
+    intro('Create Android Keystore');
+    const keystore = path.resolve(projectRoot, args.keystore);
+    if (fs.existsSync(keystore)) {
+      throw new Error(`${keystore} already exists, losing a keystore that signed a published app means the app cannot be updated anymore`);
+    }
+
+    const storePassword = process.env[SIGNING_ENV.storePassword] ?? checkCancel<string>(await promptPassword({
+      message: 'Keystore password',
+      validate: validatePassword,
+    }, SIGNING_ENV.storePassword));
+    const {name} = await readPackageJson(projectRoot);
+
+    fs.mkdirSync(path.dirname(keystore), {recursive: true});
+    const keytool = process.env.JAVA_HOME ? path.join(process.env.JAVA_HOME, 'bin', 'keytool') : 'keytool';
+    // PKCS12 keystores use the store password for the key too. keytool reads it from the environment,
+    // so it does not show up in the process list.
+    await runProcess(keytool, {
+      args: [
+        '-genkeypair', '-noprompt',
+        '-keystore', keystore,
+        '-storetype', 'PKCS12',
+        '-alias', flags.alias,
+        '-keyalg', 'RSA',
+        '-keysize', '2048',
+        '-validity', String(flags.validity),
+        '-dname', flags.dname ?? `CN=${name}`,
+        '-storepass:env', SIGNING_ENV.storePassword,
+      ],
+      env: {[SIGNING_ENV.storePassword]: storePassword},
+    });
+
+    const relativePath = path.relative(projectRoot, keystore);
+    if (saveSigningSettings(projectRoot, {keyAlias: flags.alias, keystore: relativePath})) {
+      log.success(`Created ${relativePath}, lynx.app.json now signs release builds with key "${flags.alias}".`);
+    } else {
+      log.success(`Created ${relativePath}. Set ${SIGNING_ENV.keystore}=${keystore} and ${SIGNING_ENV.keyAlias}=${flags.alias} to sign release builds.`);
+    }
+
+    log.warn('Keep the keystore out of version control and back it up, an app on the stores can only be updated with the same key.');
+    outro(`Set ${SIGNING_ENV.storePassword} when running lepo build android --release.`);
+  }
+}
@@ -0,0 +1,31 @@
+import {Command} from '@oclif/core';
+
+import {LogLevel, resolveLaunchedApp, streamAppLogs} from '../../core/device-logs.js';
+import {answerFlags, logFlags} from '../../flags.js';
+import {getProjectRoot} from '../../utils/common.js';
+
+export default class LogsiOS extends Command {
+  static override description = 'stream the logs of the iOS app, JS console output and errors highlighted'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --level warn --output ios.log',
+    '<%= config.bin %> <%= command.id %> --device "iPhone 16" --bundle-id com.example.App',
+  ]
+  static override flags = {
+    ...logFlags,
+    'bundle-id': answerFlags['bundle-id'],
+    device: answerFlags.device,
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(LogsiOS);
+    const projectRoot = await getProjectRoot();
+    const app = await resolveLaunchedApp(projectRoot, 'ios', {appId: flags['bundle-id'], device: flags.device});
+
+    // Ctrl+C ends the stream, the log file is flushed before lepo exits
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    this.logToStderr(`Streaming the logs of ${app.appId} on ${app.deviceId}, press Ctrl+C to stop.`);
+    await streamAppLogs('ios', app, {level: flags.level as LogLevel, output: flags.output, print: line => this.log(line), signal: controller.signal});
+  }
+}
@@ -1,13 +1,20 @@
 import {intro, log, outro} from '@clack/prompts';
-import {Args, Command} from '@oclif/core';
+import {Args, Command, Flags} from '@oclif/core';
 
 import { ActionRunner } from '../../core/actions/action-runner.js';
 import { ActionContext } from '../../core/actions/action.js';
 import { BuildAndroidAction } from '../../core/actions/build-android-action.js';
 import { BuildAppAction } from '../../core/actions/build-app-action.js';
 import { NpmInstallAction } from '../../core/actions/npm-install-action.js';
+import {PipelineState} from '../../core/actions/pipeline-state.js';
+import { PrepareDeviceAction } from '../../core/actions/prepare-device-action.js';
 import { PreparePlatformAppAction } from '../../core/actions/prepare-platform-app-action.js';
-import { RunAndroidEmulatorAction } from '../../core/actions/run-android-emulator-action.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import { createReporter } from '../../core/actions/reporter.js';
+import { DeviceDeployment, RunAndroidEmulatorAction } from '../../core/actions/run-android-emulator-action.js';
+import {lastLaunchedApp, LogLevel, streamAppLogs} from '../../core/device-logs.js';
+import {configurePrompts} from "../../core/prompts.js";
+import {androidBuildFlags, answerFlags, logFlags, pipelineFlags, promptFlags, resumeFlags, runFlags} from "../../flags.js";
 import {defaultLogger} from "../../logger.js";
 import {getProjectRoot} from "../../utils/common.js";
 
@@ -15,40 +22,69 @@ export default class RunAndroid extends Command {
   static override args = {
     projectRoot: Args.string({description: 'Root of the project', required: false}),
   }
-  static override description = 'describe the command here'
+  static override description = 'build the app and run it on an Android device, emulator or AVD'
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --device emulator-5554',
+    '<%= config.bin %> <%= command.id %> --device emulator-5554,R58M123',
+    '<%= config.bin %> <%= command.id %> --all-devices',
+    '<%= config.bin %> <%= command.id %> --device-type real-device',
+    '<%= config.bin %> <%= command.id %> --logs --level warn',
   ]
-  static override flags = {}
+  static override flags = {
+    ...androidBuildFlags,
+    ...logFlags,
+    ...pipelineFlags,
+    ...promptFlags,
+    ...resumeFlags,
+    ...runFlags,
+    'all-devices': Flags.boolean({description: 'Run on every connected device and running emulator at once', exclusive: ['device']}),
+    'android-package': answerFlags['android-package'],
+    device: answerFlags.device,
+    'device-type': answerFlags['device-type'],
+  }
 
   public async run(): Promise<void> {
-    const {args} = await this.parse(RunAndroid);
+    const {args, flags} = await this.parse(RunAndroid);
     const projectRoot = args.projectRoot ?? await getProjectRoot();
+    const reporter = createReporter(flags);
+    await configurePrompts(flags);
 
     intro("Run Android Application");
     defaultLogger.info(`Running android in project: ${projectRoot}`);
 
     const actionContext: ActionContext = {
-      devMode: process.env.NODE_ENV !== 'production',
-      environment: process.env.NODE_ENV === 'production' ? 'production' : 'development',
+      devMode: !flags.release && process.env.NODE_ENV !== 'production',
+      environment: flags.release || process.env.NODE_ENV === 'production' ? 'production' : 'development',
       logger: defaultLogger,
       platform:'android',
-      projectRoot
+      profiler: flags.profile ? new Profiler() : undefined,
+      projectRoot,
+      reporter,
     };
 
     const npmInstallAction = new NpmInstallAction();
     const prepareAndroidProjectAction = new PreparePlatformAppAction('android');
     const buildAppAction = new BuildAppAction();
-    const buildAndroidAction = new BuildAndroidAction();
+    const buildAndroidAction = new BuildAndroidAction({release: flags.release});
+    const prepareDeviceAction = new PrepareDeviceAction({allDevices: flags['all-devices'], device: flags.device});
     const runAndroidEmulatorAction = new RunAndroidEmulatorAction();
 
     const runner = new ActionRunner(actionContext);
     runner.addAction(npmInstallAction); // First install npm dependencies
-    runner.addAction(prepareAndroidProjectAction); // Then prepare the Android project
-    runner.addAction(buildAppAction); // Then build the app and copy assets
+    runner.addAction(prepareAndroidProjectAction, []); // Prepare the Android project alongside npm install
+    runner.addAction(buildAppAction, [npmInstallAction.name, prepareAndroidProjectAction.name]); // Then build the app and copy assets
+    runner.addAction(prepareDeviceAction); // Pick the device, emulator or AVD
     runner.addAction(buildAndroidAction); // Build the Android APK
-    runner.addAction(runAndroidEmulatorAction); // Finally, run the Android emulator
-    await runner.run();
+    runner.addAction(runAndroidEmulatorAction); // Finally, install and launch the APK on the device
+    if (flags['dry-run']) {
+      await runner.plan();
+      outro('Dry run finished, nothing was changed.');
+      return;
+    }
+
+    await runner.run({from: flags.from, resume: flags.resume});
+    this.reportDeployments(projectRoot, runAndroidEmulatorAction.name);
 
     if (actionContext.environment === 'development') {
       log.message('Development server is ready, try editing the app and see the changes.');
@@ -56,5 +92,29 @@ export default class RunAndroid extends Command {
     } else {
       outro('Android application runs successfully.');
     }
+
+    if (flags.logs) {
+      const app = lastLaunchedApp(projectRoot, 'android');
+      if (app) {
+        log.message(`Streaming the logs of ${app.appId}, run lepo logs android to follow them again.`);
+        await streamAppLogs('android', app, {level: flags.level as LogLevel, output: flags.output, print: line => this.log(line)});
+      } else {
+        log.warn('The app was not launched, there are no logs to stream.');
+      }
+    }
+  }
+
+  // How the run went on each device, when it ran on several
+  private reportDeployments(projectRoot: string, actionName: string): void {
+    const state = new PipelineState(projectRoot);
+    state.load();
+    const deployments = state.checkpoint(actionName)?.result?.deployments as DeviceDeployment[] | undefined;
+    if (!deployments || deployments.length < 2) return;
+    for (const {deviceId, error, launched, name} of deployments) {
+      if (error) log.error(`${name}: ${error}`);
+      else log.success(`${name} (${deviceId}): ${launched ? 'launched' : 'installed'}`);
+    }
+
+    if (deployments.some(deployment => deployment.error)) process.exitCode = 1;
   }
 }
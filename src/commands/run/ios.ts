@@ -8,7 +8,12 @@ import { BuildiOSAction } from '../../core/actions/build-ios-action.js';
 import { NpmInstallAction } from '../../core/actions/npm-install-action.js';
 import { PrepareDeviceAction } from '../../core/actions/prepare-device-action.js';
 import { PreparePlatformAppAction } from '../../core/actions/prepare-platform-app-action.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import { createReporter } from '../../core/actions/reporter.js';
 import { RuniOSSimulatorAction } from '../../core/actions/run-ios-simulator-action.js';
+import {lastLaunchedApp, LogLevel, streamAppLogs} from '../../core/device-logs.js';
+import {configurePrompts} from "../../core/prompts.js";
+import {answerFlags, logFlags, pipelineFlags, promptFlags, resumeFlags, runFlags} from "../../flags.js";
 import {defaultLogger} from "../../logger.js";
 import {getProjectRoot} from "../../utils/common.js";
 
@@ -20,11 +25,22 @@ export default class RuniOS extends Command {
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
   ]
-  static override flags = {}
+  static override flags = {
+    ...logFlags,
+    ...pipelineFlags,
+    ...promptFlags,
+    ...resumeFlags,
+    ...runFlags,
+    'bundle-id': answerFlags['bundle-id'],
+    device: answerFlags.device,
+    'device-type': answerFlags['device-type'],
+  }
 
   public async run(): Promise<void> {
-    const {args} = await this.parse(RuniOS);
+    const {args, flags} = await this.parse(RuniOS);
     const projectRoot = args.projectRoot ?? await getProjectRoot();
+    const reporter = createReporter(flags);
+    await configurePrompts(flags);
 
     intro("Run iOS Application");
     defaultLogger.info(`Running iOS in project: ${projectRoot}`);
@@ -34,24 +50,32 @@ export default class RuniOS extends Command {
       environment: process.env.NODE_ENV === 'production' ? 'production' : 'development',
       logger: defaultLogger,
       platform: 'ios',
-      projectRoot
+      profiler: flags.profile ? new Profiler() : undefined,
+      projectRoot,
+      reporter,
     };
 
     const npmInstallAction = new NpmInstallAction();
     const prepareiOSProjectAction = new PreparePlatformAppAction('ios');
     const buildAppAction = new BuildAppAction();
-    const prepareDeviceAction = new PrepareDeviceAction();
+    const prepareDeviceAction = new PrepareDeviceAction({device: flags.device});
     const buildiOSAction = new BuildiOSAction();
     const runiOSDeviceAction = new RuniOSSimulatorAction();
 
     const runner = new ActionRunner(actionContext);
     runner.addAction(npmInstallAction); // First install npm dependencies
-    runner.addAction(prepareiOSProjectAction); // Then prepare the iOS project
-    runner.addAction(buildAppAction); // Then build the app and copy assets
+    runner.addAction(prepareiOSProjectAction, []); // Prepare the iOS project alongside npm install
+    runner.addAction(buildAppAction, [npmInstallAction.name, prepareiOSProjectAction.name]); // Then build the app and copy assets
     runner.addAction(prepareDeviceAction);
     runner.addAction(buildiOSAction); // Build the iOS APK
     runner.addAction(runiOSDeviceAction); // Finally, run the iOS emulator
-    await runner.run();
+    if (flags['dry-run']) {
+      await runner.plan();
+      outro('Dry run finished, nothing was changed.');
+      return;
+    }
+
+    await runner.run({from: flags.from, resume: flags.resume});
 
     if (actionContext.environment === 'development') {
       log.message('Development server is ready, try editing the app and see the changes.');
@@ -59,5 +83,15 @@ export default class RuniOS extends Command {
     } else {
       outro('Android application runs successfully.');
     }
+
+    if (flags.logs) {
+      const app = lastLaunchedApp(projectRoot, 'ios');
+      if (app) {
+        log.message(`Streaming the logs of ${app.appId}, run lepo logs ios to follow them again.`);
+        await streamAppLogs('ios', app, {level: flags.level as LogLevel, output: flags.output, print: line => this.log(line)});
+      } else {
+        log.warn('The app was not launched, there are no logs to stream.');
+      }
+    }
   }
 }
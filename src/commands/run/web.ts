@@ -0,0 +1,79 @@
+import {intro, log, outro} from '@clack/prompts';
+import {Args, Command, Flags} from '@oclif/core';
+
+import { ActionRunner } from '../../core/actions/action-runner.js';
+import { ActionContext } from '../../core/actions/action.js';
+import { BuildAppAction } from '../../core/actions/build-app-action.js';
+import { NpmInstallAction } from '../../core/actions/npm-install-action.js';
+import {PipelineState} from '../../core/actions/pipeline-state.js';
+import { PreparePlatformAppAction } from '../../core/actions/prepare-platform-app-action.js';
+import {Profiler} from '../../core/actions/profiler.js';
+import { createReporter } from '../../core/actions/reporter.js';
+import { RunWebAction } from '../../core/actions/run-web-action.js';
+import {configurePrompts} from "../../core/prompts.js";
+import {pipelineFlags, promptFlags, resumeFlags} from "../../flags.js";
+import {defaultLogger} from "../../logger.js";
+import {getProjectRoot} from "../../utils/common.js";
+
+export default class RunWeb extends Command {
+  static override args = {
+    projectRoot: Args.string({description: 'Root of the project', required: false}),
+  }
+  static override description = 'build the web bundle of the app and serve it locally, reloading the page on every change'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --open --port 8080',
+  ]
+  static override flags = {
+    ...pipelineFlags,
+    ...promptFlags,
+    ...resumeFlags,
+    open: Flags.boolean({description: 'Open the app in the browser once it is served'}),
+    port: Flags.integer({description: 'Port of the web dev server, the next free one is taken when it is in use'}),
+  }
+
+  public async run(): Promise<void> {
+    const {args, flags} = await this.parse(RunWeb);
+    const projectRoot = args.projectRoot ?? await getProjectRoot();
+    const reporter = createReporter(flags);
+    await configurePrompts(flags);
+
+    intro("Run Web Application");
+    defaultLogger.info(`Running web in project: ${projectRoot}`);
+
+    const actionContext: ActionContext = {
+      devMode: process.env.NODE_ENV !== 'production',
+      environment: process.env.NODE_ENV === 'production' ? 'production' : 'development',
+      logger: defaultLogger,
+      platform: 'web',
+      profiler: flags.profile ? new Profiler() : undefined,
+      projectRoot,
+      reporter,
+    };
+
+    const npmInstallAction = new NpmInstallAction();
+    const prepareWebProjectAction = new PreparePlatformAppAction('web');
+    const buildAppAction = new BuildAppAction();
+    const runWebAction = new RunWebAction({open: flags.open, port: flags.port});
+
+    const runner = new ActionRunner(actionContext);
+    runner.addAction(npmInstallAction); // First install npm dependencies
+    runner.addAction(prepareWebProjectAction, []); // Prepare the web project alongside npm install
+    runner.addAction(buildAppAction, [npmInstallAction.name, prepareWebProjectAction.name]); // Then build the web bundle
+    runner.addAction(runWebAction); // Finally, serve it
+    if (flags['dry-run']) {
+      await runner.plan();
+      outro('Dry run finished, nothing was changed.');
+      return;
+    }
+
+    await runner.run({from: flags.from, resume: flags.resume});
+
+    // The address the dev server took, recorded by the run action
+    const state = new PipelineState(projectRoot);
+    state.load();
+    const url = state.checkpoint(runWebAction.name)?.result?.url;
+    log.message(`The app is served at ${url ?? 'the address above'}, try editing it and see the changes.`);
+    log.message('Press Ctrl+C to stop the development servers.');
+  }
+}
@@ -0,0 +1,58 @@
+import {intro, log, outro} from '@clack/prompts';
+import {Command, Flags} from '@oclif/core';
+import color from 'picocolors';
+
+import {FileChange, upgradeTemplates} from '../core/project-builder/template-upgrade.js';
+import {getProjectRoot} from '../utils/common.js';
+
+const CHANGE_LABELS: Record<FileChange, string> = {
+  added: 'added',
+  conflict: 'conflict',
+  deleted: 'deleted by you, the template changed it',
+  kept: 'dropped by the template, kept with your changes',
+  merged: 'merged with your changes',
+  removed: 'dropped by the template, removed',
+  updated: 'updated',
+};
+
+export default class Upgrade extends Command {
+  static override description = 'upgrade the files the project got from the lepo templates, merging your changes into the new templates'
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --dry-run',
+  ]
+  static override flags = {
+    'dry-run': Flags.boolean({description: 'List the changes to the files without writing them'}),
+  }
+
+  public async run(): Promise<void> {
+    const {flags} = await this.parse(Upgrade);
+    const projectRoot = await getProjectRoot();
+
+    intro('Upgrade Templates');
+    const {changes, from, to} = await upgradeTemplates(projectRoot, {dryRun: flags['dry-run']});
+    log.info(`Templates of lepo ${from.join(', ')} to ${to}`);
+
+    for (const {change, conflicts, file} of changes) {
+      if (change === 'conflict') {
+        log.error(`${color.red(file)}: ${conflicts ? `${conflicts} conflict(s), resolve the markers in the file` : 'binary file changed by you and by the template, kept yours'}`);
+      } else if (change === 'deleted' || change === 'kept') {
+        log.warn(`${file}: ${CHANGE_LABELS[change]}`);
+      } else {
+        log.step(`${file}: ${CHANGE_LABELS[change]}`);
+      }
+    }
+
+    const conflicted = changes.filter(({change}) => change === 'conflict').length;
+    if (changes.length === 0) {
+      outro('The project is up to date with the templates.');
+    } else if (flags['dry-run']) {
+      outro(`Dry run finished, ${changes.length} file(s) would change${conflicted ? `, ${conflicted} with conflicts` : ''}.`);
+    } else if (conflicted) {
+      process.exitCode = 1;
+      outro(color.red(`Upgraded to lepo ${to} templates, ${conflicted} file(s) have conflicts to resolve.`));
+    } else {
+      outro(`Upgraded to lepo ${to} templates.`);
+    }
+  }
+}
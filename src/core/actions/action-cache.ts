@@ -0,0 +1,132 @@
+import {createHash, Hash} from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {projectCacheDir} from '../../cache.js';
+import {ActionResult} from './action.js';
+
+const ACTION_CACHE_FILE = 'action-cache.json';
+
+// Directories that hold build products or tool state rather than inputs
+export const DEFAULT_FINGERPRINT_EXCLUDES = [
+  '.cxx',
+  '.git',
+  '.gradle',
+  '.idea',
+  '.kotlin',
+  '.lepo',
+  'build',
+  'DerivedData',
+  'node_modules',
+  'out',
+  'Pods',
+  'xcuserdata',
+];
+
+interface ActionCacheEntry {
+  fingerprint: string;
+  outputs: string[];
+  result: ActionResult;
+}
+
+function hashPath(hash: Hash, root: string, target: string, excludes: Set<string>): void {
+  const relativePath = path.relative(root, target).split(path.sep).join('/');
+  if (!fs.existsSync(target)) {
+    hash.update(`missing:${relativePath}\n`);
+    return;
+  }
+
+  const stat = fs.statSync(target);
+  if (stat.isDirectory()) {
+    hash.update(`dir:${relativePath}\n`);
+    for (const entry of fs.readdirSync(target).sort()) {
+      if (excludes.has(entry)) continue;
+      hashPath(hash, root, path.join(target, entry), excludes);
+    }
+
+    return;
+  }
+
+  hash.update(`file:${relativePath}:${stat.size}\n`);
+  hash.update(fs.readFileSync(target));
+}
+
+/**
+ * Compute a content hash of files and directories
+ * @param root Directory the paths are recorded relative to, so moving a project keeps its fingerprints
+ * @param paths Files or directories to hash, directories are walked recursively
+ * @param extra Additional values that should invalidate the fingerprint, e.g. the build mode
+ * @param excludes Entry names to skip while walking directories
+ * @returns Hex encoded sha256 digest
+ */
+export function fingerprintFiles(root: string, paths: string[], extra: unknown[] = [], excludes: string[] = DEFAULT_FINGERPRINT_EXCLUDES): string {
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify(extra));
+  const excludeSet = new Set(excludes);
+  for (const target of [...new Set(paths.map(p => path.resolve(root, p)))].sort()) {
+    hashPath(hash, root, target, excludeSet);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Fingerprints of the last successful run of each action, stored in <projectRoot>/.lepo/action-cache.json
+ */
+export class ActionCache {
+  private entries: Record<string, ActionCacheEntry> | undefined;
+  private readonly file: string;
+
+  constructor(private projectRoot: string) {
+    this.file = path.join(projectCacheDir(projectRoot), ACTION_CACHE_FILE);
+  }
+
+  /**
+   * Find the result recorded for a key if its fingerprint matches and all outputs still exist
+   * @param key Cache key, usually the action name
+   * @param fingerprint Fingerprint of the current inputs
+   * @returns The recorded result, or undefined when the key is out of date
+   */
+  lookup(key: string, fingerprint: string): ActionResult | undefined {
+    const entry = this.load()[key];
+    if (!entry || entry.fingerprint !== fingerprint) {
+      return undefined;
+    }
+
+    if (!entry.outputs.every(output => fs.existsSync(path.resolve(this.projectRoot, output)))) {
+      return undefined;
+    }
+
+    return entry.result;
+  }
+
+  /**
+   * Record a successful run
+   * @param key Cache key, usually the action name
+   * @param fingerprint Fingerprint of the inputs after the run
+   * @param outputs Files or directories that must exist for the entry to stay valid
+   * @param result Result to hand to dependent actions when the key is skipped
+   */
+  store(key: string, fingerprint: string, outputs: string[], result: ActionResult): void {
+    const entries = this.load();
+    entries[key] = {
+      fingerprint,
+      outputs: outputs.map(output => path.relative(this.projectRoot, path.resolve(this.projectRoot, output))),
+      result,
+    };
+    fs.mkdirSync(path.dirname(this.file), {recursive: true});
+    fs.writeFileSync(this.file, JSON.stringify(entries, null, 2), 'utf8');
+  }
+
+  private load(): Record<string, ActionCacheEntry> {
+    if (!this.entries) {
+      try {
+        this.entries = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      } catch {
+        this.entries = {};
+      }
+    }
+
+    return this.entries as Record<string, ActionCacheEntry>;
+  }
+}
@@ -1,71 +1,490 @@
-import {log, spinner} from "@clack/prompts";
+import os from "node:os";
 import path from "node:path";
 
+import {projectCacheDir} from "../../cache.js";
 import {defaultLogger} from "../../logger.js";
-import { Action, ActionContext, ActionResult } from './action.js';
+import {killTrackedProcesses} from "../../utils/child-processes.js";
+import {ActionCache, fingerprintFiles} from './action-cache.js';
+import { Action, ActionContext, ActionPlan, ActionResult, Artifacts, DependencyResults } from './action.js';
+import {InteractionBroker, setActiveInteractionBroker} from './interaction-broker.js';
+import {PipelineState} from './pipeline-state.js';
+import {setActiveProfiler} from './profiler.js';
+import {actionScope, PrettyReporter, Reporter, reportingLogger} from './reporter.js';
+import {withRetry} from './retry.js';
 
+interface ActionNode {
+  action: Action;
+  dependsOn: string[];
+}
+
+// How an action finished, or was skipped
+interface ExecutedAction {
+  result: ActionResult;
+  resumed: boolean; // Restored from the checkpoint of the previous run
+  retries: number;
+  skipped: boolean;
+}
+
+// An entry of a dry run plan
+export interface PlannedAction {
+  dependsOn: string[];
+  description?: string;
+  name: string;
+  plan: ActionPlan;
+}
+
+// Where a run continues from, see --resume and --from
+export interface RunOptions {
+  from?: string; // Optional: rerun this action and the ones depending on it, restoring the others from the previous run
+  resume?: boolean; // Optional: restore the actions the previous run completed and continue with the rest
+}
+
+/**
+ * Thrown by `ActionRunner.run` when the pipeline was stopped by SIGINT or SIGTERM. oclif exits with
+ * the conventional 128 + signal number code for it, without printing a stack trace.
+ */
+export class InterruptedError extends Error {
+  readonly oclif: {exit: number};
+  readonly skipOclifErrorHandling = true;
+
+  constructor(readonly signal: NodeJS.Signals) {
+    super(`Interrupted by ${signal}`);
+    this.name = 'InterruptedError';
+    this.oclif = {exit: interruptExitCode(signal)};
+  }
+}
+
+// Artifacts a result lacks out of the ones its action declares
+function missingOutputs(action: Action, result: ActionResult): string[] {
+  return (action.outputs ?? []).filter(name => result.artifacts?.[name] === undefined);
+}
+
+function interruptExitCode(signal: NodeJS.Signals): number {
+  return 128 + (os.constants.signals[signal] ?? 0);
+}
+
+// Undo what an interrupted prompt or spinner may have left behind
+function restoreTerminal(): void {
+  if (process.stdin.isTTY && process.stdin.isRaw) {
+    process.stdin.setRawMode(false);
+  }
+
+  if (process.stdout.isTTY) {
+    // Show the cursor again
+    process.stdout.write('\u001B[?25h');
+  }
+}
 
 export class ActionRunner {
-  private actions: Action[] = [];
+  private cache: ActionCache | undefined;
   private context: ActionContext;
+  private nodes: ActionNode[] = [];
+  private reporter: Reporter;
+  private state: PipelineState | undefined;
 
   constructor(context: ActionContext) {
     this.context = context;
+    this.reporter = context.reporter ?? new PrettyReporter();
+  }
+
+  /**
+   * Add an action to the pipeline
+   * @param action Action to run
+   * @param dependsOn Names of the actions it depends on, overriding `action.dependsOn`.
+   * If neither is given, the action depends on the previously added action.
+   */
+  addAction(action: Action, dependsOn?: string[]): void {
+    const previous = this.nodes.at(-1);
+    this.nodes.push({
+      action,
+      dependsOn: dependsOn ?? action.dependsOn ?? (previous ? [previous.action.name] : []),
+    });
   }
 
-  addAction(action: Action): void {
-    this.actions.push(action);
+  /**
+   * Report what the pipeline would do without executing any action
+   * @returns The plan of every action in execution order
+   */
+  async plan(): Promise<PlannedAction[]> {
+    const startTime = Date.now();
+    const ordered = this.validateGraph();
+    const planned: PlannedAction[] = [];
+    this.reporter.emit({actions: ordered.map(node => node.action.name), dryRun: true, projectRoot: this.context.projectRoot, type: 'pipeline-started'});
+
+    for (const {action, dependsOn} of ordered) {
+      const actionPlan = await action.plan?.(this.context) ?? {};
+      planned.push({dependsOn, description: action.description, name: action.name, plan: actionPlan});
+      this.reporter.emit({action: action.name, dependsOn, description: action.description, plan: actionPlan, type: 'action-planned'});
+    }
+
+    this.reporter.emit({durationMs: Date.now() - startTime, logFile: null, success: true, type: 'pipeline-finished'});
+    return planned;
   }
 
-  async run(): Promise<void> {
-    let previousResult: ActionResult | undefined;
-    this.context.logger = defaultLogger
-    defaultLogger.info('Running actions... (environment: ' + this.context.environment + ')');
+  /**
+   * Run the pipeline. The result of every completed action is checkpointed to .lepo/state.json.
+   * @param options Continue from the checkpoints of the previous run instead of running every action
+   */
+  async run(options: RunOptions = {}): Promise<void> {
+    const pipelineStartTime = Date.now();
+    const ordered = this.validateGraph();
 
-    for (const action of this.actions) {
-      const spin = spinner();
-      this.context.spinner = spin;
+    const {reporter} = this;
+    this.context.logger = reportingLogger(defaultLogger, reporter);
+    this.context.logger.info('Running actions... (environment: ' + this.context.environment + ')');
+    this.state = new PipelineState(this.context.projectRoot);
+    const restored = this.restorableResults(ordered, options);
+    reporter.emit({actions: ordered.map(node => node.action.name), dryRun: false, projectRoot: this.context.projectRoot, type: 'pipeline-started'});
+
+    this.cache = new ActionCache(this.context.projectRoot);
+    this.context.spinner = reporter.spinner;
+    const interaction = new InteractionBroker(reporter);
+    this.context.interaction = interaction;
+    setActiveInteractionBroker(interaction);
+    const controller = new AbortController();
+    this.context.signal = controller.signal;
+    const {profiler} = this.context;
+    setActiveProfiler(profiler);
+    const pipelineSpan = profiler?.start('pipeline', 'pipeline', 'pipeline');
+
+    const results = new Map<string, ActionResult>();
+    // Artifacts of every finished action, merged with the ones of the actions it depends on
+    const artifacts = new Map<string, Partial<Artifacts>>();
+    const pending = [...this.nodes];
+    const running = new Map<string, Promise<void>>();
+    // Actions that started and did not complete, in the order they started. Completed actions keep their changes.
+    const unfinished: Action[] = [];
+    let failure: unknown;
+
+    let interrupted = false;
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (interrupted) {
+        // Second signal, give up on a clean rollback
+        killTrackedProcesses('SIGKILL');
+        restoreTerminal();
+        // eslint-disable-next-line n/no-process-exit,unicorn/no-process-exit
+        process.exit(interruptExitCode(signal));
+      }
+
+      interrupted = true;
+      reporter.emit({signal, type: 'interrupted'});
+      failure = new InterruptedError(signal);
+      pending.length = 0;
+      controller.abort(failure);
+      // Running actions fail once their processes are gone, which lets the loop below move on to the rollback
+      killTrackedProcesses();
+    };
+
+    const start = (node: ActionNode) => {
+      const {action} = node;
+      const dependencyResults: DependencyResults = {};
+      for (const name of node.dependsOn) dependencyResults[name] = results.get(name) as ActionResult;
+      const previousResult = node.dependsOn.length > 0 ? results.get(node.dependsOn.at(-1) as string) : undefined;
+      const available: Partial<Artifacts> = Object.assign({}, ...node.dependsOn.map(name => artifacts.get(name)));
+      // validateGraph made sure every input is available
+      const inputs = Object.fromEntries((action.inputs ?? []).map(name => [name, available[name]])) as Partial<Artifacts>;
 
-      spin.start(`Run action: ${action.name}`);
-      this.context.logger.message(`Action: ${action.description || ''}`)
-      this.context.logger.message("")
       const startTime = Date.now();
-      // Pass the previous action's result to the current action's execute method
-      try {
-        const currentResult = await action.execute(this.context, previousResult);
-        const endTime = Date.now();
-        spin.stop(`Finished action: ${action.name} (took ${endTime - startTime}ms)`);
-
-        if (currentResult.crucialOutputPaths && currentResult.crucialOutputPaths.length > 0) {
-          log.message("")
-          log.message('Output paths:');
-          for (const outputPath of currentResult.crucialOutputPaths) log.message(`  - ${path.resolve(outputPath)}`);
-          log.message("")
+      const span = profiler?.start(action.name, 'action', action.name);
+      const checkpoint = restored.get(action.name);
+      const task = Promise.resolve()
+        .then(() => actionScope.run({action: action.name, reporter}, () => (checkpoint
+          ? this.restoreAction(action, checkpoint)
+          : this.executeAction(action, previousResult, dependencyResults, inputs as Artifacts))))
+        .then(({result: currentResult, resumed, retries, skipped}) => {
+          results.set(action.name, currentResult);
+          artifacts.set(action.name, {...available, ...currentResult.artifacts});
+          span?.end({retries, skipped});
+          running.delete(action.name);
+          unfinished.splice(unfinished.indexOf(action), 1);
+          reporter.emit({
+            action: action.name,
+            crucialOutputPaths: currentResult.crucialOutputPaths ?? [],
+            durationMs: Date.now() - startTime,
+            outputPaths: currentResult.outputPaths ?? [],
+            resumed,
+            retries,
+            skipped,
+            type: 'action-finished',
+          });
+        })
+        .catch((error: unknown) => {
+          running.delete(action.name);
+          span?.end({error: `${error}`});
+          reporter.emit({action: action.name, durationMs: Date.now() - startTime, error: `${error}`, type: 'action-failed'});
+          if (!(error instanceof InterruptedError)) this.state?.fail(action.name);
+          failure ??= error;
+          // Let running actions settle, but do not start new ones
+          pending.length = 0;
+        });
+
+      unfinished.push(action);
+      running.set(action.name, task);
+      reporter.emit({action: action.name, description: action.description, type: 'action-started'});
+      actionScope.run({action: action.name, reporter}, () => {
+        this.context.logger.message(`Action: ${action.description || ''}`)
+        this.context.logger.message("")
+      });
+    };
+
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+    try {
+      while (running.size > 0 || pending.length > 0) {
+        // Start every action whose dependencies have all finished
+        for (const node of pending.filter(n => n.dependsOn.every(name => results.has(name)))) {
+          pending.splice(pending.indexOf(node), 1);
+          start(node);
         }
 
-        previousResult = currentResult; // Store current result for the next iteration
+        // Running tasks never reject, failures are recorded in `failure`
+        await Promise.race(running.values());
+      }
+
+      if (failure === undefined) {
+        this.state.finish();
+      } else {
+        await this.rollback(unfinished);
+      }
+    } finally {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+      if (interrupted) restoreTerminal();
+      setActiveProfiler(undefined);
+      setActiveInteractionBroker(undefined);
+      const answersFile = interaction.save(this.context.projectRoot);
+      if (answersFile) this.context.logger.info(`Answers recorded to ${answersFile}, replay them with --answers ${answersFile} --yes`);
+    }
+
+    if (profiler) {
+      pipelineSpan?.end({success: failure === undefined});
+      const file = path.join(projectCacheDir(this.context.projectRoot), 'profiles', `${new Date(pipelineStartTime).toISOString().replaceAll(':', '-')}.json`);
+      profiler.write(file);
+      reporter.emit({file, spans: profiler.spans(), type: 'profile-written'});
+    }
+
+    reporter.emit({
+      durationMs: Date.now() - pipelineStartTime,
+      error: failure === undefined ? undefined : `${failure}`,
+      logFile: this.context.logger.logFile,
+      success: failure === undefined,
+      type: 'pipeline-finished',
+    });
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+
+    this.context.logger.clear();
+  }
+
+  /**
+   * Execute an action, or reuse its cached result when its declared inputs are unchanged
+   */
+  private async executeAction(action: Action, previousResult: ActionResult | undefined, dependencyResults: DependencyResults, artifacts: Artifacts): Promise<ExecutedAction> {
+    const {context} = this;
+    const inputs = await action.inputFiles?.(context, previousResult, artifacts);
+    const outputs = await action.outputFiles?.(context) ?? [];
+    const cacheKey = action.cacheKey ?? action.name;
+    const extras = await action.fingerprintExtras?.(context) ?? [];
+    // Actions configured to produce other artifacts, like a release build, do not share cache entries
+    const fingerprint = () => fingerprintFiles(context.projectRoot, inputs ?? [], [action.name, context.environment, context.devMode, ...(action.outputs ?? []), ...extras]);
 
+    if (inputs && this.cache) {
+      const cachedResult = this.cache.lookup(cacheKey, fingerprint());
+      // Entries written before the action declared its artifacts are not reused
+      if (cachedResult && missingOutputs(action, cachedResult).length === 0) {
+        context.logger.info(`Skipping action ${action.name}, inputs are unchanged since the last run.`);
+        await action.restore?.(context, cachedResult);
+        this.state?.record(action.name, cachedResult, outputs);
+        return {result: cachedResult, resumed: false, retries: 0, skipped: true};
+      }
+    }
+
+    let retries = 0;
+    context.signal?.throwIfAborted();
+    const result = await withRetry(
+      action.retry ?? {attempts: 1},
+      () => action.execute(context, previousResult, dependencyResults, artifacts),
+      async ({attempt, attempts, delayMs, error}) => {
+        retries++;
+        this.reporter.emit({action: action.name, attempt, attempts, delayMs, error: `${error}`, type: 'action-retrying'});
+        // Start the next attempt from a clean state
+        await action.rollback?.(context);
+      },
+      context.signal,
+    );
+    const missing = missingOutputs(action, result);
+    if (missing.length > 0) {
+      throw new Error(`Action ${action.name} did not return its declared artifacts: ${missing.join(', ')}`);
+    }
+
+    if (inputs && this.cache) {
+      // Fingerprint after the run, so inputs the action rewrites itself (e.g. lock files) do not invalidate the entry
+      this.cache.store(cacheKey, fingerprint(), outputs, result);
+    }
+
+    this.state?.record(action.name, result, outputs);
+    return {result, resumed: false, retries, skipped: false};
+  }
+
+  /**
+   * Work out which actions a resumed run restores from the checkpoints of the previous run, and
+   * start recording the new run
+   * @returns The checkpointed results of the restored actions
+   */
+  private restorableResults(ordered: ActionNode[], {from, resume}: RunOptions): Map<string, ActionResult> {
+    const state = this.state as PipelineState;
+    const signature = {actions: ordered.map(node => node.action.name), devMode: this.context.devMode, environment: this.context.environment};
+    const restored = new Map<string, ActionResult>();
+    if (!from && !resume) {
+      state.begin(signature);
+      return restored;
+    }
+
+    const previous = state.load();
+    if (!previous) {
+      throw new Error(`There is no previous run to continue, ${state.file} does not exist`);
+    }
+
+    if (!state.matches(signature)) {
+      throw new Error(`The previous run was a different pipeline (${previous.actions.join(', ')} in ${previous.environment}), run without --resume or --from`);
+    }
+
+    // With --from, the action and everything downstream of it runs again
+    const rerun = new Set<string>();
+    if (from) {
+      if (!signature.actions.includes(from)) {
+        throw new Error(`Unknown action: ${from}. The pipeline runs ${signature.actions.join(', ')}`);
+      }
+
+      rerun.add(from);
+      for (const node of ordered) {
+        if (node.dependsOn.some(name => rerun.has(name))) rerun.add(node.action.name);
+      }
+    } else if (previous.finished) {
+      throw new Error('The previous run finished, there is nothing to resume. Use --from <action> to run it again from an action.');
+    }
+
+    for (const {action} of ordered) {
+      const result = rerun.has(action.name) ? undefined : state.checkpoint(action.name);
+      if (result) restored.set(action.name, result);
+    }
+
+    if (resume && previous.failedAction) {
+      this.context.logger.info(`Resuming the previous run, which failed at action ${previous.failedAction}.`);
+    }
+
+    state.begin(signature, [...restored.keys()]);
+    return restored;
+  }
+
+  /**
+   * Reuse the result an action had in the previous run instead of running it
+   */
+  private async restoreAction(action: Action, checkpoint: ActionResult): Promise<ExecutedAction> {
+    this.context.logger.info(`Skipping action ${action.name}, it completed in the previous run.`);
+    this.context.signal?.throwIfAborted();
+    await action.restore?.(this.context, checkpoint);
+    return {result: checkpoint, resumed: true, retries: 0, skipped: true};
+  }
+
+  /**
+   * Undo the changes of the actions that failed or were interrupted, last started first. A failing rollback does not
+   * stop the others.
+   */
+  private async rollback(actions: Action[]): Promise<void> {
+    const reversible = actions.filter(action => action.rollback).reverse();
+    if (reversible.length === 0) {
+      return;
+    }
+
+    this.reporter.emit({type: 'rollback-started'});
+    for (const action of reversible) {
+      const span = this.context.profiler?.start(`rollback ${action.name}`, 'step', action.name);
+      // Its changes are undone, a resumed run has to repeat it
+      this.state?.forget(action.name);
+      try {
+        await actionScope.run({action: action.name, reporter: this.reporter}, async () => action.rollback?.(this.context));
+        span?.end();
+        this.reporter.emit({action: action.name, type: 'action-rolled-back'});
       } catch (error) {
-        log.error(`${error}`);
-        if (this.context.logger.logFile !== null) {
-          log.message(`You can find the details at file://${path.resolve(this.context.logger.logFile)}`);
+        span?.end({error: `${error}`});
+        this.reporter.emit({action: action.name, error: `${error}`, type: 'action-rolled-back'});
+      }
+    }
+  }
+
+  /**
+   * Check that action names are unique, dependencies exist, the graph has no cycles and every
+   * artifact an action needs is produced by an action it depends on
+   * @returns The actions in an order that respects their dependencies
+   */
+  private validateGraph(): ActionNode[] {
+    const byName = new Map<string, ActionNode>();
+    for (const node of this.nodes) {
+      if (byName.has(node.action.name)) {
+        throw new Error(`Duplicate action name: ${node.action.name}`);
+      }
+
+      byName.set(node.action.name, node);
+    }
+
+    for (const node of this.nodes) {
+      for (const name of node.dependsOn) {
+        if (!byName.has(name)) {
+          throw new Error(`Action ${node.action.name} depends on unknown action: ${name}`);
         }
+      }
+    }
+
+    const sorted: ActionNode[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+    const visit = (node: ActionNode) => {
+      if (visited.has(node.action.name)) return;
+      if (visiting.includes(node.action.name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(node.action.name)), node.action.name];
+        throw new Error(`Circular action dependency: ${cycle.join(' -> ')}`);
+      }
+
+      visiting.push(node.action.name);
+      for (const name of node.dependsOn) visit(byName.get(name) as ActionNode);
+      visiting.pop();
+      visited.add(node.action.name);
+      sorted.push(node);
+    };
 
-        log.message("");
-        throw error;
+    for (const node of this.nodes) visit(node);
+
+    const available = new Map<string, Set<string>>();
+    for (const node of sorted) {
+      const upstream = new Set<string>();
+      for (const name of node.dependsOn) {
+        for (const artifact of available.get(name) ?? []) upstream.add(artifact);
+      }
+
+      for (const artifact of node.action.inputs ?? []) {
+        if (upstream.has(artifact)) continue;
+        const producer = this.nodes.find(other => other.action.outputs?.includes(artifact));
+        throw new Error(producer
+          ? `Action ${node.action.name} needs the ${artifact} artifact of ${producer.action.name}, but does not depend on it`
+          : `Action ${node.action.name} needs the ${artifact} artifact, but no action in the pipeline produces it`);
       }
+
+      available.set(node.action.name, new Set([...node.action.outputs ?? [], ...upstream]));
     }
 
-    log.success('All actions completed.');
-    this.context.logger.clear();
+    return sorted;
   }
 }
 
 // Helper function to execute a single action and log its timing and output (can be kept for individual action execution if needed)
-export async function executeAndLogAction(action: Action, context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
+// The action cannot consume artifacts, there are no dependencies to take them from
+export async function executeAndLogAction(action: Action<never>, context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
   context.logger.info(`Starting action: ${action.name} - ${action.description || ''}`);
   const startTime = Date.now();
-  const actionResult = await action.execute(context, previousResult);
+  const actionResult = await action.execute(context, previousResult, {}, {});
   const endTime = Date.now();
   context.logger.info(`Finished action: ${action.name} (took ${endTime - startTime}ms)`);
 
@@ -75,4 +494,4 @@ export async function executeAndLogAction(action: Action, context: ActionContext
   }
 
   return actionResult;
-}
\ No newline at end of file
+}
@@ -1,18 +1,24 @@
 import { Logger } from '../../logger.js';
 import {Device, platform} from '../../utils/devices.js';
+import {InteractionBroker} from './interaction-broker.js';
+import {Profiler} from './profiler.js';
+import {Reporter} from './reporter.js';
+import {RetryPolicy} from './retry.js';
 
 export type LoggerFunction = (message?: string | undefined, ...args: unknown[]) => void;
 
 // Defines the context for an action execution
 export interface ActionContext {
   [key: string]: unknown; // Allow for additional context properties
-  appName?: string,
-  device?:Device,
   devMode: boolean;
   environment: "development" | "production";
+  interaction?: InteractionBroker; // Optional: set by the runner, the prompts of `core/prompts` go through it
   logger: Logger; // Changed Logger to Command
   platform?:platform,
+  profiler?: Profiler; // Optional: records a trace of the run, see --profile
   projectRoot: string;
+  reporter?: Reporter; // Optional: receives the pipeline events, defaults to the clack output
+  signal?: AbortSignal; // Optional: set by the runner, aborted on Ctrl+C or SIGTERM. Long waits and retries should stop on it.
   spinner?: {
     message: (msg?: string | undefined) => void;
     start: (msg?: string | undefined) => void;
@@ -20,17 +26,73 @@ export interface ActionContext {
   };
 }
 
+// Named artifacts an action hands to the actions that depend on it
+export interface Artifacts {
+  aab: string; // Path of the Android App Bundle, built for releases
+  apk: string; // Path of the built Android package
+  appName: string; // Name of the native app, as entered when the platform project was prepared
+  bundles: string[]; // Paths of the Lynx bundles built from the app sources
+  device: Device; // Device the app is built for and launched on
+  devices: Device[]; // Every device the app is launched on, `device` is the first of them
+  iosApp: string; // Path of the built iOS .app
+  platformProject: string; // Directory of the prepared native project
+}
+
+export type ArtifactName = keyof Artifacts;
+
 // Defines the result of an action execution
-export interface ActionResult {
+export interface ActionResult<Output extends ArtifactName = ArtifactName> {
+  artifacts?: Partial<Pick<Artifacts, Output>>; // Optional: the artifacts listed in the action's `outputs`, the runner checks they are all there
   crucialOutputPaths?: string[]; // Optional: paths to the essential output artifacts, which will be shown in the output
   outputPaths?: string[]; // Optional: paths to the output artifacts
   result?: Record<string, unknown>;
 }
 
-// Defines the interface for an action
-export interface Action { // P represents the type of the previous action's result
+// Describes what an action would do, printed by dry runs
+export interface ActionPlan {
+  commands?: string[]; // Optional: command lines the action would spawn
+  files?: string[]; // Optional: absolute paths of the files the action would write
+  notes?: string[]; // Optional: anything else worth knowing, e.g. prompts or downloads
+}
+
+// Results of the actions an action depends on, keyed by action name
+export type DependencyResults = Record<string, ActionResult>;
+
+// Defines the interface for an action. Input and Output name the artifacts it consumes and produces.
+export interface Action<Input extends ArtifactName = ArtifactName, Output extends ArtifactName = ArtifactName> {
+  // Optional: key of the action's entry in the action cache, defaults to its name. Variants of an action
+  // that build something else, like a release build, keep their own entry.
+  cacheKey?: string;
+  // Optional: names of the actions that must finish before this one starts.
+  // When omitted, the action depends on the action added before it.
+  dependsOn?: string[];
   description?: string;
 
-  execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult>;
+  // previousResult is the result of the last dependency, dependencyResults holds the results of all of them.
+  // artifacts holds the declared inputs, taken from the actions this one depends on, directly or not.
+  execute(context: ActionContext, previousResult: ActionResult | undefined, dependencyResults: DependencyResults, artifacts: Pick<Artifacts, Input>): Promise<ActionResult<Output>>;
+  // Optional: settings besides the inputFiles the result depends on, e.g. values read from the environment.
+  // They are part of the fingerprint the runner skips the action by.
+  fingerprintExtras?(context: ActionContext): Promise<unknown[]> | unknown[];
+  // Optional: files and directories the action reads. When declared, the runner skips the action if they
+  // are unchanged since its last successful run and all of its outputFiles still exist.
+  // Returning undefined opts out of skipping for this run.
+  inputFiles?(context: ActionContext, previousResult?: ActionResult, artifacts?: Pick<Artifacts, Input>): Promise<string[] | undefined> | string[] | undefined;
+  // Optional: artifacts execute needs. The runner refuses to start a pipeline in which none of the
+  // actions this one depends on produces them.
+  inputs?: readonly Input[];
   name: string;
-}
\ No newline at end of file
+  // Optional: files and directories the action produces
+  outputFiles?(context: ActionContext): Promise<string[]> | string[];
+  // Optional: artifacts execute returns in `artifacts`
+  outputs?: readonly Output[];
+  // Optional: describe what execute would do without touching disk or spawning tools
+  plan?(context: ActionContext): ActionPlan | Promise<ActionPlan>;
+  // Optional: re-apply the context changes execute would have made when the action is skipped
+  restore?(context: ActionContext, cachedResult: ActionResult): Promise<void> | void;
+  // Optional: retry execute when it throws one of the policy's error classes (TransientError by default)
+  retry?: RetryPolicy;
+  // Optional: undo what execute changed. When the pipeline fails or is interrupted, the runner calls it in
+  // reverse order for every action that started, including the one that failed. It also runs before a retry.
+  rollback?(context: ActionContext): Promise<void> | void;
+}
@@ -1,11 +1,48 @@
-import { spawn } from 'node:child_process';
 import fs from 'node:fs';
 import { platform } from 'node:os';
 import path from 'node:path';
 
 import {Logger} from "../../logger.js"; // Logger might be used internally, or can be Command if only log is used
-import {copyFolder} from "../../utils/common.js";
-import {Action, ActionContext, ActionResult} from './action.js';
+import {androidVersion, releaseGradleEnv, resolveSigningConfig, SIGNING_ENV, signingSettings} from '../../utils/android-signing.js';
+import {copyFolder, formatCommand, readPackageJson} from "../../utils/common.js";
+import {startProcess} from '../../utils/process-runner.js';
+import {loadAppPlatformConfig} from '../config.js';
+import {Action, ActionContext, ActionPlan, ActionResult, Artifacts, DependencyResults} from './action.js';
+import {Span, startSpan} from './profiler.js';
+import {RetryPolicy} from './retry.js';
+
+export type AndroidBuildType = 'debug' | 'release';
+
+// Gradle wrapper invocation that builds the app module for a build type. Releases also build the App Bundle for the stores.
+export function gradleInvocation(buildType: AndroidBuildType): {args: string[], command: string, tasks: string[]} {
+  const tasks = buildType === 'debug' ? ['assembleDebug'] : ['assembleRelease', 'bundleRelease'];
+  return {
+    args: tasks.map(task => `app:${task}`),
+    command: platform() === 'win32' ? 'gradlew.bat' : './gradlew',
+    tasks,
+  };
+}
+
+// The Android project prepare-android-project generates, at the platformDir of lynx.app.json
+function configuredProjectDir(projectRoot: string): string {
+  return path.resolve(projectRoot, loadAppPlatformConfig(projectRoot, 'android').platformDir);
+}
+
+// Where Gradle writes the APK and, for releases, the App Bundle
+function buildOutputs(androidDir: string, buildType: AndroidBuildType): {aab?: string, apk: string} {
+  const outputs = path.join(androidDir, 'app', 'build', 'outputs');
+  return {
+    aab: buildType === 'release' ? path.join(outputs, 'bundle', 'release', 'app-release.aab') : undefined,
+    apk: path.join(outputs, 'apk', buildType, `app-${buildType}.apk`),
+  };
+}
+
+// Gradle environment of a signed release, versioned like package.json
+async function releaseEnv(projectRoot: string): Promise<NodeJS.ProcessEnv> {
+  const signing = resolveSigningConfig(projectRoot);
+  const {version} = await readPackageJson(projectRoot);
+  return releaseGradleEnv(signing, androidVersion(String(version)));
+}
 
 // AndroidBuilder class, now focused on running the Gradle build
 export class AndroidBuilder {
@@ -19,37 +56,28 @@ export class AndroidBuilder {
   // have been moved to PrepareAndroidProjectAction.
   // getJavaVersion and prepareJDK were part of checkAndPrepareEnvironment.
 
-  public async runAndroidBuild(projectDir: string, buildType: 'debug' | 'release'): Promise<void> {
-    const task = buildType === 'debug' ? 'assembleDebug' : 'assembleRelease';
-    this.logger.info(`Running android build: app:${task}`);
-    const gradleCommand = platform() === 'win32' ? 'gradlew.bat' : './gradlew';
-    const args = [`app:${task}`];
-
-    return new Promise<void>((resolve, reject) => {
-      const child = spawn(gradleCommand, args, {
-        cwd: path.join(projectDir, 'android'),
-        stdio: 'pipe',
-      });
-
-      child.stdout?.on('data', (data) => {
-        this.logger.info(data.toString().trim());
-      });
-      
-      child.stderr?.on('data', (data) => {
-        this.logger.info(data.toString().trim());
-      });
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          this.logger.info(`Gradle build finished successfully for app:${task}`);
-          resolve();
-        } else {
-          reject(new Error(`Gradle process exited for app:${task}, code：${code}`));
-        }
-      });
-
-      child.on('error', (err) => reject(err));
+  public async runAndroidBuild(androidDir: string, buildType: AndroidBuildType, env?: NodeJS.ProcessEnv): Promise<void> {
+    const {args, command: gradleCommand, tasks} = gradleInvocation(buildType);
+    this.logger.info(`Running android build: ${args.join(' ')}`);
+
+    // Dependency download hiccups fail with a TransientError, so the action is retried
+    const gradle = startProcess(gradleCommand, {args, cwd: androidDir, env, logger: this.logger, transientErrors: true});
+    // Gradle prints `> Task :app:mergeDebugAssets` when a task starts, it runs until the next one starts
+    let taskSpan: Span | undefined;
+    gradle.on('output', line => {
+      const taskName = /^> Task (\S+)/.exec(line)?.[1];
+      if (!taskName) return;
+      taskSpan?.end();
+      taskSpan = startSpan(taskName, 'step');
     });
+
+    try {
+      await gradle.done;
+    } finally {
+      taskSpan?.end();
+    }
+
+    this.logger.info(`Gradle build finished successfully for ${tasks.join(', ')}`);
   }
 
   // getJavaVersion and prepareJDK methods were part of the old checkAndPrepareEnvironment
@@ -59,29 +87,39 @@ export class AndroidBuilder {
 
 
 // Action to build the Android application using Gradle
-export class BuildAndroidAction implements Action { // Expects previous action (BuildAppAction) to be void result type
+export class BuildAndroidAction implements Action<'bundles' | 'platformProject', 'aab' | 'apk'> {
+  // Debug and release builds keep their own cache entry, so one does not evict the other
+  readonly cacheKey: string;
   description = 'Builds the Android application using Gradle.';
+  readonly inputs = ['bundles', 'platformProject'] as const;
   name = 'build-android';
+  readonly outputs: ReadonlyArray<'aab' | 'apk'>;
+  // Dependency resolution fails every now and then when a repository is slow to answer
+  retry: RetryPolicy = {attempts: 3, initialDelayMs: 5000};
+  private readonly buildType: AndroidBuildType;
+
+  /**
+   * @param options Optional: `release` builds a signed APK and App Bundle instead of a debug APK
+   * @param options.release Build the release variant
+   */
+  constructor(options: {release?: boolean} = {}) {
+    this.buildType = options.release ? 'release' : 'debug';
+    this.cacheKey = `${this.name}-${this.buildType}`;
+    this.outputs = options.release ? ['apk', 'aab'] : ['apk'];
+  }
 
-  async execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
-    // previousResult from BuildAppAction is available if needed, but this action primarily relies on
-    // the side effects (assets copied to Android project) of BuildAppAction.
-    if (previousResult) {
-      context.logger.info(`${this.name} is executing after BuildAppAction.`);
-      if (previousResult.outputPaths && previousResult.outputPaths.length > 0) {
-        context.logger.info(`${this.name} noted previous action output paths: ${previousResult.outputPaths.join(', ')} (these should be assets in the android project)`);
-      }
-    }
-
-    const appAssetPaths = previousResult?.outputPaths ?? [];
+  async execute(context: ActionContext, _previousResult: ActionResult | undefined, _dependencyResults: DependencyResults, {bundles: appAssetPaths, platformProject}: Pick<Artifacts, 'bundles' | 'platformProject'>): Promise<ActionResult<'aab' | 'apk'>> {
     context.logger.info(`${this.name} received app asset paths: ${appAssetPaths.join(', ')}`);
 
     if (!context.projectRoot) {
       throw new Error('Project root not found in action context.');
     }
 
+    // Fail before the assets are copied when a release cannot be signed
+    const gradleEnv = this.buildType === 'release' ? await releaseEnv(context.projectRoot) : undefined;
+
     // Copy app assets to Android assets folder
-    const assetsFolder = path.join(context.projectRoot, 'android', 'app', 'src', 'main', 'assets');
+    const assetsFolder = path.join(platformProject, 'app', 'src', 'main', 'assets');
     if (!fs.existsSync(assetsFolder)) {
       fs.mkdirSync(assetsFolder, { recursive: true });
     }
@@ -111,15 +149,46 @@ export class BuildAndroidAction implements Action { // Expects previous action (
     const androidBuilder = new AndroidBuilder(context.logger);
 
     context.logger.info('Starting Android Gradle build...');
-    // Environment (ANDROID_HOME, JAVA_HOME) and project structure (android folder)
+    // Environment (ANDROID_HOME, JAVA_HOME) and project structure (platformProject)
     // are assumed to be prepared by PrepareAndroidProjectAction.
 
-    // Default to debug build, or make it configurable via action parameters if needed
-    const buildType = 'debug'; // Or make configurable
-    await androidBuilder.runAndroidBuild(context.projectRoot, buildType);
+    await androidBuilder.runAndroidBuild(platformProject, this.buildType, gradleEnv);
+
+    // The output paths for the Android APK and App Bundle
+    const {aab, apk} = buildOutputs(platformProject, this.buildType);
+    const paths = aab ? [apk, aab] : [apk];
+    return {artifacts: {aab, apk}, crucialOutputPaths: paths, outputPaths: paths};
+  }
+
+  // A release is signed with the keystore and alias set at the time, they can change without any file changing
+  fingerprintExtras(context: ActionContext): unknown[] {
+    if (this.buildType === 'debug') return [];
+    const {keyAlias, keystore} = signingSettings(context.projectRoot);
+    return [keystore, keyAlias];
+  }
+
+  inputFiles(context: ActionContext, _previousResult?: ActionResult, artifacts?: Pick<Artifacts, 'bundles' | 'platformProject'>): string[] {
+    // package.json holds the version the versionCode and versionName are made of
+    const inputs = [artifacts?.platformProject ?? configuredProjectDir(context.projectRoot), path.join(context.projectRoot, 'package.json'), ...(artifacts?.bundles ?? [])];
+    const {keystore} = this.buildType === 'release' ? signingSettings(context.projectRoot) : {};
+    return keystore ? [...inputs, keystore] : inputs;
+  }
+
+  outputFiles(context: ActionContext): string[] {
+    // Asked for before the run, when the platformProject artifact is not there yet
+    const {aab, apk} = buildOutputs(configuredProjectDir(context.projectRoot), this.buildType);
+    return aab ? [apk, aab] : [apk];
+  }
 
-    // The output path for the Android APK
-    const apkPath = path.join(context.projectRoot, 'android', 'app', 'build', 'outputs', 'apk', buildType, `app-${buildType}.apk`);
-    return { crucialOutputPaths: [apkPath], outputPaths: [apkPath], result: undefined };
+  plan(context: ActionContext): ActionPlan {
+    const {args, command} = gradleInvocation(this.buildType);
+    return {
+      commands: [formatCommand(command, args, configuredProjectDir(context.projectRoot))],
+      files: this.outputFiles(context),
+      notes: [
+        'Copies the bundles built by build-app into app/src/main/assets of the Android project.',
+        ...(this.buildType === 'release' ? [`Signs with the keystore from ${SIGNING_ENV.keystore} or lynx.app.json, versionCode and versionName come from package.json.`] : []),
+      ],
+    };
   }
 }
\ No newline at end of file
@@ -1,15 +1,34 @@
-import {ChildProcess, spawn} from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
 import {fileURLToPath} from "node:url";
 
 import {Logger} from "../../logger.js";
-import {Action, ActionContext, ActionResult} from './action.js';
+import {formatCommand} from "../../utils/common.js";
+import {RunningProcess, startProcess} from '../../utils/process-runner.js';
+import {Action, ActionContext, ActionPlan, ActionResult} from './action.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const RSPEEDY_BIN = path.resolve(__dirname, '..', '..', '..', 'node_modules', '.bin', 'rspeedy');
+// rspeedy colors its output, the patterns below match the plain text
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\u001B\[[0-9;]*m/g;
+const READY_PATTERN = /ready\s+built in \d+\.\d+ s/;
+const BUILD_ERRORS_PATTERN = /error\s+Build errors:/;
+// Set for web runs, the lynx.config.ts of the app template only adds the web environment when it is there
+const WEB_BUILD_ENV = 'LEPO_BUILD_WEB';
+
+// Environment of rspeedy, the web bundle is only built for web runs
+function buildEnv(context: ActionContext): NodeJS.ProcessEnv | undefined {
+  return context.platform === 'web' ? {[WEB_BUILD_ENV]: '1'} : undefined;
+}
+
+// The bundle rspeedy builds for the platform of the run
+function appBundle(context: ActionContext): string {
+  return path.join(context.projectRoot, 'dist', context.platform === 'web' ? 'main.web.bundle' : 'main.lynx.bundle');
+}
 
 class AppBuilder {
-  private devProcess: ChildProcess | undefined; // Type for the child process
+  private devProcess: RunningProcess | undefined; // The dev server, while it runs in the background
   private logger: Logger; // Changed Logger to Command
   private rspeedyBin: string | undefined;
 
@@ -18,109 +37,95 @@ class AppBuilder {
     this.rspeedyBin = undefined;
   }
 
-  public async buildApp(projectRoot: string, dev: boolean = false, waitForCompletion: boolean = false): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      if (!this.rspeedyBin) {
-        throw new Error('rspeedy is not installed. Please run `npm install` first.');
-      }
+  public async buildApp(projectRoot: string, dev: boolean = false, waitForCompletion: boolean = false, env?: NodeJS.ProcessEnv): Promise<void> {
+    if (!this.rspeedyBin) {
+      throw new Error('rspeedy is not installed. Please run `npm install` first.');
+    }
+
+    waitForCompletion = dev || waitForCompletion;
+
+    const command = dev ? 'dev' : 'build';
+    const description = dev ? 'development server' : 'build';
+    this.logger.info(`${dev ? 'Starting development server' : 'Building application'}...`);
+    this.logger.info(`rspeedyBin: ${this.rspeedyBin}`);
+    this.logger.info(`projectRoot: ${projectRoot}`);
+    this.logger.info(`command: ${command}`);
+
+    const child = startProcess(this.rspeedyBin, {args: [command], cwd: path.resolve(projectRoot), env, shell: true});
+    // For dev mode, keep the background process so it can be waited for or stopped
+    if (dev) {
+      this.devProcess = child;
+    }
 
-      waitForCompletion = dev || waitForCompletion;
-
-      const command = dev ? 'dev' : 'build';
-      this.logger.info(`${dev ? 'Starting development server' : 'Building application'}...`);
-      this.logger.info(`rspeedyBin: ${this.rspeedyBin}`);
-      this.logger.info(`projectRoot: ${projectRoot}`);
-      this.logger.info(`command: ${command}`);
-      
-      const child = spawn(this.rspeedyBin, [command], {
-        cwd: path.resolve(projectRoot),
-        shell: true,
-        stdio: 'pipe',
-      })
-      
+    return new Promise<void>((resolve, reject) => {
       let devServerReady = false;
 
-      child.stdout?.on('data', (data) => {
-        const output = data.toString();
-        this.logger.info(output.trim());
+      child.on('output', (line, source) => {
+        if (devServerReady) {
+          if (source === 'stdout') this.logger.message(line);
+          else this.logger.error(line);
+          return;
+        }
 
+        if (source === 'stdout') this.logger.info(line);
+        else this.logger.error(line);
         // Check for dev server ready signal
-        if (dev && !devServerReady) {
-          this.logger.info('Checking for dev server ready signal...');
-          if (/ready\s+built in \d+\.\d+ s/.test(output.replaceAll("/\u001B[[0-9;]*m/g", ''))) {
-            devServerReady = true;
-            this.logger.info('Development server is ready, continuing with background execution...');
-
-            // Reset configure the output listener
-            child.stdout?.removeAllListeners('data');
-            child.stdout?.on('data', (data) => {
-              this.logger.message(data.toString().trim())
-            });
-            child.stderr?.on('data', (data) => {
-              this.logger.error(data.toString().trim());
-            });
-            resolve(); // Continue with the rest of the flow
-          } else if (/error\s+Build errors:/.test(output.replaceAll("/\u001B[[0-9;]*m/g", ''))) {
-            // Stop the process if there are build errors
-            child.stdout?.removeAllListeners('data');
-            child.stderr?.removeAllListeners('data');
-            child.kill('SIGINT');
-            this.logger.error('Build errors detected. Exiting...');
-            this.logger.error(`Output: ${output});`)
-            reject(new Error(`Application ${dev? 'development server' : 'build'} failed`));
-          }
+        if (!dev || source !== 'stdout') return;
+        const text = line.replaceAll(ANSI_ESCAPE, '');
+        if (READY_PATTERN.test(text)) {
+          devServerReady = true;
+          this.logger.info('Development server is ready, continuing with background execution...');
+          resolve(); // Continue with the rest of the flow
+        } else if (BUILD_ERRORS_PATTERN.test(text)) {
+          // Stop the process if there are build errors
+          child.removeAllListeners('output');
+          child.stop('SIGINT');
+          this.logger.error('Build errors detected. Exiting...');
+          reject(new Error(`Application ${description} failed`));
         }
       });
-      
-      child.stderr?.on('data', (data) => {
-        this.logger.error(data.toString().trim());
-      });
-      
-      child.on('close', (code) => {
-        if (!dev || !devServerReady) {
-          if (code === 0) {
-            this.logger.info(`Application ${dev ? 'development server' : 'build'} completed successfully.`);
-            resolve();
-          } else {
-            reject(new Error(`Application ${dev ? 'development server' : 'build'} failed.`));
-          }
-        } else if (dev && devServerReady && waitForCompletion) {
+
+      child.done.then(() => {
+        if (!devServerReady) {
+          this.logger.info(`Application ${description} completed successfully.`);
+        } else if (waitForCompletion) {
           // In dev mode, if waiting for completion is required, resolve when process ends
           this.logger.info('Development server has been terminated.');
-          resolve();
         }
+
+        resolve();
+      }, (error: Error) => {
+        if (devServerReady) return;
+        this.logger.error(error.message);
+        reject(new Error(`Application ${description} failed.`, {cause: error}));
       });
-      
-      child.on('error', (err) => {
-        this.logger.error(`Error: ${err.toString()}`);
-        reject(err);
-      });
-      
-      // For dev mode, we need to handle the background process
-      if (dev && !waitForCompletion) {
-        // Only store process reference when not waiting for completion
-        this.devProcess = child;
-      }
-    })
+    });
   }
 
   public async prepareEnvironment(_projectRoot: string): Promise<void> {
     this.logger.info('Preparing environment...');
     // Check if rspeedy is installed
-    const rspeedyBin = path.resolve(__dirname, '..', '..', '..', 'node_modules', '.bin', 'rspeedy');
-    if (!fs.existsSync(rspeedyBin)) {
+    if (!fs.existsSync(RSPEEDY_BIN)) {
       throw new Error('rspeedy is not installed. Please run `npm install` first.');
     }
 
-    this.rspeedyBin = rspeedyBin;
+    this.rspeedyBin = RSPEEDY_BIN;
+  }
+
+  public stopDevProcess(): void {
+    const {devProcess} = this;
+    if (devProcess && devProcess.child.exitCode === null && !devProcess.child.killed) {
+      this.logger.info('Stopping development server...');
+      devProcess.stop('SIGINT');
+    }
   }
 
   public async waitForDevProcess(): Promise<void> {
     return new Promise<void>((resolve) => {
       const {devProcess} = this;
-      if (devProcess && !devProcess.killed) {
+      if (devProcess && !devProcess.child.killed) {
         this.logger.info('Waiting for development server to finish...');
-        devProcess.on('close', () => {
+        devProcess.done.finally(() => {
           this.logger.info('Development server has been terminated.');
           resolve();
         });
@@ -132,25 +137,20 @@ class AppBuilder {
 }
 
 // Action to build the application (frontend assets)
-export class BuildAppAction implements Action { // Expects android project path as string from previous action
-  description = 'Builds the application (frontend assets) and copies them to the Android assets folder.';
+export class BuildAppAction implements Action<never, 'bundles'> {
+  description = 'Builds the application (frontend assets), which the native build copies into the platform project.';
   name = 'build-app';
+  readonly outputs = ['bundles'] as const;
+  private builder: AppBuilder | undefined;
 
-  async execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
-    if (!previousResult || !previousResult.outputPaths) {
-      throw new Error('BuildAppAction requires the Android project path from the previous action.');
-    }
-
-    const androidProjectPath = previousResult.outputPaths[0];
-    context.logger.info(`${this.name} received Android project path: ${androidProjectPath}`);
-
-    const builder = new AppBuilder(context.logger); // context.logger is already Command
-    await builder.prepareEnvironment(context.projectRoot);
-    await builder.buildApp(context.projectRoot, context.devMode);
+  async execute(context: ActionContext): Promise<ActionResult<'bundles'>> {
+    this.builder = new AppBuilder(context.logger); // context.logger is already Command
+    await this.builder.prepareEnvironment(context.projectRoot);
+    await this.builder.buildApp(context.projectRoot, context.devMode, false, buildEnv(context));
 
     // Define output paths for frontend assets
     const builtAppOutputPaths = [
-      path.join(context.projectRoot, 'dist', 'main.lynx.bundle'),
+      appBundle(context),
       // path.join(context.projectRoot, 'dist', 'static'),
     ];
 
@@ -161,13 +161,50 @@ export class BuildAppAction implements Action { // Expects android project path
         existingOutputPaths.push(outputPath);
       } else {
         context.logger.error(`Build output not found at ${outputPath}`);
-        throw new Error(`Build output not found at ${outputPath}`);
+        // Apps created before lepo run web only build for Lynx
+        const hint = context.platform === 'web' ? `, add a web environment to lynx.config.ts when ${WEB_BUILD_ENV} is set, or run lepo upgrade` : '';
+        throw new Error(`Build output not found at ${outputPath}${hint}`);
       }
     }
 
     context.logger.info(`Built app assets: ${existingOutputPaths.join(', ')}`);
     
-    // Return the output paths for downstream actions to handle copying
-    return { outputPaths: existingOutputPaths ,result: undefined};
+    // Downstream native builds copy the bundles into their platform project
+    return {artifacts: {bundles: existingOutputPaths}, outputPaths: existingOutputPaths};
+  }
+
+  // Web runs build one more environment than the native ones
+  fingerprintExtras(context: ActionContext): unknown[] {
+    return [context.platform === 'web'];
+  }
+
+  inputFiles(context: ActionContext): string[] | undefined {
+    // The development server has to be started on every run
+    if (context.devMode) {
+      return undefined;
+    }
+
+    return ['src', 'package.json', 'lynx.config.ts', 'lynx.config.js', 'tsconfig.json']
+      .map(file => path.join(context.projectRoot, file));
+  }
+
+  outputFiles(context: ActionContext): string[] {
+    return [appBundle(context)];
+  }
+
+  plan(context: ActionContext): ActionPlan {
+    return {
+      commands: [formatCommand(RSPEEDY_BIN, [context.devMode ? 'dev' : 'build'], context.projectRoot)],
+      files: this.outputFiles(context),
+      notes: [
+        ...(context.devMode ? ['The development server keeps running in the background.'] : []),
+        ...(buildEnv(context) ? [`${WEB_BUILD_ENV}=1 adds the web environment of lynx.config.ts`] : []),
+      ],
+    };
+  }
+
+  rollback(): void {
+    // The bundle is overwritten by the next build, only the development server has to go
+    this.builder?.stopDevProcess();
   }
 }
\ No newline at end of file
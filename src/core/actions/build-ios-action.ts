@@ -1,11 +1,55 @@
-import { spawn } from 'node:child_process';
 import fs from 'node:fs';
 import path from 'node:path';
 
 import {Logger} from "../../logger.js";
-import {copyFolder} from "../../utils/common.js";
+import {copyFolder, formatCommand} from "../../utils/common.js";
 import { Device } from '../../utils/devices.js';
-import {Action, ActionContext, ActionResult} from './action.js';
+import {runProcess} from '../../utils/process-runner.js';
+import {ActionCache, fingerprintFiles} from './action-cache.js';
+import {Action, ActionContext, ActionPlan, ActionResult, Artifacts, DependencyResults} from './action.js';
+
+const POD_INSTALL_CACHE_KEY = 'pod-install';
+
+export const IOS_SDKS = ['iphonesimulator', 'iphoneos'] as const;
+export type iOSSdk = typeof IOS_SDKS[number];
+
+// What to build for when no device was selected, see `lepo build ios`
+export interface iOSBuildTarget {
+  destination?: string; // Optional: xcodebuild -destination, defaults to any device of the SDK
+  sdk: iOSSdk;
+}
+
+// A generic destination builds for every device of the SDK, no simulator has to exist
+function defaultDestination(sdk: iOSSdk): string {
+  return sdk === 'iphoneos' ? 'generic/platform=iOS' : 'generic/platform=iOS Simulator';
+}
+
+function derivedDataPath(sdk: iOSSdk): string {
+  return path.join('out', 'app', sdk === 'iphoneos' ? 'device' : 'simulator');
+}
+
+// The commands that install the pods of the iOS project, through Bundler when there is a Gemfile
+function podInstallCommands(iosDir: string): Array<{args: string[], command: string, label: string}> {
+  if (!fs.existsSync(path.join(iosDir, 'Gemfile'))) {
+    return [{args: ['install'], command: 'pod', label: 'pod install'}];
+  }
+
+  return [
+    {args: ['install'], command: 'bundle', label: 'bundle install'},
+    {args: ['exec', 'pod', 'install'], command: 'bundle', label: 'pod install'},
+  ];
+}
+
+function xcodebuildArgs(appName: string, {destination, sdk}: Required<iOSBuildTarget>): string[] {
+  return [
+    "-workspace", `${appName}.xcworkspace`,
+    "-scheme", appName,
+    "-configuration", "Debug",
+    "-sdk", sdk,
+    "-destination", destination,
+    "-derivedDataPath", derivedDataPath(sdk),
+  ];
+}
 
 export class iOSBuilder {
   private logger: Logger;
@@ -14,91 +58,61 @@ export class iOSBuilder {
     this.logger = logger;
   }
 
-  public async runiOSBuild(projectRoot: string, appName: string, _: 'debug' | 'release', device: Device): Promise<void> {
+  public async runiOSBuild(projectRoot: string, appName: string, _: 'debug' | 'release', target: Required<iOSBuildTarget>): Promise<void> {
     this.logger.info(`Running ios build`);
     const iosDir = path.join(projectRoot, 'ios');
-    const hasGemfile = fs.existsSync(path.join(iosDir, 'Gemfile'));
-    if (hasGemfile) {
-      await this.runCommand('bundle', ['install'], iosDir, 'bundle install');
+    // Skip pod install when the Podfile and lock files are unchanged since the last install
+    const cache = new ActionCache(projectRoot);
+    const podInputs = ['Gemfile', 'Gemfile.lock', 'Podfile', 'Podfile.lock'].map(file => path.join(iosDir, file));
+    if (cache.lookup(POD_INSTALL_CACHE_KEY, fingerprintFiles(projectRoot, podInputs))) {
+      this.logger.info('Pods are up to date, skipping pod install');
+    } else {
+      for (const {args, command, label} of podInstallCommands(iosDir)) {
+        await this.runCommand(command, args, iosDir, label);
+      }
+
+      cache.store(POD_INSTALL_CACHE_KEY, fingerprintFiles(projectRoot, podInputs), [path.join(iosDir, 'Pods')], {});
     }
 
-    await this.runCommand(
-      hasGemfile ? 'bundle' : 'pod',
-      hasGemfile ? ['exec', 'pod', 'install'] : ['install'],
-      iosDir,
-      'pod install',
-    );
-
-    const xcodebuild = "xcodebuild";
-    const xcodebuildArgs = [
-        "-workspace", `${appName}.xcworkspace`, 
-        "-scheme", appName, 
-        "-configuration", "Debug", 
-        "-sdk", "iphonesimulator",
-        "-destination", `platform=iOS Simulator,name=${device.name}`,
-        "-derivedDataPath", "out/app/simulator"
-    ];
-
-    await this.runCommand(xcodebuild, xcodebuildArgs, iosDir, 'xcodebuild');
+    await this.runCommand('xcodebuild', xcodebuildArgs(appName, target), iosDir, 'xcodebuild');
   }
 
   private async runCommand(command: string, args: string[], cwd: string, label: string): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const child = spawn(command, args, {
-        cwd,
-        stdio: 'pipe',
-      });
-
-      child.stdout?.on('data', (data) => {
-        this.logger.info(data.toString().trim());
-      });
-      
-      child.stderr?.on('data', (data) => {
-        this.logger.warn(data.toString().trim());
-      });
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          this.logger.info(`${label} finished successfully for app`);
-          resolve();
-        } else {
-          reject(new Error(`${label} process exited for app code：${code}`));
-        }
-      });
-
-      child.on('error', (err) => reject(err));
-    });
+    // pod install and bundle install download, a dropped connection is worth another attempt
+    await runProcess(command, {args, cwd, logger: this.logger, transientErrors: label !== 'xcodebuild'});
+    this.logger.info(`${label} finished successfully for app`);
   }
 
 }
 
 
 
-export class BuildiOSAction implements Action {
+export class BuildiOSAction implements Action<'appName' | 'bundles' | 'device', 'iosApp'> {
   description = 'Builds the iOS application xcode-build.';
+  readonly inputs: ReadonlyArray<'appName' | 'bundles' | 'device'>;
   name = 'build-ios';
+  readonly outputs = ['iosApp'] as const;
 
-  async execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
-    if (previousResult) {
-      context.logger.info(`${this.name} is executing after BuildAppAction.`);
-      if (previousResult.outputPaths && previousResult.outputPaths.length > 0) {
-        context.logger.info(`${this.name} noted previous action output paths: ${previousResult.outputPaths.join(', ')} (these should be assets in the iOS project)`);
-      }
-
-      if(context.appName === undefined){
-        context.logger.error(`${this.name} not found xcode project name`)
-        throw new Error('Xcode project name not found in previous action result.');
-      }
-    }
+  /**
+   * @param target Optional: build for an SDK and destination instead of the device selected by prepare-device
+   */
+  constructor(private readonly target?: iOSBuildTarget) {
+    this.inputs = target ? ['appName', 'bundles'] : ['appName', 'bundles', 'device'];
+  }
 
-    const appAssetPaths = previousResult?.outputPaths ?? [];
+  async execute(
+    context: ActionContext,
+    _previousResult: ActionResult | undefined,
+    _dependencyResults: DependencyResults,
+    {appName, bundles: appAssetPaths, device}: Partial<Pick<Artifacts, 'device'>> & Pick<Artifacts, 'appName' | 'bundles'>,
+  ): Promise<ActionResult<'iosApp'>> {
     context.logger.info(`${this.name} received app asset paths: ${appAssetPaths.join(', ')}`);
 
     if (!context.projectRoot) {
       throw new Error('Project root not found in action context.');
     }
 
-    const assetsFolder = path.join(context.projectRoot, 'ios', context.appName as string, 'Resources');
+    const assetsFolder = path.join(context.projectRoot, 'ios', appName, 'Resources');
     if (!fs.existsSync(assetsFolder)) {
       fs.mkdirSync(assetsFolder, { recursive: true });
     }
@@ -134,9 +148,43 @@ export class BuildiOSAction implements Action {
 
     context.logger.info('Starting iOS build...');
     const buildType = 'debug';
-    await builder.runiOSBuild(context.projectRoot, context.appName as string, buildType, context.device as Device);
+    const target = this.buildTarget(device);
+    await builder.runiOSBuild(context.projectRoot, appName, buildType, target);
+
+    const appPath = path.join(context.projectRoot, 'ios', derivedDataPath(target.sdk), 'Build', 'Products', `${buildType}-${target.sdk}`, `${appName}.app`);
+    return {artifacts: {iosApp: appPath}, crucialOutputPaths: [appPath], outputPaths: [appPath]};
+  }
+
+  plan(context: ActionContext): ActionPlan {
+    const iosDir = path.join(context.projectRoot, 'ios');
+    // The app name and device are only known once the previous actions ran
+    const appName = '<appName>';
+    const target = this.target
+      ? this.buildTarget()
+      : {destination: 'platform=iOS Simulator,name=<selected simulator>', sdk: 'iphonesimulator' as const};
+    return {
+      commands: [
+        ...podInstallCommands(iosDir).map(({args, command}) => formatCommand(command, args, iosDir)),
+        formatCommand('xcodebuild', xcodebuildArgs(appName, target), iosDir),
+      ],
+      files: [path.join(iosDir, derivedDataPath(target.sdk), 'Build', 'Products', `debug-${target.sdk}`, `${appName}.app`)],
+      notes: [
+        `Copies the bundles built by build-app into ios/${appName}/Resources.`,
+        'pod install is skipped when the Podfile and lock files are unchanged.',
+      ],
+    };
+  }
+
+  // The SDK and destination of the build, the selected simulator unless the action was given a target
+  private buildTarget(device?: Device): Required<iOSBuildTarget> {
+    if (this.target) {
+      return {destination: this.target.destination ?? defaultDestination(this.target.sdk), sdk: this.target.sdk};
+    }
+
+    if (!device) {
+      throw new Error('No device selected, run prepare-device before build-ios or build for an SDK with `lepo build ios`.');
+    }
 
-    const appPath = path.join(context.projectRoot, 'ios', 'out', 'app', 'simulator', 'Build', 'Products', `${buildType}-iphonesimulator`, `${context.appName}.app`);
-    return { crucialOutputPaths: [appPath], outputPaths: [appPath], result: undefined };
+    return {destination: `platform=iOS Simulator,name=${device.name}`, sdk: 'iphonesimulator'};
   }
 }
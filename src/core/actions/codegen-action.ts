@@ -1,9 +1,10 @@
-import {spawn} from 'node:child_process';
 import fs from 'node:fs';
 import {platform} from 'node:os';
 import path from 'node:path';
 
-import {Action, ActionContext, ActionResult} from './action.js';
+import {formatCommand} from '../../utils/common.js';
+import {runProcess} from '../../utils/process-runner.js';
+import {Action, ActionContext, ActionPlan, ActionResult} from './action.js';
 
 const CODEGEN_PACKAGE = '@lynx-js/autolink-codegen';
 const CODEGEN_BINARY = 'lynx-autolink-codegen';
@@ -40,6 +41,16 @@ export class CodegenAction implements Action {
     };
   }
 
+  plan(context: ActionContext): ActionPlan {
+    const {projectRoot} = context;
+    const codegenBin = this.resolveLocalCodegenBinary(projectRoot);
+    return {
+      commands: [formatCommand(codegenBin ?? CODEGEN_BINARY, [], projectRoot)],
+      files: [path.join(projectRoot, 'generated')],
+      notes: codegenBin ? [] : [`${CODEGEN_BINARY} is not installed, the action would fail. Install ${CODEGEN_PACKAGE}@${CODEGEN_VERSION} first.`],
+    };
+  }
+
   private resolveLocalCodegenBinary(projectRoot: string): null | string {
     const executable = platform() === 'win32' ? `${CODEGEN_BINARY}.cmd` : CODEGEN_BINARY;
     const codegenBin = path.join(projectRoot, 'node_modules', '.bin', executable);
@@ -47,30 +58,6 @@ export class CodegenAction implements Action {
   }
 
   private async runCodegen(command: string, cwd: string, context: ActionContext): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const child = spawn(command, [], {
-        cwd,
-        shell: platform() === 'win32',
-        stdio: 'pipe',
-      });
-
-      child.stdout?.on('data', (data) => {
-        context.logger.info(data.toString().trim());
-      });
-
-      child.stderr?.on('data', (data) => {
-        context.logger.warn(data.toString().trim());
-      });
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`${CODEGEN_BINARY} exited with code ${code}`));
-        }
-      });
-
-      child.on('error', (error) => reject(error));
-    });
+    await runProcess(command, {cwd, logger: context.logger, shell: platform() === 'win32'});
   }
 }
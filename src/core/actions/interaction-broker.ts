@@ -0,0 +1,80 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {projectCacheDir} from '../../cache.js';
+import {actionScope, Reporter} from './reporter.js';
+
+export const RECORDED_ANSWERS_FILE = 'answers.json';
+
+/**
+ * The single way a running pipeline talks to the user. Prompts are shown one at a time, even when they
+ * come from actions running in parallel, and the reporter pauses its spinner while one is open.
+ * Every answer is recorded, so a later run can replay them with `--answers .lepo/answers.json --yes`.
+ */
+export class InteractionBroker {
+  private readonly answers: Record<string, unknown> = {};
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly reporter: Reporter) {}
+
+  /**
+   * Show a prompt once the ones asked before it are answered
+   * @param message The question shown to the user
+   * @param prompt Renders the prompt and resolves with the answer
+   * @returns The answer
+   */
+  async ask<T>(message: string, prompt: () => Promise<T>): Promise<T> {
+    // Captured up front, the prompt may run after the action that asked has moved on
+    const action = actionScope.getStore()?.action;
+    const turn = this.queue.then(async () => {
+      this.reporter.emit({action, message, type: 'prompt'});
+      try {
+        return await prompt();
+      } finally {
+        this.reporter.emit({action, type: 'prompt-finished'});
+      }
+    });
+    this.queue = turn.then(() => {}, () => {});
+    return turn;
+  }
+
+  /**
+   * Remember the answer to a prompt, whether the user gave it or it came from a flag, the answers file or a default
+   * @param key Key of the prompt
+   * @param answer The answer, in the form the answers file takes it
+   */
+  record(key: string, answer: unknown): void {
+    this.answers[key] = answer;
+  }
+
+  /**
+   * Write the recorded answers to <projectRoot>/.lepo/answers.json, if there are any
+   * @param projectRoot Root of the project
+   * @returns The path of the file, or undefined when nothing was asked
+   */
+  save(projectRoot: string): string | undefined {
+    if (Object.keys(this.answers).length === 0) return undefined;
+    const file = path.join(projectCacheDir(projectRoot), RECORDED_ANSWERS_FILE);
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, JSON.stringify(this.answers, null, 2), 'utf8');
+    return file;
+  }
+}
+
+let activeBroker: InteractionBroker | undefined;
+
+/**
+ * Route the prompts of `core/prompts` through a broker, or show them directly again with undefined
+ * @param broker The broker of the running pipeline
+ */
+export function setActiveInteractionBroker(broker: InteractionBroker | undefined): void {
+  activeBroker = broker;
+}
+
+/**
+ * The broker of the running pipeline, undefined outside of one (e.g. `lepo create app`)
+ * @returns The active broker
+ */
+export function activeInteractionBroker(): InteractionBroker | undefined {
+  return activeBroker;
+}
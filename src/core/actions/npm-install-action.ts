@@ -1,9 +1,10 @@
-import { spawn } from 'node:child_process';
 import fs from 'node:fs';
 import path from 'node:path';
 
 import { Logger } from '../../logger.js';
-import { Action, ActionContext, ActionResult } from './action.js';
+import {formatCommand} from '../../utils/common.js';
+import {runProcess} from '../../utils/process-runner.js';
+import { Action, ActionContext, ActionPlan, ActionResult } from './action.js';
 
 class NpmInstaller {
   private logger: Logger;
@@ -21,37 +22,13 @@ class NpmInstaller {
       throw new Error('package.json not found in project root.');
     }
 
-    return new Promise<void>((resolve, reject) => {
-      const child = spawn('npm', ['install'], {
-        cwd: projectRoot,
-        shell: true,
-        stdio: 'pipe',
-      });
-
-      child.stdout?.on('data', (data) => {
-        this.logger.info(data.toString().trim());
-      });
-      
-      child.stderr?.on('data', (data) => {
-        this.logger.info(data.toString().trim());
-      });
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          this.logger.info('npm install completed successfully.');
-          resolve();
-        } else {
-          reject(new Error(`npm install failed with exit code: ${code}`));
-        }
-      });
-
-      child.on('error', (err) => {
-        reject(new Error(`Failed to start npm install: ${err.message}`));
-      });
-    });
+    await runProcess('npm', {args: ['install'], cwd: projectRoot, logger: this.logger, shell: true, transientErrors: true});
+    this.logger.info('npm install completed successfully.');
   }
 }
 
+const LOCK_FILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
 export class NpmInstallAction implements Action {
   description = 'Installs npm dependencies for the project.';
   name = 'npm-install';
@@ -69,4 +46,16 @@ export class NpmInstallAction implements Action {
 
     return { result: undefined };
   }
+
+  inputFiles(context: ActionContext): string[] {
+    return ['package.json', ...LOCK_FILES].map(file => path.join(context.projectRoot, file));
+  }
+
+  outputFiles(context: ActionContext): string[] {
+    return [path.join(context.projectRoot, 'node_modules')];
+  }
+
+  plan(context: ActionContext): ActionPlan {
+    return {commands: [formatCommand('npm', ['install'], context.projectRoot)]};
+  }
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {projectCacheDir} from '../../cache.js';
+import {reviveDevice} from '../../utils/devices.js';
+import {ActionResult} from './action.js';
+
+export const PIPELINE_STATE_FILE = 'state.json';
+
+// Identifies a pipeline, checkpoints are only resumed by the same pipeline
+export interface PipelineSignature {
+  actions: string[]; // Action names in execution order
+  devMode: boolean;
+  environment: string;
+}
+
+interface Checkpoint {
+  outputs: string[]; // Files or directories that must still exist for the checkpoint to be resumed
+  result: ActionResult;
+}
+
+interface SavedPipelineState extends PipelineSignature {
+  checkpoints: Record<string, Checkpoint>;
+  failedAction?: string;
+  finished: boolean;
+  updatedAt: string;
+}
+
+/**
+ * Results of the actions the last pipeline run completed, stored in <projectRoot>/.lepo/state.json.
+ * `--resume` and `--from` read them to continue a run without repeating the actions that finished.
+ */
+export class PipelineState {
+  readonly file: string;
+  private state: SavedPipelineState | undefined;
+
+  constructor(private projectRoot: string) {
+    this.file = path.join(projectCacheDir(projectRoot), PIPELINE_STATE_FILE);
+  }
+
+  /**
+   * Start recording a new run, dropping the checkpoints of the previous run except the given ones
+   * @param signature The pipeline that runs
+   * @param keep Actions whose checkpoints the new run reuses
+   */
+  begin(signature: PipelineSignature, keep: string[] = []): void {
+    const previous = this.state?.checkpoints ?? {};
+    this.state = {
+      ...signature,
+      checkpoints: Object.fromEntries(keep.filter(name => previous[name]).map(name => [name, previous[name]])),
+      finished: false,
+      updatedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  /**
+   * Find the result of an action in the previous run, if its outputs still exist
+   * @param name Action name
+   * @returns The result, with artifacts that are live objects (devices) revived
+   */
+  checkpoint(name: string): ActionResult | undefined {
+    const entry = this.state?.checkpoints[name];
+    if (!entry || !entry.outputs.every(output => fs.existsSync(path.resolve(this.projectRoot, output)))) {
+      return undefined;
+    }
+
+    const {artifacts} = entry.result;
+    if (!artifacts?.device && !artifacts?.devices) return entry.result;
+    return {
+      ...entry.result,
+      artifacts: {
+        ...artifacts,
+        ...(artifacts.device && {device: reviveDevice(artifacts.device)}),
+        ...(artifacts.devices && {devices: artifacts.devices.map(device => reviveDevice(device))}),
+      },
+    };
+  }
+
+  /**
+   * Record that an action failed, so the next `--resume` continues there
+   * @param name Action name
+   */
+  fail(name: string): void {
+    if (!this.state) return;
+    this.state.failedAction ??= name;
+    this.save();
+  }
+
+  /**
+   * Record that every action of the run completed
+   */
+  finish(): void {
+    if (!this.state) return;
+    this.state.finished = true;
+    this.save();
+  }
+
+  /**
+   * Drop the checkpoint of an action whose changes were rolled back
+   * @param name Action name
+   */
+  forget(name: string): void {
+    if (!this.state?.checkpoints[name]) return;
+    delete this.state.checkpoints[name];
+    this.save();
+  }
+
+  /**
+   * Read the state of the previous run
+   * @returns The saved state, or undefined when there is none
+   */
+  load(): SavedPipelineState | undefined {
+    try {
+      this.state = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+    } catch {
+      this.state = undefined;
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Check whether the loaded state was recorded by the given pipeline
+   * @param signature The pipeline that runs
+   * @returns Whether the actions and the build mode are the same
+   */
+  matches(signature: PipelineSignature): boolean {
+    return this.state !== undefined
+      && this.state.actions.join(',') === signature.actions.join(',')
+      && this.state.devMode === signature.devMode
+      && this.state.environment === signature.environment;
+  }
+
+  /**
+   * Record the result of a completed action
+   * @param name Action name
+   * @param result The result, artifacts included
+   * @param outputs Files or directories that must still exist to resume the action
+   */
+  record(name: string, result: ActionResult, outputs: string[]): void {
+    if (!this.state) return;
+    this.state.checkpoints[name] = {
+      outputs: outputs.map(output => path.relative(this.projectRoot, path.resolve(this.projectRoot, output))),
+      result,
+    };
+    this.save();
+  }
+
+  private save(): void {
+    const state = this.state as SavedPipelineState;
+    state.updatedAt = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.file), {recursive: true});
+    fs.writeFileSync(this.file, JSON.stringify(state, null, 2), 'utf8');
+  }
+}
@@ -1,18 +1,38 @@
-import { isCancel, select} from '@clack/prompts';
+import { isCancel} from '@clack/prompts';
 
-import { deviceType, getDevice, platform } from '../../utils/devices.js';
-import {Action, ActionContext, ActionResult} from './action.js';
+import {formatCommand} from '../../utils/common.js';
+import { Device, deviceType, findAndroidDevice, findiOSSimulator, getDevice, listOnlineAndroidDevices, platform } from '../../utils/devices.js';
+import {promptSelect} from '../prompts.js';
+import {Action, ActionContext, ActionPlan, ActionResult} from './action.js';
 
 
-export class PrepareDeviceAction implements Action {
+export class PrepareDeviceAction implements Action<never, 'device' | 'devices'> {
     description = 'Prepare device.';
     name = 'prepare-device';
+    readonly outputs = ['device', 'devices'] as const;
+    private readonly allDevices: boolean;
+    private readonly device: string | undefined;
 
-    async execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
+    /**
+     * @param options Which device to prepare
+     * @param options.allDevices Optional: every online Android device and emulator, skips the prompts
+     * @param options.device Optional: id or name of a device, emulator, AVD or simulator from `lepo devices`, skips the prompts. Android takes several, separated by commas.
+     */
+    constructor(options: {allDevices?: boolean, device?: string} = {}) {
+        this.allDevices = options.allDevices ?? false;
+        this.device = options.device;
+    }
+
+    async execute(context: ActionContext): Promise<ActionResult<'device' | 'devices'>> {
         if(context.platform === undefined){
             throw new Error('You should supply build platform.');
         }
 
+        if (this.allDevices || this.device) {
+            const devices = this.allDevices ? await this.onlineDevices(context) : await this.findDevices(context, this.device!);
+            return {artifacts: {device: devices[0], devices}};
+        }
+
             const devices :deviceType[] = ['real-device', 'simulator']
             const options = []
             for(const d of devices){
@@ -22,17 +42,72 @@ export class PrepareDeviceAction implements Action {
                 })
             }
 
-            const result = await select({
+            const result = await promptSelect<deviceType>({
+                // Android runs on the lepo AVD unless asked otherwise, as CI runs do
+                initialValue: context.platform === 'android' ? 'simulator' : undefined,
+                key: 'device-type',
                 message: 'Pick device type.',
                 options,
             });
-            if(!isCancel(result)){
-                const device = await getDevice(context, result, context.platform as platform);
-                if(device !== null){
-                    context.device = device;
+            if(isCancel(result)){
+                throw new Error('No device type selected.');
+            }
+
+            const device = await getDevice(context, result, context.platform as platform);
+            if(device === null){
+                throw new Error(`No ${result} found for ${context.platform}.`);
+            }
+
+        return {artifacts: {device, devices: [device]}};
+    }
+
+    plan(context: ActionContext): ActionPlan {
+        return {
+            commands: context.platform === 'ios'
+                ? [formatCommand('xcrun', ['simctl', 'list', 'devices', '-j'])]
+                : [formatCommand('adb', ['devices', '-l']), formatCommand('emulator', ['-list-avds'])],
+            notes: [this.notes()],
+        };
+    }
+
+    // The devices --device names, the same device named twice is used once
+    private async findDevices(context: ActionContext, device: string): Promise<Device[]> {
+        const names = device.split(',').map(name => name.trim()).filter(Boolean);
+        const devices: Device[] = [];
+        switch (context.platform) {
+            case 'android': {
+                for (const name of names) {
+                    const found = await findAndroidDevice(name);
+                    if (!devices.some(other => other.name === found.name && other.udid === found.udid)) devices.push(found);
                 }
+
+                return devices;
             }
 
-        return {outputPaths: previousResult?.outputPaths, result: undefined};
+            case 'ios': {
+                if (names.length > 1) {
+                    throw new Error('--device takes one iOS simulator, running on several devices at once is only supported on Android.');
+                }
+
+                return [await findiOSSimulator(names[0])];
+            }
+
+            default: {
+                throw new Error(`--device picks an Android device or iOS simulator, ${context.platform} apps do not run on one.`);
+            }
+        }
+    }
+
+    private notes(): string {
+        if (this.allDevices) return 'Runs on every Android device and emulator `lepo devices` lists as booted';
+        return this.device ? `Runs on ${this.device} as listed by \`lepo devices\`` : 'Asks which device type and device to use';
+    }
+
+    private async onlineDevices(context: ActionContext): Promise<Device[]> {
+        if (context.platform !== 'android') {
+            throw new Error('--all-devices is only supported on Android.');
+        }
+
+        return listOnlineAndroidDevices();
     }
 }
@@ -2,20 +2,23 @@ import path from "node:path";
 
 import {platformProviders} from '../../template-context-provider/platform-providers.js';
 import {TemplateContextProvider} from '../../template-context-provider/template-context-provider.js';
-import {readJSON, readPackageJson} from '../../utils/common.js';
+import {readPackageJson} from '../../utils/common.js';
 import {VariablesMap} from "../../utils/file-templater.js";
-import {APP_CONFIG_FILE} from "../config.js";
+import {APP_CONFIG_FILE, loadAppPlatformConfig} from "../config.js";
 import {ProjectBuilder} from '../project-builder/project-builder.js';
-import {Action, ActionContext, ActionResult} from './action.js';
+import {Action, ActionContext, ActionPlan, ActionResult} from './action.js';
 
 /**
  * Platform project preparer class
  */
 class PlatformProjectPreparer {
+    private builder: ProjectBuilder | undefined;
+
     constructor(
         private targetDir: string,
         private platformName: string,
         private packageName: string,
+        private projectRoot: string,
     ) {}
 
     async execute(provider: TemplateContextProvider): Promise<VariablesMap> {
@@ -26,28 +29,35 @@ class PlatformProjectPreparer {
         const variables = await provider.collectAppTemplateVariables(this.packageName);
 
         // Use ProjectBuilder to load and execute template
-        const builder = new ProjectBuilder({
+        this.builder = new ProjectBuilder({
             packageName: this.packageName,
+            projectRoot: this.projectRoot,
             targetDir: this.targetDir,
         });
 
 
         const templatePath = await provider.getTemplate()
-        await builder.loadTemplate(templatePath, {
+        await this.builder.loadTemplate(templatePath, {
             variables
         })
 
-        await builder.build();
+        await this.builder.build();
         return variables;
     }
+
+    rollback(): void {
+        this.builder?.rollback();
+    }
 }
 
 /**
  * Generic platform project preparation action
  */
-export class PreparePlatformAppAction implements Action {
+export class PreparePlatformAppAction implements Action<never, 'appName' | 'platformProject'> {
     description?: string;
     name: string;
+    readonly outputs = ['appName', 'platformProject'] as const;
+    private preparer: PlatformProjectPreparer | undefined;
 
     constructor(
         private platformName: string,
@@ -61,30 +71,79 @@ export class PreparePlatformAppAction implements Action {
         this.description = `Prepare ${platformName} project`;
     }
 
-    async execute(context: ActionContext): Promise<ActionResult> {
+    async execute(context: ActionContext): Promise<ActionResult<'appName' | 'platformProject'>> {
         try {
             // Load package.json if it exists
             const packageJson = await readPackageJson(context.projectRoot).catch(() => null);
             const provider = platformProviders[this.platformName];
-            const {platforms} = await readJSON(path.resolve(context.projectRoot, APP_CONFIG_FILE));
+            const platformDir = await this.getPlatformDir(context);
 
-            const preparer = new PlatformProjectPreparer(
-                path.resolve(context.projectRoot, platforms[this.platformName].platformDir),
+            this.preparer = new PlatformProjectPreparer(
+                platformDir,
                 this.platformName,
                 packageJson?.name,
+                context.projectRoot,
             );
 
-            const variables = await preparer.execute(provider);
-            context.appName = variables.appName as string;
+            const variables = await this.preparer.execute(provider);
 
             return {
-                outputPaths: [context.projectRoot],
-                result: {
-                    appName: variables.AppName,
+                artifacts: {
+                    appName: variables.appName as string,
+                    platformProject: platformDir,
                 },
+                outputPaths: [platformDir],
             };
         } catch (error) {
             throw new Error(`Failed to prepare ${this.platformName} project: ${String(error)}`);
         }
     }
+
+    async inputFiles(context: ActionContext): Promise<string[]> {
+        const provider = platformProviders[this.platformName];
+        return [
+            path.resolve(context.projectRoot, APP_CONFIG_FILE),
+            path.resolve(context.projectRoot, 'package.json'),
+            await provider.getTemplate(),
+        ];
+    }
+
+    async outputFiles(context: ActionContext): Promise<string[]> {
+        return [await this.getPlatformDir(context)];
+    }
+
+    async plan(context: ActionContext): Promise<ActionPlan> {
+        const provider = platformProviders[this.platformName];
+        const environmentPlan = await provider.planEnvironment?.() ?? {};
+
+        // Template variables are prompted for, so the project files are listed with unresolved placeholders
+        const builder = new ProjectBuilder({targetDir: await this.getPlatformDir(context)});
+        await builder.loadTemplate(await provider.getTemplate());
+        const templatePlan = await builder.plan();
+
+        return {
+            commands: [...environmentPlan.commands ?? [], ...templatePlan.commands ?? []],
+            files: templatePlan.files,
+            notes: [
+                ...environmentPlan.notes ?? [],
+                `Asks for the ${this.platformName} template variables, file names are shown unresolved`,
+                ...templatePlan.notes ?? [],
+            ],
+        };
+    }
+
+    async restore(): Promise<void> {
+        // The project is already generated, but later actions still rely on the prepared environment
+        await platformProviders[this.platformName].checkAndPrepareEnvironment();
+    }
+
+    rollback(): void {
+        // Removes the generated platform project, or restores the files it overwrote
+        this.preparer?.rollback();
+    }
+
+    private async getPlatformDir(context: ActionContext): Promise<string> {
+        const {platformDir} = loadAppPlatformConfig(context.projectRoot, this.platformName);
+        return path.resolve(context.projectRoot, platformDir);
+    }
 }
@@ -0,0 +1,126 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {performance} from 'node:perf_hooks';
+
+import {actionScope} from './reporter.js';
+
+export type SpanCategory = 'action' | 'pipeline' | 'process' | 'step';
+
+// A complete event of the Chrome trace event format, times in microseconds
+interface TraceEvent {
+  args?: Record<string, unknown>;
+  cat: SpanCategory;
+  dur: number;
+  name: string;
+  ph: 'X';
+  pid: number;
+  tid: number;
+  ts: number;
+}
+
+// A finished span, as listed in the timing summary
+export interface ProfileSpan {
+  category: SpanCategory;
+  durationMs: number;
+  lane: string; // The action the span belongs to, or `pipeline`
+  name: string;
+  startMs: number; // Offset from the start of the profile
+}
+
+export interface Span {
+  end(args?: Record<string, unknown>): void;
+}
+
+const NOOP_SPAN: Span = {end() {}};
+
+/**
+ * Records nested spans of a pipeline run and writes them as a Chrome trace, which chrome://tracing
+ * and https://ui.perfetto.dev can open. Every action gets its own lane, spans started while an
+ * action runs (child processes, Gradle tasks, emulator boot) land in the lane of that action.
+ */
+export class Profiler {
+  private readonly events: TraceEvent[] = [];
+  private readonly lanes = new Map<string, number>();
+  private readonly origin = performance.now();
+
+  /**
+   * List the finished spans in the order they started
+   * @returns The spans, outer spans before the spans they contain
+   */
+  spans(): ProfileSpan[] {
+    const laneNames = new Map([...this.lanes].map(([name, id]) => [id, name]));
+    return [...this.events]
+      .sort((a, b) => a.ts - b.ts || b.dur - a.dur)
+      .map(event => ({
+        category: event.cat,
+        durationMs: event.dur / 1000,
+        lane: laneNames.get(event.tid) as string,
+        name: event.name,
+        startMs: event.ts / 1000,
+      }));
+  }
+
+  /**
+   * Start a span
+   * @param name Name shown in the trace
+   * @param category Kind of work the span measures
+   * @param lane Lane of the span, defaults to the running action
+   * @returns The span, end it once the work is done
+   */
+  start(name: string, category: SpanCategory, lane: string = actionScope.getStore()?.action ?? 'pipeline'): Span {
+    const startedAt = performance.now();
+    const tid = this.laneId(lane);
+    let ended = false;
+    return {
+      end: (args?: Record<string, unknown>) => {
+        if (ended) return;
+        ended = true;
+        this.events.push({
+          args,
+          cat: category,
+          dur: Math.round((performance.now() - startedAt) * 1000),
+          name,
+          ph: 'X',
+          pid: process.pid,
+          tid,
+          ts: Math.round((startedAt - this.origin) * 1000),
+        });
+      },
+    };
+  }
+
+  /**
+   * Write the trace event JSON file
+   * @param file Path of the file, parent directories are created
+   */
+  write(file: string): void {
+    const laneNames = [...this.lanes].map(([name, tid]) => ({args: {name}, name: 'thread_name', ph: 'M', pid: process.pid, tid}));
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, JSON.stringify({displayTimeUnit: 'ms', traceEvents: [...laneNames, ...this.events]}));
+  }
+
+  private laneId(lane: string): number {
+    if (!this.lanes.has(lane)) this.lanes.set(lane, this.lanes.size);
+    return this.lanes.get(lane) as number;
+  }
+}
+
+let activeProfiler: Profiler | undefined;
+
+/**
+ * Make a profiler receive the spans started with `startSpan`, or stop profiling with undefined
+ * @param profiler The profiler of the running pipeline
+ */
+export function setActiveProfiler(profiler: Profiler | undefined): void {
+  activeProfiler = profiler;
+}
+
+/**
+ * Start a span on the profiler of the running pipeline. Does nothing unless the run is profiled.
+ * @param name Name shown in the trace
+ * @param category Kind of work the span measures
+ * @returns The span, end it once the work is done
+ */
+export function startSpan(name: string, category: SpanCategory): Span {
+  return activeProfiler?.start(name, category) ?? NOOP_SPAN;
+}
@@ -0,0 +1,327 @@
+import {log, spinner} from "@clack/prompts";
+import {AsyncLocalStorage} from "node:async_hooks";
+import fs from "node:fs";
+import path from "node:path";
+
+import {Logger} from "../../logger.js";
+import {ActionContext, ActionPlan} from './action.js';
+import {ProfileSpan} from './profiler.js';
+
+export const REPORTER_FORMATS = ['pretty', 'ndjson'] as const;
+export type ReporterFormat = typeof REPORTER_FORMATS[number];
+
+// Events the ActionRunner emits while planning or running a pipeline
+export type ActionEvent =
+  | {action: string; attempt: number; attempts: number; delayMs: number; error: string; type: 'action-retrying'}
+  | {action: string; crucialOutputPaths: string[]; durationMs: number; outputPaths: string[]; resumed: boolean; retries: number; skipped: boolean; type: 'action-finished'}
+  | {action: string; dependsOn: string[]; description?: string; plan: ActionPlan; type: 'action-planned'}
+  | {action: string; description?: string; type: 'action-started'}
+  | {action: string; durationMs: number; error: string; type: 'action-failed'}
+  | {action: string; error?: string; type: 'action-rolled-back'}
+  | {action?: string; level: 'error' | 'info' | 'warn'; message: string; type: 'log'}
+  | {action?: string; message: string; type: 'prompt'}
+  | {action?: string; type: 'prompt-finished'}
+  | {actions: string[]; dryRun: boolean; projectRoot: string; type: 'pipeline-started'}
+  | {durationMs: number; error?: string; logFile: null | string; success: boolean; type: 'pipeline-finished'}
+  | {file: string; spans: ProfileSpan[]; type: 'profile-written'}
+  | {signal: NodeJS.Signals; type: 'interrupted'}
+  | {type: 'rollback-started'};
+
+export interface Reporter {
+  emit(event: ActionEvent): void;
+  // Spinner handed to actions as `context.spinner`
+  readonly spinner: NonNullable<ActionContext['spinner']>;
+}
+
+// Spans shorter than this are left out of the timing summary, the trace still has them
+const SUMMARY_MIN_SPAN_MS = 500;
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+/**
+ * Render the timing summary of a profiled run, spans indented below the spans that contain them
+ * @param spans Spans in start order
+ * @returns The table lines
+ */
+export function formatTimingSummary(spans: ProfileSpan[]): string[] {
+  const rows = spans
+    .filter(span => span.category !== 'pipeline')
+    .map((span, index, all) => {
+      // Spans are sorted by start, so the spans containing this one come before it
+      const depth = all.slice(0, index).filter(other => other.lane === span.lane
+        && other.startMs + other.durationMs >= span.startMs + span.durationMs).length;
+      return {depth, span};
+    })
+    .filter(({span}) => span.category === 'action' || span.durationMs >= SUMMARY_MIN_SPAN_MS)
+    .map(({depth, span}) => [`${'  '.repeat(depth)}${span.name}`, formatDuration(span.durationMs)]);
+
+  const total = spans.find(span => span.category === 'pipeline');
+  if (total) rows.push(['total', formatDuration(total.durationMs)]);
+  const width = Math.max(...rows.map(([name]) => name.length));
+  return rows.map(([name, duration]) => `${name.padEnd(width)}  ${duration.padStart(7)}`);
+}
+
+// The action the current code runs for, so log lines and prompts can be attributed to it
+export const actionScope = new AsyncLocalStorage<{action: string, reporter: Reporter}>();
+
+/**
+ * Wrap a logger so every line it receives is also emitted as a `log` event tagged with the running action
+ * @param base Logger that keeps writing the log file
+ * @param reporter Reporter receiving the events
+ * @returns The wrapping logger
+ */
+export function reportingLogger(base: Logger, reporter: Reporter): Logger {
+  const forward = (level: 'error' | 'info' | 'warn', write: (...args: unknown[]) => void) => (...args: unknown[]) => {
+    write(...args);
+    const action = actionScope.getStore()?.action;
+    for (const line of args.join(' ').split(/\r?\n/)) {
+      if (line.trim()) reporter.emit({action, level, message: line, type: 'log'});
+    }
+  };
+
+  return {
+    ...base,
+    error: forward('error', base.error.bind(base)),
+    info: forward('info', base.info.bind(base)),
+    message: forward('info', base.message.bind(base)),
+    warn: forward('warn', base.warn.bind(base)),
+  };
+}
+
+/**
+ * A single spinner shared by all running actions, so parallel actions do not fight over the terminal
+ */
+class RunnerSpinner {
+  private active = false;
+  private readonly spin = spinner();
+
+  message(msg?: string): void {
+    if (this.active) {
+      this.spin.message(msg);
+    } else {
+      this.start(msg);
+    }
+  }
+
+  start(msg?: string): void {
+    if (this.active) {
+      this.spin.message(msg);
+      return;
+    }
+
+    this.active = true;
+    this.spin.start(msg);
+  }
+
+  stop(msg?: string, code?: number): void {
+    if (!this.active) {
+      if (msg) log.message(msg);
+      return;
+    }
+
+    this.active = false;
+    this.spin.stop(msg, code);
+  }
+}
+
+/**
+ * Renders events for humans with clack spinners and log lines
+ */
+export class PrettyReporter implements Reporter {
+  readonly spinner = new RunnerSpinner();
+  // Events that arrived while a prompt was open, rendered once it is answered
+  private deferred: ActionEvent[] | undefined;
+  private dryRun = false;
+  private planned = 0;
+  private projectRoot = process.cwd();
+  private readonly running = new Set<string>();
+
+  emit(event: ActionEvent): void {
+    if (this.deferred && event.type !== 'prompt-finished') {
+      // Output of parallel actions would break the rendering of the open prompt
+      this.deferred.push(event);
+      return;
+    }
+
+    switch (event.type) {
+      case 'action-failed': {
+        this.running.delete(event.action);
+        this.spinner.stop(`Failed action: ${event.action} (took ${event.durationMs}ms)`, 2);
+        log.error(event.error);
+        this.resumeSpinner();
+        break;
+      }
+
+      case 'action-finished': {
+        this.running.delete(event.action);
+        const retries = event.retries === 1 ? '1 retry' : `${event.retries} retries`;
+        this.spinner.stop(event.skipped
+          ? `Skipped action: ${event.action} (${event.resumed ? 'completed in the previous run' : 'up to date'})`
+          : `Finished action: ${event.action} (took ${event.durationMs}ms${event.retries > 0 ? `, ${retries}` : ''})`);
+
+        if (event.crucialOutputPaths.length > 0) {
+          log.message("")
+          log.message('Output paths:');
+          for (const outputPath of event.crucialOutputPaths) log.message(`  - ${path.resolve(outputPath)}`);
+          log.message("")
+        }
+
+        this.resumeSpinner();
+        break;
+      }
+
+      case 'action-planned': {
+        this.printPlan(event);
+        break;
+      }
+
+      case 'action-retrying': {
+        this.spinner.stop(`Attempt ${event.attempt}/${event.attempts} of action ${event.action} failed: ${event.error}`, 1);
+        log.message(`Retrying in ${Math.round(event.delayMs / 1000)}s...`);
+        this.resumeSpinner();
+        break;
+      }
+
+      case 'action-rolled-back': {
+        if (event.error) {
+          log.warn(`Failed to roll back action ${event.action}: ${event.error}`);
+        } else {
+          log.message(`Rolled back action: ${event.action}`);
+        }
+
+        break;
+      }
+
+      case 'action-started': {
+        this.running.add(event.action);
+        this.spinner.message(this.runningMessage());
+        break;
+      }
+
+      case 'interrupted': {
+        this.spinner.stop(`Interrupted by ${event.signal}, stopping running processes and rolling back. Press Ctrl+C again to exit immediately.`, 1);
+        break;
+      }
+
+      case 'log': {
+        // Log lines already went to the log file, and to the terminal where the logger chose to
+        break;
+      }
+
+      case 'pipeline-finished': {
+        if (event.success) {
+          if (!this.dryRun) log.success('All actions completed.');
+        } else {
+          if (event.logFile !== null) {
+            log.message(`You can find the details at file://${path.resolve(event.logFile)}`);
+          }
+
+          log.message("");
+        }
+
+        break;
+      }
+
+      case 'pipeline-started': {
+        this.dryRun = event.dryRun;
+        this.projectRoot = event.projectRoot;
+        if (event.dryRun) log.step('Dry run, nothing will be changed.');
+        break;
+      }
+
+      case 'profile-written': {
+        log.message([
+          'Timing summary:',
+          ...formatTimingSummary(event.spans).map(line => `  ${line}`),
+          `Trace written to ${event.file}, open it in https://ui.perfetto.dev or chrome://tracing`,
+        ].join('\n'));
+        break;
+      }
+
+      case 'prompt': {
+        // The prompt renders itself, below the spinner's last message
+        if (this.running.size > 0) this.spinner.stop(`Waiting for input${event.action ? ` (${event.action})` : ''}...`);
+        this.deferred = [];
+        break;
+      }
+
+      case 'prompt-finished': {
+        const deferred = this.deferred ?? [];
+        this.deferred = undefined;
+        for (const deferredEvent of deferred) this.emit(deferredEvent);
+        this.resumeSpinner();
+        break;
+      }
+
+      case 'rollback-started': {
+        log.step('Rolling back changes...');
+        break;
+      }
+    }
+  }
+
+  private printPlan(event: Extract<ActionEvent, {type: 'action-planned'}>): void {
+    const {plan} = event;
+    this.planned++;
+    const lines = [`${this.planned}. ${event.action}${event.description ? ` - ${event.description}` : ''}`];
+    if (event.dependsOn.length > 0) lines.push(`   depends on: ${event.dependsOn.join(', ')}`);
+    for (const command of plan.commands ?? []) lines.push(`   $ ${command}`);
+    for (const file of plan.files ?? []) {
+      const relativePath = path.relative(this.projectRoot, file);
+      const shownPath = relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath) ? relativePath : file;
+      lines.push(`   ${fs.existsSync(file) ? 'overwrite' : 'create'} ${shownPath}`);
+    }
+
+    for (const note of plan.notes ?? []) lines.push(`   note: ${note}`);
+    log.message(lines.join('\n'));
+  }
+
+  private resumeSpinner(): void {
+    if (this.running.size > 0) this.spinner.start(this.runningMessage());
+  }
+
+  private runningMessage(): string {
+    return `Run action: ${[...this.running].join(', ')}`;
+  }
+}
+
+let eventStream: ((line: string) => void) | undefined;
+
+/**
+ * Writes one JSON object per line to stdout. Everything else that would go to stdout, like clack
+ * output and prompts, is moved to stderr so the stream stays parseable.
+ */
+export class NdjsonReporter implements Reporter {
+  readonly spinner = {
+    message() {},
+    start() {},
+    stop() {},
+  };
+
+  constructor() {
+    if (!eventStream) {
+      const stdoutWrite = process.stdout.write.bind(process.stdout);
+      process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+      eventStream = line => stdoutWrite(`${line}\n`);
+    }
+  }
+
+  emit(event: ActionEvent): void {
+    eventStream?.(JSON.stringify({time: new Date().toISOString(), ...event}));
+  }
+}
+
+/**
+ * Create the reporter selected on the command line
+ * @param flags Parsed `--json` and `--reporter` flags
+ * @param flags.json Shorthand for `--reporter=ndjson`
+ * @param flags.reporter Reporter format
+ * @returns The reporter to put on the action context
+ */
+export function createReporter(flags: {json?: boolean; reporter?: string}): Reporter {
+  return flags.json || flags.reporter === 'ndjson' ? new NdjsonReporter() : new PrettyReporter();
+}
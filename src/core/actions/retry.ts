@@ -0,0 +1,101 @@
+import {setTimeout as sleep} from 'node:timers/promises';
+
+/**
+ * An error that is likely to go away when the same step is tried again, e.g. a dropped connection
+ * or a device that has not finished booting
+ */
+export class TransientError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TransientError';
+  }
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+// How often and how patiently a failing step is retried
+export interface RetryPolicy {
+  attempts: number; // Total number of attempts, including the first one
+  backoffFactor?: number; // Optional: multiplier applied to the delay after every retry, defaults to 2
+  initialDelayMs?: number; // Optional: delay before the first retry, defaults to 1000
+  maxDelayMs?: number; // Optional: upper bound of a single delay, defaults to 30000
+  retryOn?: ErrorClass[]; // Optional: error classes worth retrying, defaults to TransientError
+}
+
+export interface RetryAttempt {
+  attempt: number; // The attempt that failed, starting at 1
+  attempts: number;
+  delayMs: number; // Delay before the next attempt
+  error: unknown;
+}
+
+// Output of tools that hit the network or a device, hinting that a failure is not the project's fault
+const TRANSIENT_OUTPUT_PATTERNS = [
+  /could not (resolve|download|get|head)\b/i,
+  /connection (reset|refused|timed out)/i,
+  /read timed out/i,
+  /socket hang up/i,
+  /\b(EAI_AGAIN|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT)\b/,
+  /device (offline|not found|still authorizing)/i,
+  /can't find service: package/i,
+];
+
+/**
+ * Guess from the output of a failed command whether trying again could help
+ * @param output Captured stdout and stderr of the command
+ * @returns Whether the output mentions a network or device hiccup
+ */
+export function isTransientOutput(output: string): boolean {
+  return TRANSIENT_OUTPUT_PATTERNS.some(pattern => pattern.test(output));
+}
+
+/**
+ * Compute the delay before a retry
+ * @param policy Retry policy
+ * @param retry Number of the retry, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  const {backoffFactor = 2, initialDelayMs = 1000, maxDelayMs = 30_000} = policy;
+  return Math.min(initialDelayMs * (backoffFactor ** (retry - 1)), maxDelayMs);
+}
+
+/**
+ * Check whether a policy allows retrying an error
+ * @param policy Retry policy
+ * @param error Error thrown by the failed attempt
+ * @returns Whether the error is an instance of one of the retried error classes
+ */
+export function isRetryable(policy: RetryPolicy, error: unknown): boolean {
+  return (policy.retryOn ?? [TransientError]).some(errorClass => error instanceof errorClass);
+}
+
+/**
+ * Run a task until it succeeds, its error is not retryable or the policy runs out of attempts
+ * @param policy Retry policy
+ * @param task Task to run, receives the number of the attempt starting at 1
+ * @param onRetry Called after a failed attempt, before waiting for the next one
+ * @param signal Stops retrying, including a pending delay, when aborted
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  policy: RetryPolicy,
+  task: (attempt: number) => Promise<T>,
+  onRetry?: (retry: RetryAttempt) => Promise<void> | void,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= policy.attempts || signal?.aborted || !isRetryable(policy, error)) {
+        throw error;
+      }
+
+      const delayMs = retryDelay(policy, attempt);
+      await onRetry?.({attempt, attempts: policy.attempts, delayMs, error});
+      await sleep(delayMs, undefined, {signal});
+    }
+  }
+}
@@ -1,19 +1,31 @@
-import {confirm, isCancel} from "@clack/prompts";
-import {execSync, spawn, SpawnOptions} from 'node:child_process';
+import {isCancel} from "@clack/prompts";
+import {execSync} from 'node:child_process';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 
 import {Logger} from "../../logger.js";
 import {AndroidEnvInfo, AndroidEnvUtils, getJavaVersion} from '../../utils/android-env-utils.js'; // Added import
-import {Action, ActionContext, ActionResult} from './action.js';
+import {untrackChildProcess} from '../../utils/child-processes.js';
+import {formatCommand} from '../../utils/common.js';
+import {AndroidDevice, DEFAULT_AVD_NAME, Device, listAndroidDevices} from '../../utils/devices.js';
+import {ProcessError, runProcess, startProcess} from '../../utils/process-runner.js';
+import {LaunchedApp} from '../device-logs.js';
+import {promptConfirm} from '../prompts.js';
+import {Action, ActionContext, ActionPlan, ActionResult, Artifacts, DependencyResults} from './action.js';
+import {startSpan} from './profiler.js';
+import {RetryAttempt, RetryPolicy, TransientError, withRetry} from './retry.js';
 
-const DEFAULT_AVD_NAME = 'lepo_avd';
 const TARGET_SYSTEM_IMAGE_API_LEVEL = 36; // Example API level, make configurable if needed
 const TARGET_SYSTEM_IMAGE_TAG = 'google_apis_playstore'; // Or 'default', 'google_apis'
 const DEFAULT_DEVICE_DEFINITION = 'pixel_6'; // A common device definition
-const ADB_MAX_CONNECTION_RETRIES = 60; // Max retries to connect to emulator (e.g., 60 * 2s = 2 minute)
-const ADB_RETRY_DELAY_MS = 2000;
+// Polling adb while the emulator starts, every error means "not yet" (about 2 minutes)
+const EMULATOR_CONNECT_POLICY: RetryPolicy = {attempts: 30, backoffFactor: 1.5, initialDelayMs: 1000, maxDelayMs: 5000, retryOn: [Error]};
+// Booting takes longer than connecting (about 4 minutes)
+const EMULATOR_BOOT_POLICY: RetryPolicy = {...EMULATOR_CONNECT_POLICY, attempts: 55};
+const EMULATOR_EXIT_POLICY: RetryPolicy = {...EMULATOR_CONNECT_POLICY, retryOn: [TransientError]};
+const ADB_INSTALL_POLICY: RetryPolicy = {attempts: 3, initialDelayMs: 2000};
+const SDK_INSTALL_POLICY: RetryPolicy = {attempts: 3, initialDelayMs: 5000};
 
 function getHostAbi(): string {
     const arch = os.arch();
@@ -30,11 +42,28 @@ function getHostAbi(): string {
     return 'x86_64';
 }
 
+export function getTargetSystemImageIdentifier(): string {
+    const abi = getHostAbi();
+    return `system-images;android-${TARGET_SYSTEM_IMAGE_API_LEVEL};${TARGET_SYSTEM_IMAGE_TAG};${abi}`;
+}
+
+function avdCreateArgs(avdName: string, systemImageId: string, device: string): string[] {
+    return ['create', 'avd', '--force', '--name', avdName, '--package', systemImageId, '--device', device, '--abi', systemImageId.split(';').pop() || getHostAbi()];
+}
+
+// Common flags: -no-snapshot-load (clean start), -no-audio, -no-boot-anim, -gpu auto/swiftshader_indirect
+// -read-only can be useful for CI to prevent accidental state changes to the AVD system image itself.
+function emulatorArgs(avdName: string): string[] {
+    return [`@${avdName}`, '-no-snapshot', '-no-audio', '-no-boot-anim', '-gpu', 'swiftshader_indirect'];
+}
+
 class AndroidEmulatorManager {
+    // Aborted when the pipeline is interrupted, stops waiting for the emulator and retrying installs
+    public signal?: AbortSignal;
     private readonly androidSdkRoot: string;
     private readonly cmdlineToolsPath: string;
 
-    constructor(private logger: Logger, envInfo?: AndroidEnvInfo, private onInteractionBegin?: (() => Promise<void>), private onInteractionEnd?: () => Promise<void>) {
+    constructor(private logger: Logger, envInfo?: AndroidEnvInfo) {
         this.androidSdkRoot = envInfo?.androidHome || '';
         this.cmdlineToolsPath = envInfo?.cmdlineToolsPath || '';
         if (!this.androidSdkRoot) {
@@ -46,80 +75,72 @@ class AndroidEmulatorManager {
         }
     }
 
-    public async ensureAvdCreated(avdName: string, systemImageId: string, device: string): Promise<void> {
+    public async avdExists(avdName: string): Promise<boolean> {
         this.logger.info(`Checking for AVD: ${avdName}`);
-        const avdManagerPath = this.getToolPath('avdmanager');
         try {
-            const listAvdsOutput = await this.execCmd(avdManagerPath, ['list', 'avd']);
-            if (listAvdsOutput.includes(`Name: ${avdName}`)) {
-                this.logger.info('AVD already exists.');
-                return;
-            }
+            const listAvdsOutput = await this.execCmd(this.getToolPath('avdmanager'), ['list', 'avd']);
+            return listAvdsOutput.includes(`Name: ${avdName}`);
         } catch (error) {
-            this.logger.warn(`Failed to check for AVD: ${error}. Proceeding to AVD creation.`);
+            this.logger.warn(`Failed to check for AVD: ${error}. Assuming it does not exist.`);
+            return false;
+        }
+    }
+
+    public async deleteAvd(avdName: string): Promise<void> {
+        this.logger.info(`Deleting AVD: ${avdName}`);
+        await this.execCmd(this.getToolPath('avdmanager'), ['delete', 'avd', '--name', avdName]);
+    }
+
+    public async ensureAvdCreated(avdName: string, systemImageId: string, device: string): Promise<void> {
+        const avdManagerPath = this.getToolPath('avdmanager');
+        if (await this.avdExists(avdName)) {
+            this.logger.info('AVD already exists.');
+            return;
         }
 
         this.logger.info(`AVD not found. Creating AVD (ANDROID_SDK_ROOT: ${process.env.ANDROID_SDK_ROOT}, cwd: ${process.cwd()})...`);
         // avdmanager create avd prompts for custom hardware profile. Echo 'no' to use default.
         const command = avdManagerPath;
-        const args = ['create', 'avd', '--force', '--name', avdName, '--package', systemImageId, '--device', device, '--abi', systemImageId.split(';').pop() || getHostAbi()];
+        const args = avdCreateArgs(avdName, systemImageId, device);
 
         this.logger.info(`Executing: echo no | ${command} ${args.join(' ')}`);
-        const proc = spawn(command, args, {stdio: ['pipe', 'pipe', 'pipe']});
-        proc.stdin?.write('no\n'); // Answer 'no' to "Create a custom hardware profile?"
-        proc.stdin?.end();
-        
-        proc.stdout?.on('data', (data) => {
-            this.logger.info(data.toString().trim());
-        });
-        
-        proc.stderr?.on('data', (data) => {
-            this.logger.info(data.toString().trim());
-        });
-
-        await new Promise<void>((resolve, reject) => {
-            proc.on('close', async (code) => { // Added async here
-                if (code === 0) {
-                    this.logger.info('AVD created successfully.');
-                    // FIXME: This is a workaround for the issue that the created AVD's image.sysdir.1 path is incorrect.
-                    // Start of workaround for image.sysdir.1 path
-                    try {
-                        const avdConfigPath = path.join(os.homedir(), '.android', 'avd', `${avdName}.avd`, `config.ini`);
-                        this.logger.info(`Attempting to patch AVD config: ${avdConfigPath}`);
-                        if (fs.existsSync(avdConfigPath)) {
-                            let configContent = fs.readFileSync(avdConfigPath, 'utf8');
-                            const originalSysdir = configContent.match(/^image\.sysdir\.1=(.*)$/m);
-                            if (originalSysdir && originalSysdir[1].startsWith('android-sdk/')) {
-                                const correctedSysdir = originalSysdir[1].slice('android-sdk/'.length);
-                                configContent = configContent.replace(/^image\.sysdir\.1=.*$/m, `image.sysdir.1=${correctedSysdir}`);
-                                fs.writeFileSync(avdConfigPath, configContent, 'utf8');
-                                this.logger.info(`Successfully patched image.sysdir.1 in ${avdConfigPath}. New value: ${correctedSysdir}`);
-                            } else if (originalSysdir) {
-                                this.logger.info(`image.sysdir.1 in ${avdConfigPath} does not need patching: ${originalSysdir[1]}`);
-                            } else {
-                                this.logger.warn(`Could not find image.sysdir.1 in ${avdConfigPath}. Skipping patch.`);
-                            }
-                        } else {
-                            this.logger.warn(`AVD config file not found at ${avdConfigPath}. Skipping patch.`);
-                        }
-                    } catch (patchError: unknown) {
-                        this.logger.warn(`Error during AVD config patch for ${avdName}: ${patchError instanceof Error ? patchError.message : String(patchError)}. Proceeding without patch.`);
-                    }
+        try {
+            await runProcess(command, {args, input: 'no\n', logger: this.logger}); // Answer 'no' to "Create a custom hardware profile?"
+        } catch (error: unknown) {
+            throw new Error(`Failed to create AVD '${avdName}': ${error instanceof Error ? error.message : error}`, {cause: error});
+        }
 
-                    // End of workaround
-                    resolve();
+        this.logger.info('AVD created successfully.');
+        // FIXME: This is a workaround for the issue that the created AVD's image.sysdir.1 path is incorrect.
+        // Start of workaround for image.sysdir.1 path
+        try {
+            const avdConfigPath = path.join(os.homedir(), '.android', 'avd', `${avdName}.avd`, `config.ini`);
+            this.logger.info(`Attempting to patch AVD config: ${avdConfigPath}`);
+            if (fs.existsSync(avdConfigPath)) {
+                let configContent = fs.readFileSync(avdConfigPath, 'utf8');
+                const originalSysdir = configContent.match(/^image\.sysdir\.1=(.*)$/m);
+                if (originalSysdir && originalSysdir[1].startsWith('android-sdk/')) {
+                    const correctedSysdir = originalSysdir[1].slice('android-sdk/'.length);
+                    configContent = configContent.replace(/^image\.sysdir\.1=.*$/m, `image.sysdir.1=${correctedSysdir}`);
+                    fs.writeFileSync(avdConfigPath, configContent, 'utf8');
+                    this.logger.info(`Successfully patched image.sysdir.1 in ${avdConfigPath}. New value: ${correctedSysdir}`);
+                } else if (originalSysdir) {
+                    this.logger.info(`image.sysdir.1 in ${avdConfigPath} does not need patching: ${originalSysdir[1]}`);
                 } else {
-                    reject(new Error(`Failed to create AVD '${avdName}'. avdmanager exit code: ${code}`));
+                    this.logger.warn(`Could not find image.sysdir.1 in ${avdConfigPath}. Skipping patch.`);
                 }
-            });
-            proc.on('error', (err) => {
-                reject(new Error(`Failed to start avdmanager for AVD creation: ${err.message}`));
-            });
-        });
+            } else {
+                this.logger.warn(`AVD config file not found at ${avdConfigPath}. Skipping patch.`);
+            }
+        } catch (patchError: unknown) {
+            this.logger.warn(`Error during AVD config patch for ${avdName}: ${patchError instanceof Error ? patchError.message : String(patchError)}. Proceeding without patch.`);
+        }
+
+        // End of workaround
     }
 
     public async ensureSystemImageInstalled(): Promise<string> {
-        const systemImageId = this.getTargetSystemImageIdentifier();
+        const systemImageId = getTargetSystemImageIdentifier();
         this.logger.info(`Checking for system image: ${systemImageId}`);
         const sdkManagerPath = this.getToolPath('sdkmanager');
         const sdkManagerCommonArgs = [`--sdk_root=${this.androidSdkRoot}`];
@@ -143,23 +164,10 @@ class AndroidEmulatorManager {
         this.logger.info(`Current Java version: ${javaVersion}`);
 
         try {
-            // sdkmanager uses 'yes' to auto-accept licenses
-            const process = spawn(sdkManagerPath, [...sdkManagerCommonArgs, `--install`, systemImageId], {stdio: ['pipe', 'pipe', 'pipe']});
-            process.stdin?.write('yes\n');
-            process.stdin?.end();
-            
-            process.stdout?.on('data', (data) => {
-                this.logger.info(data.toString().trim());
-            });
-            
-            process.stderr?.on('data', (data) => {
-                this.logger.info(data.toString().trim());
-            });
-
-            await new Promise<void>((resolve, reject) => {
-                process.on('close', code => code === 0 ? resolve() : reject(new Error(`sdkmanager failed to install ${systemImageId}, exit code: ${code}`)))
-                process.on('error', reject);
-            });
+            await withRetry(SDK_INSTALL_POLICY, async () => {
+                // sdkmanager uses 'yes' to auto-accept licenses
+                await runProcess(sdkManagerPath, {args: [...sdkManagerCommonArgs, `--install`, systemImageId], input: 'yes\n', logger: this.logger, transientErrors: true});
+            }, this.logRetry(`Installing ${systemImageId}`), this.signal);
             this.logger.info('System image installed successfully.');
             return systemImageId;
         } catch (error: unknown) {
@@ -196,61 +204,47 @@ class AndroidEmulatorManager {
         return null;
     }
 
-    public async installApk(emulatorId: string, apkPath: string): Promise<void> {
-        this.logger.info(`Installing APK ${apkPath} on ${emulatorId}...`);
-        if (!fs.existsSync(apkPath)) {
-            throw new Error(`APK file not found: ${apkPath}`);
-        }
-
-        const adbPath = this.getToolPath('adb');
-        // Use -r to reinstall if already exists, -d to allow downgrade (optional)
-        await this.execCmd(adbPath, ['-s', emulatorId, 'install', '-r', apkPath], undefined, true);
-        this.logger.info('APK installed successfully.');
-    }
-
-    public async launchApp(emulatorId: string, packageName: string, activityName: string): Promise<void> {
-        this.logger.info(`Launching app ${packageName}/${activityName} on ${emulatorId}...`);
-        const adbPath = this.getToolPath('adb');
-        await this.execCmd(adbPath, ['-s', emulatorId, 'shell', 'am', 'start', '-n', `${packageName}/${activityName}`], undefined, true);
-        this.logger.info('App launch command sent.');
-    }
-
-    public async startEmulator(avdName: string): Promise<string> {
+    /**
+     * Start the emulator of an AVD, or reuse it when it runs already
+     * @param avdName The AVD
+     * @param options Optional: what to do about the other emulators that run
+     * @param options.askToStop Ask whether to stop the other running emulators first, only sensible when the app runs on one device
+     * @param options.keep Serials of emulators that are never offered for stopping, e.g. those this run started
+     * @returns The serial of the emulator, and whether it was running already
+     */
+    public async startEmulator(avdName: string, options: {askToStop?: boolean, keep?: string[]} = {}): Promise<{emulatorId: string, reused: boolean}> {
+        const {askToStop = true, keep = []} = options;
         const adbPath = this.getToolPath('adb'); // Get adbPath early
 
-        const devicesOutput = await this.execCmd(adbPath, ['devices']);
-        const runningEmulators = devicesOutput.split('\n').slice(1)
-            .map(line => line.trim().split('\t')[0])
-            .filter(id => id.startsWith('emulator-') && id.trim() !== '');
+        // Running emulators are known by the name of their AVD
+        const runningEmulators = (await listAndroidDevices()).filter(target => target.type === 'emulator');
+        const ownEmulator = runningEmulators.find(target => target.name === avdName && target.state === 'booted');
+        if (ownEmulator) {
+            this.logger.info(`The emulator of AVD '${avdName}' runs already as ${ownEmulator.id}, reusing it.`);
+            return {emulatorId: ownEmulator.id, reused: true};
+        }
 
-        if (runningEmulators.length > 0) {
-            this.logger.info(`Found running emulator(s): ${runningEmulators.join(', ')}`);
+        const otherEmulators = runningEmulators.map(target => target.id).filter(id => !keep.includes(id));
+        if (askToStop && otherEmulators.length > 0) {
+            this.logger.info(`Found running emulator(s): ${otherEmulators.join(', ')}`);
 
-            if (this.onInteractionBegin) {
-                await this.onInteractionBegin();
-            }
-
-            const stopExistingEmulator = await confirm({
-                message: `Emulator(s) [${runningEmulators.join(', ')}] are already running. Do you want to stop them and start the new AVD '${avdName}'?`,
+            const stopExistingEmulator = await promptConfirm({
+                initialValue: true,
+                key: 'stop-running-emulators',
+                message: `Emulator(s) [${otherEmulators.join(', ')}] are already running. Do you want to stop them and start the new AVD '${avdName}'?`,
             });
-            if (this.onInteractionEnd) {
-                await this.onInteractionEnd();
-            }
 
             if (isCancel(stopExistingEmulator)) {
                 throw new Error('User chose to cancel.');
             }
 
-            if (stopExistingEmulator) { // Check response.value
+            if (stopExistingEmulator) {
                 this.logger.info('User chose to stop existing emulator(s).');
-                for (const emuId of runningEmulators) {
-
+                for (const emuId of otherEmulators) {
                     await this.stopEmulator(emuId);
                 }
-                // Proceed to start new emulator (logic below)
             } else {
-                this.logger.info(`Reusing existing emulator(s) [${runningEmulators.join(', ')}] and starting AVD '${avdName}'.`);
-                return runningEmulators[0]; // Return the first running emulator ID
+                this.logger.info(`Keeping emulator(s) [${otherEmulators.join(', ')}] running and starting AVD '${avdName}' next to them.`);
             }
         }
 
@@ -266,71 +260,55 @@ class AndroidEmulatorManager {
             .filter(id => id.trim() !== ''));
 
         // Start emulator in background
-        // Common flags: -no-snapshot-load (clean start), -no-audio, -no-boot-anim, -gpu auto/swiftshader_indirect
-        // -read-only can be useful for CI to prevent accidental state changes to the AVD system image itself.
+        // The emulator leads its own process group, so stopping it also stops the qemu process it starts
+        const emulator = startProcess(emulatorPath, {args: emulatorArgs(avdName), detached: true});
+        const emulatorProcess = emulator.child;
+        // Only quoted when the emulator does not come up
         let emulatorOutput = '';
-        const emulatorProcess = spawn(emulatorPath, [`@${avdName}`, '-no-snapshot', '-no-audio', '-no-boot-anim', '-gpu', 'swiftshader_indirect'], {
-            detached: true,
-            stdio: ['ignore', 'pipe', 'pipe'], // Capture stdout and stderr
-        });
-
-        emulatorProcess.stdout?.on('data', (data) => {
-            const log = data.toString();
-            emulatorOutput += log;
-            // this.logger.debug(`Emulator stdout: ${log.trim()}`); // Optional: log in real-time if needed
-        });
-        emulatorProcess.stderr?.on('data', (data) => {
-            const log = data.toString();
-            emulatorOutput += log;
-            // this.logger.debug(`Emulator stderr: ${log.trim()}`); // Optional: log in real-time if needed
+        emulator.on('output', line => {
+            emulatorOutput += `${line}\n`;
         });
 
         let adbConnectedEmulatorId: null | string = null;
         let emulatorProcessExited = false;
         let emulatorExitCode: null | number = null;
 
-        const exitPromise = new Promise<void>((resolve) => {
-            emulatorProcess.on('exit', (code, signal) => {
+        const exitPromise = emulator.done.then(
+            ({exitCode}) => {
                 emulatorProcessExited = true;
-                emulatorExitCode = code;
-                this.logger.info(`Emulator process exited with code: ${code}, signal: ${signal}`);
-                resolve(); // Resolve the promise when the process exits
-            });
-            emulatorProcess.on('error', (err) => {
+                emulatorExitCode = exitCode;
+                this.logger.info(`Emulator process exited with code: ${exitCode}`);
+            },
+            (error: unknown) => {
                 emulatorProcessExited = true;
-                this.logger.error(`Emulator process error: ${err.message}`);
-                emulatorOutput += `Emulator process error: ${err.message}\n`;
-                resolve(); // Resolve on error as well, to not block indefinitely
-            });
-        });
+                emulatorExitCode = error instanceof ProcessError ? error.exitCode : null;
+                this.logger.error(`Emulator process error: ${error instanceof Error ? error.message : error}`);
+            },
+        );
 
         this.logger.info(`Emulator process for ${avdName} starting...`);
 
         // Wait for the new emulator to appear in adb devices OR for the process to exit
         this.logger.info('Waiting for emulator to connect via ADB or exit...');
-        for (let i = 0; i < ADB_MAX_CONNECTION_RETRIES; i++) {
-            if (emulatorProcessExited) {
-                // If process exited before ADB connection, it's a failure
-                break;
-            }
+        try {
+            adbConnectedEmulatorId = await withRetry(EMULATOR_CONNECT_POLICY, async () => {
+                if (emulatorProcessExited) {
+                    // If process exited before ADB connection, it's a failure
+                    return null;
+                }
 
-            await new Promise(resolve => {
-                setTimeout(resolve, ADB_RETRY_DELAY_MS)
-            });
-            try {
+                // Errors of adb itself are retried as well, while the emulator process is monitored
                 const devicesAfter = (await this.execCmd(adbPath, ['devices'])).split('\n').slice(1).filter(line => line.trim() !== '');
                 const newDevices = devicesAfter.filter(d => !devicesBefore.has(d));
-                if (newDevices.length > 0) {
-                    adbConnectedEmulatorId = newDevices[0].split('\t')[0];
-                    this.logger.info(`Emulator connected: ${adbConnectedEmulatorId}`);
-                    break; // Emulator connected
+                if (newDevices.length === 0) {
+                    throw new TransientError('Emulator is not connected yet.');
                 }
-            } catch (adbError: unknown) {
-                this.logger.warn(`Error checking ADB devices (attempt ${i + 1}): ${adbError}`);
-                // Continue retrying if ADB itself has issues, but monitor emulator process
-            }
 
-            this.logger.info(`Still waiting for emulator... (${i + 1}/${ADB_MAX_CONNECTION_RETRIES})`);
+                return newDevices[0].split('\t')[0];
+            }, this.logRetry('Waiting for emulator'), this.signal);
+            if (adbConnectedEmulatorId) this.logger.info(`Emulator connected: ${adbConnectedEmulatorId}`);
+        } catch (error: unknown) {
+            this.logger.warn(`Emulator did not connect via ADB: ${error}`);
         }
 
         // Wait for the exitPromise to resolve if it hasn't already (e.g. if ADB timed out first)
@@ -343,7 +321,9 @@ class AndroidEmulatorManager {
         }
 
         if (adbConnectedEmulatorId) {
-            // Completely detach the emulator process from parent
+            // Completely detach the emulator process from parent, from now on it is stopped through adb
+            untrackChildProcess(emulatorProcess);
+            emulator.removeAllListeners('output');
             emulatorProcess.unref(); // Allow parent process to exit independently
             emulatorProcess.disconnect?.(); // Disconnect IPC if exists
             
@@ -359,7 +339,7 @@ class AndroidEmulatorManager {
             emulatorProcess.stderr?.destroy();
             
             this.logger.info(`Emulator process for ${avdName} started successfully in background and connected as ${adbConnectedEmulatorId}.`);
-            return adbConnectedEmulatorId;
+            return {emulatorId: adbConnectedEmulatorId, reused: false};
         }
 
         // If we reach here, emulator failed to connect via ADB or exited prematurely
@@ -370,13 +350,9 @@ class AndroidEmulatorManager {
         }
 
         // Ensure the process is killed if it's still running but didn't connect
-        if (!emulatorProcess.killed && emulatorProcess.pid) {
-            try {
-                this.logger.info(`Attempting to kill unresponsive emulator process PID: ${emulatorProcess.pid}`);
-                process.kill(emulatorProcess.pid);
-            } catch (killError: unknown) {
-                this.logger.warn(`Failed to kill emulator process PID ${emulatorProcess.pid}: ${killError}`);
-            }
+        if (!emulatorProcessExited) {
+            this.logger.info(`Stopping unresponsive emulator process PID: ${emulatorProcess.pid}`);
+            emulator.stop();
         }
 
         throw new Error(errorMessage);
@@ -394,100 +370,56 @@ class AndroidEmulatorManager {
 
         // Wait for emulator to actually exit
         this.logger.info(`Waiting for emulator ${emulatorId} to exit...`);
-        for (let i = 0; i < ADB_MAX_CONNECTION_RETRIES; i++) {
-            try {
-                 
-                const devicesOutput = await this.execCmd(adbPath, ['devices']);
-                const devices = devicesOutput.split('\n').slice(1).filter(line => line.trim() !== '');
-                const isStillRunning = devices.some(line => line.includes(emulatorId));
-                
-                if (!isStillRunning) {
-                    this.logger.info(`Emulator ${emulatorId} has exited successfully.`);
+        try {
+            await withRetry(EMULATOR_EXIT_POLICY, async () => {
+                let devicesOutput: string;
+                try {
+                    devicesOutput = await this.execCmd(adbPath, ['devices']);
+                } catch (error) {
+                    // If adb devices fails, the emulator might have exited
+                    this.logger.info(`ADB devices check failed, emulator might have exited: ${error}`);
                     return;
                 }
-            } catch (error) {
-                // If adb devices fails, the emulator might have exited
-                this.logger.info(`ADB devices check failed, emulator might have exited: ${error}`);
-                return;
-            }
 
-            this.logger.info(`Still waiting for ${emulatorId} to exit... (${i + 1}/${ADB_MAX_CONNECTION_RETRIES})`);
-             
-            await new Promise(resolve => {
-                setTimeout(resolve, ADB_RETRY_DELAY_MS);
-            });
-        }
+                const devices = devicesOutput.split('\n').slice(1).filter(line => line.trim() !== '');
+                if (devices.some(line => line.includes(emulatorId))) {
+                    throw new TransientError(`Emulator ${emulatorId} is still running.`);
+                }
 
-        this.logger.warn(`Timeout waiting for emulator ${emulatorId} to exit. It may still be running.`);
+                this.logger.info(`Emulator ${emulatorId} has exited successfully.`);
+            }, this.logRetry(`Waiting for ${emulatorId} to exit`));
+        } catch {
+            this.logger.warn(`Timeout waiting for emulator ${emulatorId} to exit. It may still be running.`);
+        }
     }
 
     public async waitForDevice(emulatorId: string): Promise<void> {
         this.logger.info(`Waiting for emulator ${emulatorId} to fully boot...`);
         const adbPath = this.getToolPath('adb');
-        for (let i = 0; i < ADB_MAX_CONNECTION_RETRIES * 2; i++) { // Longer timeout for boot
-            try {
-                 
+        try {
+            // ADB might not be ready yet, or shell command fails, every error is retried
+            await withRetry(EMULATOR_BOOT_POLICY, async () => {
                 const bootCompleted = await this.execCmd(adbPath, ['-s', emulatorId, 'shell', 'getprop', 'sys.boot_completed']);
-                if (bootCompleted.trim() === '1') {
-                    // Additional check for package manager ready
-                     
-                    const pmReady = await this.execCmd(adbPath, ['-s', emulatorId, 'shell', 'getprop', 'dev.bootcomplete']);
-                    if (pmReady.trim() === '1') {
-                        this.logger.info(`Emulator ${emulatorId} booted successfully.`);
-                        return;
-                    }
+                // Additional check for package manager ready
+                const pmReady = bootCompleted.trim() === '1'
+                    && (await this.execCmd(adbPath, ['-s', emulatorId, 'shell', 'getprop', 'dev.bootcomplete'])).trim() === '1';
+                if (!pmReady) {
+                    throw new TransientError(`Emulator ${emulatorId} has not booted yet.`);
                 }
-            } catch (error) {
-                // ADB might not be ready yet, or shell command fails, continue retrying
-                this.logger.info(`Waiting for boot: ${error}`);
-            }
-
-            this.logger.info(`Still waiting for ${emulatorId} to boot... (${i + 1}/${ADB_MAX_CONNECTION_RETRIES * 2})`);
-             
-            await new Promise(resolve => {
-                setTimeout(resolve, ADB_RETRY_DELAY_MS)
-            });
+            }, this.logRetry(`Waiting for ${emulatorId} to boot`), this.signal);
+        } catch (error) {
+            this.signal?.throwIfAborted();
+            throw new Error(`Timeout waiting for emulator ${emulatorId} to boot.`, {cause: error});
         }
 
-        throw new Error(`Timeout waiting for emulator ${emulatorId} to boot.`);
+        this.logger.info(`Emulator ${emulatorId} booted successfully.`);
     }
 
-    private async execCmd(command: string, args: string[], options?: SpawnOptions, captureOutput: boolean = true): Promise<string> {
+    private async execCmd(command: string, args: string[]): Promise<string> {
         this.logger.info(`Executing: ${command} ${args.join(' ')}`);
-        return new Promise((resolve, reject) => {
-            const process = spawn(command, args, {stdio: captureOutput ? 'pipe' : 'inherit', ...options});
-            let output = '';
-            let errorOutput = '';
-
-            if (captureOutput && process.stdout) {
-                process.stdout.on('data', (data) => {
-                    output += data.toString();
-                });
-            }
-
-            if (captureOutput && process.stderr) {
-                process.stderr.on('data', (data) => {
-                    errorOutput += data.toString();
-                });
-            }
-
-            process.on('close', (code) => {
-                this.logger.info(`Command ${command} ${args.join(' ')} exited with code ${code}`);
-                if (code === 0) {
-                    resolve(output.trim());
-                } else {
-                    reject(new Error(`Command failed: ${command} ${args.join(' ')}\nExit code: ${code}\nStdout: ${output}\nStderr: ${errorOutput}`));
-                }
-            });
-            process.on('error', (err) => {
-                reject(new Error(`Failed to start command: ${command} ${args.join(' ')}\nError: ${err.message}`));
-            });
-        });
-    }
-
-    private getTargetSystemImageIdentifier(): string {
-        const abi = getHostAbi();
-        return `system-images;android-${TARGET_SYSTEM_IMAGE_API_LEVEL};${TARGET_SYSTEM_IMAGE_TAG};${abi}`;
+        // adb and sdkmanager fail now and then while a device or the network is not ready
+        const {stdout} = await runProcess(command, {args, signal: this.signal, transientErrors: true});
+        return stdout.trim();
     }
 
     private getToolPath(tool: 'aapt' | 'adb' | 'avdmanager' | 'emulator' | 'sdkmanager'): string {
@@ -578,66 +510,94 @@ class AndroidEmulatorManager {
 
         return toolPath;
     }
+
+    private logRetry(step: string): (retry: RetryAttempt) => void {
+        return ({attempt, attempts, delayMs, error}) => {
+            this.logger.info(`${step}: attempt ${attempt}/${attempts} failed, retrying in ${delayMs}ms. ${error}`);
+        };
+    }
 }
 
-export class RunAndroidEmulatorAction implements Action {
-    description = 'Downloads (if needed), creates, and starts an Android emulator, then installs and launches an APK.';
+// How the app got onto one device, `lepo run android` reports these when it runs on several
+export interface DeviceDeployment {
+    deviceId?: string; // Optional: serial of the device, missing when its emulator did not start
+    error?: string; // Optional: why the app was not installed or launched
+    launched: boolean;
+    name: string;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export class RunAndroidEmulatorAction implements Action<'apk' | 'devices', never> {
+    description = 'Installs and launches an APK on the picked devices, downloading, creating and starting an emulator first when an AVD was picked.';
+    readonly inputs = ['apk', 'devices'] as const;
     name = 'run-android-emulator';
+    // What this run created, so a rollback only removes that
+    private createdAvd: string | undefined;
+    private manager: AndroidEmulatorManager | undefined;
+    private startedEmulatorIds: string[] = [];
 
-    async execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
+    async execute(context: ActionContext, _previousResult: ActionResult | undefined, _dependencyResults: DependencyResults, {apk: apkPath, devices}: Pick<Artifacts, 'apk' | 'devices'>): Promise<ActionResult<never>> {
         const {logger,} = context;
         logger.info('Starting Android emulator action...');
-
-        let apkPath;
-        if (previousResult && previousResult?.outputPaths && previousResult.outputPaths.length > 0) {
-            apkPath = previousResult.outputPaths[0];
-            logger.info(`Using APK from previous action: ${apkPath}`);
-        } else {
-            throw new Error('APK path not provided in inputs or previous action result.');
-        }
-
-        if (!apkPath) {
-            throw new Error('APK path not provided in inputs or previous action result.');
-        }
+        logger.info(`Using APK: ${apkPath}`);
 
         if (!fs.existsSync(apkPath)) {
             throw new Error(`Specified APK path does not exist: ${apkPath}`);
         }
 
-        const avdName = DEFAULT_AVD_NAME;
-        // Note: System image API, tag, and device definition are currently hardcoded constants
-        // but could be exposed via inputs if more flexibility is needed.
-        // const systemImageApiLevel = inputs?.systemImageApiLevel || TARGET_SYSTEM_IMAGE_API_LEVEL;
-        // const systemImageTag = inputs?.systemImageTag || TARGET_SYSTEM_IMAGE_TAG;
-        const deviceDefinition = DEFAULT_DEVICE_DEFINITION;
-
         // Prepare environment before starting emulator tasks
         const envUtils = new AndroidEnvUtils(logger);
         const androidEnvInfo = await envUtils.checkAndPrepareEnvironment();
 
-        const manager = new AndroidEmulatorManager(logger, androidEnvInfo,
-            async () => {
-                context.spinner?.stop('Waiting for user to confirm...');
+        const manager = new AndroidEmulatorManager(logger, androidEnvInfo);
+        manager.signal = context.signal;
+        this.manager = manager;
+        this.createdAvd = undefined;
+        this.startedEmulatorIds = [];
+
+        try {
+            // AVDs start one after the other, starting an emulator may ask about the ones already running
+            const running = new Map<Device, Device>();
+            const failures = new Map<Device, string>();
+            for (const device of devices) {
+                try {
+                    running.set(device, await this.startDevice(context, manager, device, devices.length === 1));
+                } catch (error) {
+                    if (devices.length === 1) throw error;
+                    failures.set(device, errorMessage(error));
+                }
             }
-            ,
-            async () => {
-                context.spinner?.start(`Continue action: ${this.name}`);
+
+            const appInfo = running.size > 0 ? await manager.getPackageAndLaunchActivity(apkPath) : null;
+            // Every device gets the APK at the same time, one failing does not stop the others
+            const deployments = await Promise.all(devices.map(async (device): Promise<DeviceDeployment> => {
+                const runningDevice = running.get(device);
+                if (!runningDevice) return {error: failures.get(device), launched: false, name: device.name};
+                const deviceId = runningDevice.udid;
+                try {
+                    await this.deploy(context, manager, runningDevice, {apkPath, appInfo});
+                    return {deviceId, launched: appInfo !== null, name: device.name};
+                } catch (error) {
+                    if (devices.length === 1) throw error;
+                    return {deviceId, error: errorMessage(error), launched: false, name: device.name};
+                }
+            }));
+
+            for (const {deviceId, error, launched, name} of deployments) {
+                if (error) logger.error(`Running on ${name} failed: ${error}`);
+                else logger.info(`${launched ? 'Launched' : 'Installed'} the app on ${name} (${deviceId}).`);
             }
-        );
-        let emulatorId: string | undefined;
 
-        try {
-            const systemImageId = await manager.ensureSystemImageInstalled();
-            await manager.ensureAvdCreated(avdName, systemImageId, deviceDefinition);
-            emulatorId = await manager.startEmulator(avdName);
-            await manager.waitForDevice(emulatorId);
-            await manager.installApk(emulatorId, apkPath);
-
-            const appInfo = await manager.getPackageAndLaunchActivity(apkPath);
-            if (appInfo) {
-                await manager.launchApp(emulatorId, appInfo.packageName, appInfo.launchActivity);
-                logger.info(`App ${appInfo.packageName} launched successfully on ${emulatorId}.`);
-            } else {
+            const failed = deployments.filter(deployment => deployment.error);
+
+            if (failed.length === deployments.length) {
+                throw new Error(`The app could not run on any device:\n  ${failed.map(({error, name}) => `${name}: ${error}`).join('\n  ')}`);
+            }
+
+            if (!appInfo) {
                 logger.warn('Could not automatically launch the app as package/activity info was not found. APK is installed.');
             }
 
@@ -646,15 +606,107 @@ export class RunAndroidEmulatorAction implements Action {
             // For CI, usually stop it. For local dev, might want to keep it.
             // await manager.stopEmulator(emulatorId);
 
-            return {outputPaths: [apkPath], result: undefined}; // Output APK path for potential further actions
+            // The launched app is what `lepo logs android` follows, on the first device it runs on
+            const deviceId = deployments.find(deployment => !deployment.error)?.deviceId;
+            const launched: LaunchedApp | undefined = appInfo && deviceId ? {appId: appInfo.packageName, deviceId} : undefined;
+            return {outputPaths: [apkPath], result: {...launched, deployments}}; // Output APK path for potential further actions
         } catch (error: unknown) {
+            // The emulators and AVD this run created are cleaned up by rollback
             logger.info(`Android emulator action failed: ${error}`);
-            if (emulatorId) {
-                logger.info(`Attempting to stop emulator ${emulatorId} due to error...`);
-                await manager.stopEmulator(emulatorId).catch(stopError => logger.warn(`Failed to stop emulator during error cleanup: ${stopError.message}`));
+            throw error;
+        }
+    }
+
+    plan(context: ActionContext): ActionPlan {
+        const avdName = DEFAULT_AVD_NAME;
+        const systemImageId = getTargetSystemImageIdentifier();
+        const envPlan = new AndroidEnvUtils(context.logger).planEnvironment();
+        return {
+            commands: [
+                ...envPlan.commands ?? [],
+                formatCommand('sdkmanager', ['--install', systemImageId]),
+                formatCommand('avdmanager', avdCreateArgs(avdName, systemImageId, DEFAULT_DEVICE_DEFINITION)),
+                formatCommand('emulator', emulatorArgs(avdName)),
+                formatCommand('adb', ['-s', '<device>', 'install', '-r', '<apk from the previous action>']),
+                formatCommand('adb', ['-s', '<device>', 'shell', 'am', 'start', '-n', '<package>/<launch activity>']),
+            ],
+            notes: [
+                ...envPlan.notes ?? [],
+                `sdkmanager and avdmanager only run when the system image or the '${avdName}' AVD is missing.`,
+                'A connected device or running emulator picked by prepare-device skips the AVD steps.',
+                'Asks whether to stop emulators that are already running, unless the app runs on several devices.',
+                'Several devices get the APK at the same time, a device that fails is reported without stopping the others.',
+            ],
+        };
+    }
+
+    async rollback(context: ActionContext): Promise<void> {
+        if (!this.manager) {
+            return;
+        }
+
+        for (const emulatorId of this.startedEmulatorIds) {
+            context.logger.info(`Stopping emulator ${emulatorId} started by this run...`);
+            await this.manager.stopEmulator(emulatorId);
+        }
+
+        if (this.createdAvd) {
+            // Removes a half created or patched AVD, the next run creates it from scratch
+            await this.manager.deleteAvd(this.createdAvd);
+        }
+    }
+
+    // Start the emulator of an AVD, creating the AVD and installing its system image first when asked to
+    // Note: System image API, tag, and device definition are currently hardcoded constants
+    // but could be exposed via inputs if more flexibility is needed.
+    private async bootAvd(manager: AndroidEmulatorManager, avdName: string, options: {create: boolean, onlyDevice: boolean}): Promise<string> {
+        const {create, onlyDevice} = options;
+        if (create) {
+            const systemImageId = await manager.ensureSystemImageInstalled();
+            if (!await manager.avdExists(avdName)) {
+                this.createdAvd = avdName;
             }
 
-            throw error;
+            await manager.ensureAvdCreated(avdName, systemImageId, DEFAULT_DEVICE_DEFINITION);
+        }
+
+        // Stopping other emulators is only offered for a single device, never the ones this run started for the others
+        const {emulatorId, reused} = await manager.startEmulator(avdName, {askToStop: onlyDevice, keep: this.startedEmulatorIds});
+        if (!reused) {
+            this.startedEmulatorIds.push(emulatorId);
         }
+
+        return emulatorId;
     }
-}
\ No newline at end of file
+
+    // Wait for the device to boot, then install the APK and launch the app when its launch activity is known
+    private async deploy(context: ActionContext, manager: AndroidEmulatorManager, device: Device, app: {apkPath: string, appInfo: null | {launchActivity: string, packageName: string}}): Promise<void> {
+        const {apkPath, appInfo} = app;
+        const deviceId = device.udid!;
+        const bootSpan = startSpan('emulator boot', 'step');
+        await manager.waitForDevice(deviceId);
+        bootSpan.end({emulatorId: deviceId});
+
+        context.logger.info(`Installing ${path.basename(apkPath)} on ${deviceId}...`);
+        await withRetry(ADB_INSTALL_POLICY, () => device.install(apkPath), ({attempt, attempts, delayMs, error}) => {
+            context.logger.info(`Installing on ${deviceId}: attempt ${attempt}/${attempts} failed, retrying in ${delayMs}ms. ${error}`);
+        }, context.signal);
+        if (appInfo) {
+            context.logger.info(`Launching ${appInfo.packageName}/${appInfo.launchActivity} on ${deviceId}...`);
+            await device.launch(`${appInfo.packageName}/${appInfo.launchActivity}`);
+        }
+    }
+
+    // The device running, with its serial, starting the emulator of an AVD first
+    private async startDevice(context: ActionContext, manager: AndroidEmulatorManager, device: Device, onlyDevice: boolean): Promise<Device> {
+        if (device.udid) {
+            // A connected device or running emulator, prepare-device checked it is online
+            context.logger.info(`Running on ${device.name} (${device.udid})`);
+            return device;
+        }
+
+        // An AVD is used as it is, only the lepo one is created
+        const emulatorId = await this.bootAvd(manager, device.name, {create: device.name === DEFAULT_AVD_NAME, onlyDevice});
+        return new AndroidDevice(device.name, 'booted', emulatorId, 'simulator');
+    }
+}
@@ -1,30 +1,49 @@
-import {Action, ActionContext, ActionResult} from './action.js';
+import path from 'node:path';
 
+import {formatCommand} from '../../utils/common.js';
+import {runProcess} from '../../utils/process-runner.js';
+import {LaunchedApp} from '../device-logs.js';
+import {Action, ActionContext, ActionPlan, ActionResult, Artifacts, DependencyResults} from './action.js';
 
-export class RuniOSSimulatorAction implements Action {
+// CFBundleIdentifier of a built app
+async function readBundleId(appPath: string): Promise<string | undefined> {
+    try {
+        const {stdout} = await runProcess('plutil', {args: ['-extract', 'CFBundleIdentifier', 'raw', '-o', '-', path.join(appPath, 'Info.plist')]});
+        return stdout.trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export class RuniOSSimulatorAction implements Action<'appName' | 'device' | 'iosApp', never> {
     description = 'Start an iOS simulator, then installs and launches an APP.';
+    readonly inputs = ['appName', 'device', 'iosApp'] as const;
     name = 'run-ios-simulator';
 
-    async execute(context: ActionContext, previousResult?: ActionResult): Promise<ActionResult> {
-        const {device} = context;
-        if(device === null){
-            throw new Error("Find ios simulator failed");
-        }
-
-        let appPath
-        if (previousResult && previousResult?.outputPaths && previousResult.outputPaths.length > 0) {
-            appPath = previousResult.outputPaths[0];
-            context.logger.info(`Using APK from previous action: ${appPath}`);
-        } else {
-            throw new Error('APK path not provided in inputs or previous action result.');
-        }
-
-        if(context.appName === undefined){
-            throw new Error("Not found appName in ActionContext!");
-        }
+    async execute(
+        context: ActionContext,
+        _previousResult: ActionResult | undefined,
+        _dependencyResults: DependencyResults,
+        {appName, device, iosApp: appPath}: Pick<Artifacts, 'appName' | 'device' | 'iosApp'>,
+    ): Promise<ActionResult<never>> {
+        context.logger.info(`Using app: ${appPath}`);
+        await device.install(appPath)
+        // simctl launches an app by its bundle id, the logs are only there once it runs
+        const appId = await readBundleId(appPath) ?? appName;
+        await device.launch(appId)
+        // The launched app is what `lepo logs ios` follows
+        const launched: LaunchedApp = {appId, deviceId: device.udid ?? 'booted', processName: appName};
+        return {outputPaths: [appPath], result: {...launched}};
+    }
 
-        await device?.install(appPath)
-        device?.launch(context.appName)
-        return {outputPaths: [appPath], result: undefined};
+    plan(): ActionPlan {
+        return {
+            commands: [
+                formatCommand('xcrun', ['simctl', 'boot', '<device udid>']),
+                formatCommand('xcrun', ['simctl', 'install', '<device udid>', '<built .app>']),
+                formatCommand('xcrun', ['simctl', 'launch', '<device udid>', '<bundle id>']),
+            ],
+            notes: ['The simulator is only booted when it is not running yet'],
+        };
     }
 }
\ No newline at end of file
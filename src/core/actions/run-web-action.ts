@@ -0,0 +1,125 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {formatCommand} from '../../utils/common.js';
+import {RunningProcess, runProcess, startProcess} from '../../utils/process-runner.js';
+import {loadAppPlatformConfig} from '../config.js';
+import {Action, ActionContext, ActionPlan, ActionResult, Artifacts, DependencyResults} from './action.js';
+
+// rsbuild prints the address once the dev server listens, e.g. `➜  Local:    http://localhost:3001/`
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\u001B\[[0-9;]*m/g;
+const LOCAL_URL_PATTERN = /Local:\s+(https?:\/\/\S+)/;
+// rspeedy writes a bundle in several chunks, it is copied once the writes settle
+const COPY_DELAY_MS = 100;
+
+export interface RunWebOptions {
+    open?: boolean; // Optional: open the app in the browser once it is served
+    port?: number; // Optional: port of the dev server, rsbuild picks the next free one when it is taken
+}
+
+function rsbuildBin(webDir: string): string {
+    return path.join(webDir, 'node_modules', '.bin', process.platform === 'win32' ? 'rsbuild.cmd' : 'rsbuild');
+}
+
+function copyBundles(bundles: string[], publicDir: string): string[] {
+    return bundles.filter(bundle => fs.existsSync(bundle)).map(bundle => {
+        const destPath = path.join(publicDir, path.basename(bundle));
+        fs.copyFileSync(bundle, destPath);
+        return destPath;
+    });
+}
+
+export class RunWebAction implements Action<'bundles' | 'platformProject', never> {
+    description = 'Serve the web bundle of the app locally, reloading the page whenever it is rebuilt.';
+    readonly inputs = ['bundles', 'platformProject'] as const;
+    name = 'run-web';
+    private server: RunningProcess | undefined;
+    private watcher: fs.FSWatcher | undefined;
+
+    constructor(private options: RunWebOptions = {}) {}
+
+    async execute(
+        context: ActionContext,
+        _previousResult: ActionResult | undefined,
+        _dependencyResults: DependencyResults,
+        {bundles, platformProject}: Pick<Artifacts, 'bundles' | 'platformProject'>,
+    ): Promise<ActionResult<never>> {
+        // The dev server of the web project serves its public directory, the bundles go there
+        const {assetsDir = 'public'} = loadAppPlatformConfig(context.projectRoot, 'web');
+        const publicDir = path.resolve(platformProject, assetsDir);
+        fs.mkdirSync(publicDir, {recursive: true});
+        const copied = copyBundles(bundles, publicDir);
+        context.logger.info(`Copied ${bundles.join(', ')} to ${publicDir}`);
+        if (context.devMode) {
+            this.watchBundles(context, bundles, publicDir);
+        }
+
+        if (!fs.existsSync(rsbuildBin(platformProject))) {
+            context.logger.info('Installing the dependencies of the web project...');
+            await runProcess('npm', {args: ['install'], cwd: platformProject, logger: context.logger, shell: true, transientErrors: true});
+        }
+
+        const url = await this.startServer(context, platformProject);
+        context.logger.info(`The app is served at ${url}`);
+        return {crucialOutputPaths: copied, outputPaths: copied, result: {url}};
+    }
+
+    plan(): ActionPlan {
+        const args = ['dev', ...this.serverArgs()];
+        return {
+            commands: [formatCommand('npm', ['install'], 'web'), formatCommand('rsbuild', args, 'web')],
+            notes: [
+                'Copies the web bundle built by build-app into the public directory of the web project',
+                'npm install only runs when the web project has no rsbuild yet',
+                'In development the bundle is copied again on every rebuild, the dev server then reloads the page',
+            ],
+        };
+    }
+
+    rollback(): void {
+        this.watcher?.close();
+        this.server?.stop('SIGINT');
+    }
+
+    private serverArgs(): string[] {
+        const {open, port} = this.options;
+        return [...(open ? ['--open'] : []), ...(port ? ['--port', String(port)] : [])];
+    }
+
+    private async startServer(context: ActionContext, webDir: string): Promise<string> {
+        const server = startProcess(rsbuildBin(webDir), {args: ['dev', ...this.serverArgs()], cwd: webDir});
+        this.server = server;
+        return new Promise<string>((resolve, reject) => {
+            let url: string | undefined;
+            server.on('output', (line, source) => {
+                if (source === 'stderr') context.logger.error(line);
+                else context.logger.info(line);
+                const match = url ? null : LOCAL_URL_PATTERN.exec(line.replaceAll(ANSI_ESCAPE, ''));
+                if (match) {
+                    url = match[1];
+                    resolve(url);
+                }
+            });
+            server.done.then(() => {
+                if (!url) reject(new Error('The web dev server exited before it served the app'));
+            }, (error: Error) => {
+                if (!url) reject(new Error('The web dev server failed to start', {cause: error}));
+            });
+        });
+    }
+
+    // rspeedy dev rewrites the bundles in dist on every change, the copies follow them
+    private watchBundles(context: ActionContext, bundles: string[], publicDir: string): void {
+        const names = new Set(bundles.map(bundle => path.basename(bundle)));
+        let timer: NodeJS.Timeout | undefined;
+        this.watcher = fs.watch(path.dirname(bundles[0]), (_event, fileName) => {
+            if (!fileName || !names.has(fileName.toString())) return;
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                copyBundles(bundles, publicDir);
+                context.logger.info('Copied the rebuilt web bundle, reloading the page');
+            }, COPY_DELAY_MS);
+        });
+    }
+}
@@ -0,0 +1,182 @@
+export type ConfigValueType = 'array' | 'boolean' | 'number' | 'object' | 'string';
+
+// A JSON schema subset, enough for lynx.app.json and lynx.lib.json
+export interface ConfigSchema {
+  additionalProperties?: boolean; // Optional: whether keys outside `properties` are allowed, objects only
+  description?: string;
+  items?: ConfigSchema; // Optional: schema of the items of an array
+  properties?: Record<string, ConfigSchema>;
+  required?: string[];
+  type: ConfigValueType;
+}
+
+const stringValue = (description: string): ConfigSchema => ({description, type: 'string'});
+
+// Keys the templates of a platform may add are allowed, known keys are checked
+const appPlatform = (properties: Record<string, ConfigSchema>): ConfigSchema => ({
+  additionalProperties: true,
+  properties: {
+    assetsDir: stringValue('Directory the bundle is copied to, relative to platformDir'),
+    name: stringValue('Display name of the platform'),
+    platformDir: stringValue('Directory of the native project, relative to the project root'),
+    ...properties,
+  },
+  required: ['platformDir'],
+  type: 'object',
+});
+
+const libraryPlatform = (properties: Record<string, ConfigSchema>): ConfigSchema => ({
+  additionalProperties: true,
+  properties: {
+    defaultTemplate: stringValue('Template of the platform code'),
+    name: stringValue('Display name of the platform'),
+    sourceDir: stringValue('Directory of the native code, relative to the extension root'),
+    ...properties,
+  },
+  type: 'object',
+});
+
+const precommands: ConfigSchema = {
+  description: 'Commands run before the app or extension is built',
+  items: {type: 'string'},
+  type: 'array',
+};
+
+export const APP_CONFIG_SCHEMA: ConfigSchema = {
+  additionalProperties: false,
+  properties: {
+    platforms: {
+      additionalProperties: false,
+      properties: {
+        android: appPlatform({
+          signing: {
+            additionalProperties: false,
+            properties: {
+              keyAlias: stringValue('Alias of the key that signs release builds'),
+              keystore: stringValue('Keystore of release builds, relative to the project root'),
+            },
+            type: 'object',
+          },
+        }),
+        ios: appPlatform({}),
+        web: appPlatform({}),
+      },
+      type: 'object',
+    },
+    precommands,
+  },
+  type: 'object',
+};
+
+export const LIBRARY_CONFIG_SCHEMA: ConfigSchema = {
+  additionalProperties: false,
+  properties: {
+    platforms: {
+      additionalProperties: false,
+      properties: {
+        android: libraryPlatform({packageName: stringValue('Package of the Android code')}),
+        ios: libraryPlatform({podspecPath: stringValue('Podspec of the iOS code, relative to the extension root')}),
+        web: libraryPlatform({}),
+      },
+      type: 'object',
+    },
+    precommands,
+  },
+  type: 'object',
+};
+
+function typeOf(value: unknown): 'null' | ConfigValueType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as ConfigValueType;
+}
+
+/**
+ * Find the schema of a value in a config
+ * @param schema Schema of the config
+ * @param keys Path of the value, e.g. ['platforms', 'android', 'platformDir']
+ * @returns The schema, or undefined when the path is not described, e.g. under keys a template added
+ */
+export function schemaAt(schema: ConfigSchema, keys: string[]): ConfigSchema | undefined {
+  let current: ConfigSchema | undefined = schema;
+  for (const key of keys) {
+    current = current?.type === 'array' ? current.items : current?.properties?.[key];
+  }
+
+  return current;
+}
+
+/**
+ * Check a config against its schema
+ * @param value The config, or a value of it
+ * @param schema Schema of the value
+ * @param at Dotted path of the value, used in the problems
+ * @returns Problems found, e.g. `platforms.android.platformDir: expected string, got number`
+ */
+export function validateConfig(value: unknown, schema: ConfigSchema, at = ''): string[] {
+  const actual = typeOf(value);
+  if (actual !== schema.type) return [`${at || '(root)'}: expected ${schema.type}, got ${actual}`];
+
+  const prefix = at ? `${at}.` : '';
+  if (Array.isArray(value)) {
+    return schema.items ? value.flatMap((item, index) => validateConfig(item, schema.items!, `${prefix}${index}`)) : [];
+  }
+
+  if (actual !== 'object') return [];
+  const object = value as Record<string, unknown>;
+  const problems = (schema.required ?? [])
+    .filter(key => object[key] === undefined)
+    .map(key => `${prefix}${key}: is required`);
+  for (const [key, item] of Object.entries(object)) {
+    const itemSchema = schema.properties?.[key];
+    if (itemSchema) {
+      problems.push(...validateConfig(item, itemSchema, `${prefix}${key}`));
+    } else if (schema.additionalProperties === false) {
+      const known = Object.keys(schema.properties ?? {});
+      problems.push(`${prefix}${key}: unknown key${known.length > 0 ? `, expected one of ${known.join(', ')}` : ''}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Turn a value given on the command line into the type its schema asks for
+ * @param raw The value as typed
+ * @param schema Optional: schema of the value. Without one, JSON is parsed and anything else is a string.
+ * @returns The value
+ */
+export function coerceConfigValue(raw: string, schema?: ConfigSchema): unknown {
+  switch (schema?.type) {
+    case 'boolean': {
+      if (raw !== 'true' && raw !== 'false') throw new Error(`Expected true or false, got "${raw}"`);
+      return raw === 'true';
+    }
+
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) throw new Error(`Expected a number, got "${raw}"`);
+      return value;
+    }
+
+    case 'string': {
+      return raw;
+    }
+
+    case undefined: {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    }
+
+    default: {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(`Expected a JSON ${schema!.type}, got "${raw}"`);
+      }
+    }
+  }
+}
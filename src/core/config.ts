@@ -1,23 +1,179 @@
 import fs from "node:fs";
+import path from "node:path";
+
+import {APP_CONFIG_SCHEMA, ConfigSchema, LIBRARY_CONFIG_SCHEMA, schemaAt, validateConfig} from "./config-schema.js";
 
 export const APP_CONFIG_FILE = 'lynx.app.json'
 export const LIBRARY_CONFIG_FILE = 'lynx.lib.json'
 
+export type ConfigKind = 'app' | 'library';
+
+export const CONFIG_FILES: Record<ConfigKind, string> = {app: APP_CONFIG_FILE, library: LIBRARY_CONFIG_FILE};
+export const CONFIG_SCHEMAS: Record<ConfigKind, ConfigSchema> = {app: APP_CONFIG_SCHEMA, library: LIBRARY_CONFIG_SCHEMA};
+
 export interface PlatformConfig {
   [key: string]: unknown;
 }
 
+// A platform of lynx.app.json
+export interface AppPlatformConfig extends PlatformConfig {
+    assetsDir?: string;
+    name?: string;
+    platformDir: string; // Relative to the project root
+}
+
 export interface Config {
     platforms: Record<string, PlatformConfig>;
     precommands: string[];
 }
 
+// Indentation and final newline of a JSON file, kept when it is written again so diffs stay small
+function jsonFormat(text: string): {indent: number | string, newline: boolean} {
+    const indent = /^([ \t]+)"/m.exec(text)?.[1];
+    return {indent: indent ?? 2, newline: text.endsWith('\n')};
+}
+
 export function saveConfig(path: string, config: Config) {
-    const configJson = JSON.stringify(config, null, 2)
-    fs.writeFileSync(path, configJson, 'utf8')
+    const {indent, newline} = fs.existsSync(path) ? jsonFormat(fs.readFileSync(path, 'utf8')) : {indent: 2, newline: false};
+    const configJson = JSON.stringify(config, null, indent)
+    fs.writeFileSync(path, newline ? `${configJson}\n` : configJson, 'utf8')
 }
 
 export function loadConfig(path: string) {
     const configJson = JSON.parse(fs.readFileSync(path).toString())
     return configJson as Config
 }
+
+export interface ConfigFile {
+    kind: ConfigKind;
+    path: string;
+}
+
+/**
+ * Find the config file `lepo config` works on: lynx.app.json, unless the project only has lynx.lib.json, as extensions do
+ * @param projectRoot Root of the project
+ * @param library Whether lynx.lib.json was asked for
+ * @returns The kind and path of the file, which may not exist yet
+ */
+export function findConfigFile(projectRoot: string, library = false): ConfigFile {
+    const useApp = fs.existsSync(path.join(projectRoot, APP_CONFIG_FILE))
+        || !fs.existsSync(path.join(projectRoot, LIBRARY_CONFIG_FILE));
+    const kind: ConfigKind = library || !useApp ? 'library' : 'app';
+    return {kind, path: path.join(projectRoot, CONFIG_FILES[kind])};
+}
+
+/**
+ * Find a platform in lynx.app.json and check it against the schema
+ * @param projectRoot Root of the project
+ * @param platform Name of the platform, e.g. `android`
+ * @returns The config of the platform
+ */
+export function loadAppPlatformConfig(projectRoot: string, platform: string): AppPlatformConfig {
+    const configPath = path.join(projectRoot, APP_CONFIG_FILE);
+    const platformConfig = fs.existsSync(configPath) ? loadConfig(configPath).platforms?.[platform] : undefined;
+    if (!platformConfig) {
+        throw new Error(`${platform} is not a platform of this app, add it with lepo add platform ${platform}`);
+    }
+
+    const schema = schemaAt(APP_CONFIG_SCHEMA, ['platforms', platform]);
+    const problems = schema ? validateConfig(platformConfig, schema, `platforms.${platform}`) : [];
+    if (problems.length > 0) {
+        throw new Error(`${configPath} is invalid:\n  ${problems.join('\n  ')}\nFix it with lepo config set or lepo config unset`);
+    }
+
+    return platformConfig as AppPlatformConfig;
+}
+
+/**
+ * Split a dotted config path, e.g. `platforms.android.platformDir`
+ * @param dotted The path
+ * @returns The keys of the path
+ */
+export function parseConfigPath(dotted: string): string[] {
+    const keys = dotted.split('.');
+    if (keys.includes('')) {
+        throw new Error(`Invalid config path "${dotted}", expected keys separated by dots, e.g. platforms.android.platformDir`);
+    }
+
+    return keys;
+}
+
+// Keys that reach the prototype of an object rather than a value of the config
+const PROTOTYPE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function checkOwnKeys(keys: string[]): void {
+    const key = keys.find(key => PROTOTYPE_KEYS.has(key));
+    if (key) {
+        throw new Error(`Invalid config path "${keys.join('.')}", ${key} cannot be a key of the config`);
+    }
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Read a value of a config
+ * @param config The config
+ * @param keys Path of the value
+ * @returns The value, or undefined when it is not set
+ */
+export function getConfigValue(config: unknown, keys: string[]): unknown {
+    checkOwnKeys(keys);
+    let current = config;
+    for (const key of keys) {
+        // Inherited members like toString are not values of the config
+        if (!isContainer(current) || !Object.hasOwn(current, key)) return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+
+    return current;
+}
+
+/**
+ * Set a value of a config, creating the objects on its path. Existing keys keep their place.
+ * @param config The config
+ * @param keys Path of the value
+ * @param value The value
+ */
+export function setConfigValue(config: Record<string, unknown>, keys: string[], value: unknown): void {
+    checkOwnKeys(keys);
+    let current: Record<string, unknown> = config;
+    for (const [index, key] of keys.entries()) {
+        // Arrays take indexes up to their length, which appends
+        if (Array.isArray(current) && !(/^\d+$/.test(key) && Number(key) <= current.length)) {
+            throw new Error(`${keys.slice(0, index).join('.')} is an array of ${current.length}, ${key} is not an index of it`);
+        }
+
+        if (index === keys.length - 1) break;
+        const next = current[key];
+        if (next !== undefined && !isContainer(next)) {
+            throw new Error(`${keys.slice(0, index + 1).join('.')} is a ${typeof next}, it has no ${keys[index + 1]}`);
+        }
+
+        current[key] ??= {};
+        current = current[key] as Record<string, unknown>;
+    }
+
+    current[keys.at(-1)!] = value;
+}
+
+/**
+ * Remove a value of a config
+ * @param config The config
+ * @param keys Path of the value
+ * @returns False when the value was not set
+ */
+export function unsetConfigValue(config: unknown, keys: string[]): boolean {
+    checkOwnKeys(keys);
+    const parent = getConfigValue(config, keys.slice(0, -1));
+    const key = keys.at(-1)!;
+    if (!isContainer(parent) || !Object.hasOwn(parent, key)) return false;
+    if (Array.isArray(parent)) {
+        parent.splice(Number(key), 1);
+    } else {
+        delete parent[key];
+    }
+
+    return true;
+}
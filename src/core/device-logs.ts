@@ -0,0 +1,218 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import color from 'picocolors';
+
+import {androidSdkTool, findDeviceTarget, findiOSSimulator, listAndroidDevices, nativePlatform} from '../utils/devices.js';
+import {runProcess, startProcess} from '../utils/process-runner.js';
+import {PipelineState} from './actions/pipeline-state.js';
+import {RetryPolicy, withRetry} from './actions/retry.js';
+
+export const LOG_LEVELS = ['verbose', 'debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// The app a run launched, recorded in the result of the run action so `lepo logs` finds it again
+export interface LaunchedApp {
+  appId: string; // Android package name or iOS bundle id
+  deviceId: string; // adb serial or simulator udid
+  processName?: string; // Optional: executable of an iOS app, its NSLog output carries no subsystem
+}
+
+export interface LogEntry {
+  console: boolean; // Output of `console.*` in the Lynx JS code
+  level: LogLevel;
+  message: string;
+  raw: string; // The line as the device printed it
+  tag: string; // logcat tag, or process and category of iOS
+}
+
+export interface StreamLogsOptions {
+  level: LogLevel; // Entries below this level are left out
+  output?: string; // Optional: file the shown lines are appended to, without colors
+  print(line: string): void;
+  signal?: AbortSignal; // Optional: stops streaming when aborted
+}
+
+// Names of the run actions that record a LaunchedApp, by platform
+export const RUN_ACTIONS: Record<nativePlatform, string> = {android: 'run-android-emulator', ios: 'run-ios-simulator'};
+
+// An app that was just launched needs a moment before it has a pid
+const PID_POLICY: RetryPolicy = {attempts: 10, initialDelayMs: 500, maxDelayMs: 2000, retryOn: [Error]};
+
+// `adb logcat -v threadtime`: date, time, pid, tid, level, tag and message
+const LOGCAT_LINE = /^\d\d-\d\d\s+[\d:.]+\s+\d+\s+\d+\s+([ADEFIVW])\s+(.*?)\s*:\s(.*)$/;
+const LOGCAT_LEVELS: Record<string, LogLevel> = {A: 'error', D: 'debug', E: 'error', F: 'error', I: 'info', V: 'verbose', W: 'warn'};
+// `log stream --style compact`: date, time, type, process[pid:tid], optional [subsystem:category] and message
+const OS_LOG_LINE = /^\S+\s+\S+\s+(Db|Df|E|F|I)\s+(\S+?)\[\d+:[\da-f]+\]\s+(?:\[([^\]]+)\]\s+)?(.*)$/;
+const OS_LOG_LEVELS: Record<string, LogLevel> = {Db: 'debug', Df: 'info', E: 'error', F: 'error', I: 'info'};
+// Lynx logs under a lynx tag or category, JS console calls are marked as such in the message
+const LYNX_TAG = /lynx/i;
+const CONSOLE_MESSAGE = /\bconsole\b|\[js\]/i;
+// Crashes are logged at info level by some runtimes, they are errors all the same
+const NATIVE_CRASH = /FATAL EXCEPTION|Terminating app due to uncaught exception|^\s*Caused by: /;
+
+function entry(raw: string, level: LogLevel, tag: string, message: string): LogEntry {
+  return {
+    console: LYNX_TAG.test(tag) && CONSOLE_MESSAGE.test(message),
+    level: NATIVE_CRASH.test(message) ? 'error' : level,
+    message,
+    raw,
+    tag,
+  };
+}
+
+/**
+ * Parse a line of `adb logcat -v threadtime`
+ * @param line The line
+ * @returns The entry, or undefined for headers like `--------- beginning of main`
+ */
+export function parseLogcatLine(line: string): LogEntry | undefined {
+  const match = LOGCAT_LINE.exec(line);
+  if (!match) return undefined;
+  const [, level, tag, message] = match;
+  return entry(line, LOGCAT_LEVELS[level], tag, message);
+}
+
+/**
+ * Parse a line of `log stream --style compact`
+ * @param line The line
+ * @returns The entry, or undefined for the header `log stream` prints first
+ */
+export function parseOsLogLine(line: string): LogEntry | undefined {
+  const match = OS_LOG_LINE.exec(line);
+  if (!match) return undefined;
+  const [, type, processName, category, message] = match;
+  return entry(line, OS_LOG_LEVELS[type], category ? `${processName} ${category}` : processName, message);
+}
+
+/**
+ * Highlight an entry for the terminal: JS console output, warnings and errors stand out
+ * @param logEntry The entry
+ * @returns The colored line
+ */
+export function formatLogEntry(logEntry: LogEntry): string {
+  if (logEntry.level === 'error') return color.red(logEntry.raw);
+  if (logEntry.level === 'warn') return color.yellow(logEntry.raw);
+  if (logEntry.console) return color.cyan(logEntry.raw);
+  return logEntry.level === 'info' ? logEntry.raw : color.dim(logEntry.raw);
+}
+
+/**
+ * Find the app the last `lepo run` launched, from .lepo/state.json
+ * @param projectRoot Root of the project
+ * @param targetPlatform Platform the app was run on
+ * @returns The app, or undefined when the last run did not launch one
+ */
+export function lastLaunchedApp(projectRoot: string, targetPlatform: nativePlatform): LaunchedApp | undefined {
+  const state = new PipelineState(projectRoot);
+  state.load();
+  const result = state.checkpoint(RUN_ACTIONS[targetPlatform])?.result as Partial<LaunchedApp> | undefined;
+  return result?.appId && result.deviceId ? result as LaunchedApp : undefined;
+}
+
+/**
+ * Find the app to stream the logs of: the one the last run launched, with the given app id or device instead
+ * @param projectRoot Root of the project
+ * @param targetPlatform Platform the app runs on
+ * @param overrides App id and device the user asked for
+ * @param overrides.appId Optional: Android package name or iOS bundle id
+ * @param overrides.device Optional: id or name of a device from `lepo devices`
+ * @returns The app and the device it runs on
+ */
+export async function resolveLaunchedApp(projectRoot: string, targetPlatform: nativePlatform, overrides: {appId?: string, device?: string}): Promise<LaunchedApp> {
+  const last = lastLaunchedApp(projectRoot, targetPlatform);
+  const appId = overrides.appId ?? last?.appId;
+  if (!appId) {
+    const flag = targetPlatform === 'android' ? '--android-package' : '--bundle-id';
+    throw new Error(`No app to follow, run it with lepo run ${targetPlatform} first or pass ${flag}`);
+  }
+
+  let deviceId = last?.deviceId;
+  if (overrides.device) {
+    deviceId = targetPlatform === 'android'
+      ? findDeviceTarget(overrides.device, await listAndroidDevices()).id
+      : (await findiOSSimulator(overrides.device)).udid ?? overrides.device;
+  } else if (!deviceId) {
+    // Without a run to go by, the first device that is up
+    deviceId = targetPlatform === 'android'
+      ? (await listAndroidDevices()).find(target => target.state === 'booted')?.id
+      : 'booted';
+    if (!deviceId) throw new Error('No Android device or emulator is connected, see lepo devices');
+  }
+
+  // The process name only belongs to the app of the last run
+  return {appId, deviceId, processName: appId === last?.appId ? last.processName : undefined};
+}
+
+// pid of the app on an Android device, logcat only filters by pid
+async function androidPid(adb: string, app: LaunchedApp, signal?: AbortSignal): Promise<string> {
+  return withRetry(PID_POLICY, async () => {
+    const {stdout} = await runProcess(adb, {args: ['-s', app.deviceId, 'shell', 'pidof', '-s', app.appId], signal});
+    if (!stdout.trim()) throw new Error(`${app.appId} is not running on ${app.deviceId}`);
+    return stdout.trim();
+  }, undefined, signal).catch((error: unknown) => {
+    if (signal?.aborted) throw error;
+    throw new Error(`${app.appId} is not running on ${app.deviceId}, launch it with lepo run android`, {cause: error});
+  });
+}
+
+// A string literal of an NSPredicate
+function quote(value: string): string {
+  return `"${value.replaceAll('"', String.raw`\"`)}"`;
+}
+
+function iOSPredicate(app: LaunchedApp): string {
+  const subsystem = `subsystem BEGINSWITH ${quote(app.appId)}`;
+  return app.processName ? `${subsystem} OR process == ${quote(app.processName)}` : subsystem;
+}
+
+/**
+ * Stream the logs of an app until it stops logging or the signal aborts
+ * @param targetPlatform Platform the app runs on
+ * @param app The app and the device it runs on
+ * @param options Level, file and where the lines go
+ */
+export async function streamAppLogs(targetPlatform: nativePlatform, app: LaunchedApp, options: StreamLogsOptions): Promise<void> {
+  const {level, output, print, signal} = options;
+  let command: string;
+  let args: string[];
+  let parse: (line: string) => LogEntry | undefined;
+  if (targetPlatform === 'android') {
+    command = androidSdkTool('adb');
+    args = ['-s', app.deviceId, 'logcat', '-v', 'threadtime', `--pid=${await androidPid(command, app, signal)}`];
+    parse = parseLogcatLine;
+  } else {
+    command = 'xcrun';
+    // Debug messages are only streamed when asked for, they are plenty
+    const osLogLevel = LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf('debug') ? 'debug' : 'info';
+    args = ['simctl', 'spawn', app.deviceId, 'log', 'stream', '--style', 'compact', '--level', osLogLevel, '--predicate', iOSPredicate(app)];
+    parse = parseOsLogLine;
+  }
+
+  if (output) fs.mkdirSync(path.dirname(path.resolve(output)), {recursive: true});
+  const file = output ? fs.createWriteStream(output, {flags: 'a'}) : undefined;
+  const minimum = LOG_LEVELS.indexOf(level);
+  const logs = startProcess(command, {args, signal});
+  logs.on('output', (line, source) => {
+    const logEntry = parse(line);
+    // Tool messages, e.g. adb failing to connect, always show
+    if (!logEntry) {
+      if (source === 'stderr' && line.trim()) print(color.yellow(line));
+      return;
+    }
+
+    if (LOG_LEVELS.indexOf(logEntry.level) < minimum) return;
+    print(formatLogEntry(logEntry));
+    file?.write(`${logEntry.raw}\n`);
+  });
+
+  try {
+    await logs.done;
+  } catch (error: unknown) {
+    if (!signal?.aborted) throw error;
+  } finally {
+    await new Promise<void>(resolve => {
+      if (file) file.end(resolve);
+      else resolve();
+    });
+  }
+}
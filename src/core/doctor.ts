@@ -0,0 +1,261 @@
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+import {CACHE_DIR} from '../cache.js';
+import {Logger} from '../logger.js';
+import {AndroidEnvUtils, EXPECTED_JAVA_VERSION, getJavaVersion, MANAGED_SDK_DIR_NAME, SDK_PACKAGES_TO_INSTALL} from '../utils/android-env-utils.js';
+import {runProcess} from '../utils/process-runner.js';
+import {getTargetSystemImageIdentifier} from './actions/run-android-emulator-action.js';
+
+export type CheckStatus = 'fail' | 'pass' | 'warn';
+
+export interface CheckResult {
+  fix?: string; // Optional: what to do about a warning or failure
+  fixable?: boolean; // Optional: `lepo doctor --fix` repairs it
+  message: string;
+  name: string;
+  status: CheckStatus;
+}
+
+export interface DoctorOptions {
+  engines?: string; // Optional: the `engines.node` range of lepo, e.g. `>=18.0.0`
+  logger: Logger;
+  projectRoot?: string; // Optional: project whose package manager is checked
+}
+
+// A check resolves with its result, or with nothing when it does not apply to this machine
+type Check = (options: DoctorOptions) => Promise<Omit<CheckResult, 'name'> | undefined>;
+
+// Port rspeedy serves the bundles from in development, the apps load them from there
+export const DEV_SERVER_PORT = 3000;
+// Builds, the SDK, the JDK and a system image take a few GB, the emulator more once it runs
+const LOW_DISK_SPACE_BYTES = 10 * 1024 ** 3;
+const MIN_DISK_SPACE_BYTES = 2 * 1024 ** 3;
+// Version commands of tools answer right away, anything slower is treated as broken
+const VERSION_TIMEOUT_MS = 15_000;
+const FIX_ANDROID_ENVIRONMENT = 'Run `lepo doctor --fix`, or any Android command, to download it into ~/.lepo';
+
+const managedSdkRoot = () => path.join(CACHE_DIR, MANAGED_SDK_DIR_NAME);
+const sdkManagerPath = () => path.join(managedSdkRoot(), 'cmdline-tools', 'bin', os.platform() === 'win32' ? 'sdkmanager.bat' : 'sdkmanager');
+
+/**
+ * Whether a version satisfies the minimum of an `engines` range. Only `>=` ranges are understood,
+ * anything else is assumed to be satisfied.
+ * @param version Version to check, e.g. `v22.1.0`
+ * @param range Range, e.g. `>=18.0.0`
+ * @returns True unless the version is below the minimum
+ */
+export function satisfiesMinimum(version: string, range: string): boolean {
+  const minimum = /^\s*>=\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(range);
+  if (!minimum) return true;
+  const actual = version.replace(/^v/, '').split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const wanted = Number(minimum[i + 1] ?? 0);
+    if ((actual[i] ?? 0) !== wanted) return (actual[i] ?? 0) > wanted;
+  }
+
+  return true;
+}
+
+// First line a tool prints for its version, or undefined when it is not installed or broken
+async function toolVersion(command: string, args: string[]): Promise<string | undefined> {
+  try {
+    const {output} = await runProcess(command, {args, shell: os.platform() === 'win32', timeoutMs: VERSION_TIMEOUT_MS});
+    return output.split('\n').find(line => line.trim())?.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+async function isPortFree(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+const checkNode: Check = async ({engines}) => {
+  const {version} = process;
+  if (!engines || satisfiesMinimum(version, engines)) {
+    return {message: `${version}${engines ? ` (lepo needs ${engines})` : ''}`, status: 'pass'};
+  }
+
+  return {fix: `Install Node.js ${engines}, e.g. with nvm`, message: `${version} does not satisfy ${engines}`, status: 'fail'};
+};
+
+const checkPackageManager: Check = async ({projectRoot}) => {
+  const npmVersion = await toolVersion('npm', ['--version']);
+  if (!npmVersion) {
+    return {fix: 'Install npm, it comes with Node.js', message: 'npm not found, lepo installs dependencies with it', status: 'fail'};
+  }
+
+  const otherLockfile = projectRoot && ['yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'].find(file => fs.existsSync(path.join(projectRoot, file)));
+  if (otherLockfile) {
+    return {
+      fix: 'Keep the project on npm, or expect package-lock.json to appear next to the other lockfile',
+      message: `npm ${npmVersion}, but the project has ${otherLockfile} and lepo runs npm install`,
+      status: 'warn',
+    };
+  }
+
+  return {message: `npm ${npmVersion}`, status: 'pass'};
+};
+
+const checkJdk: Check = async () => {
+  let version: string;
+  try {
+    version = await getJavaVersion();
+  } catch {
+    return {fix: FIX_ANDROID_ENVIRONMENT, fixable: true, message: `No JDK found, Gradle needs JDK ${EXPECTED_JAVA_VERSION}`, status: 'warn'};
+  }
+
+  const javaHome = process.env.JAVA_HOME ?? 'PATH';
+  if (version !== EXPECTED_JAVA_VERSION) {
+    return {
+      fix: `Point JAVA_HOME to JDK ${EXPECTED_JAVA_VERSION}, or unset it and run \`lepo doctor --fix\``,
+      fixable: true,
+      message: `JDK ${version} from ${javaHome}, lepo builds with ${EXPECTED_JAVA_VERSION} and downloads it when JAVA_HOME is not set`,
+      status: 'warn',
+    };
+  }
+
+  return {message: `JDK ${version} from ${javaHome}`, status: 'pass'};
+};
+
+const checkCmdlineTools: Check = async () => {
+  if (!fs.existsSync(sdkManagerPath())) {
+    return {fix: FIX_ANDROID_ENVIRONMENT, fixable: true, message: `sdkmanager not found at ${sdkManagerPath()}`, status: 'warn'};
+  }
+
+  return {message: sdkManagerPath(), status: 'pass'};
+};
+
+const checkAndroidSdk: Check = async ({logger}) => {
+  const sdkRoot = managedSdkRoot();
+  if (!fs.existsSync(sdkManagerPath())) {
+    return {fix: FIX_ANDROID_ENVIRONMENT, fixable: true, message: `No managed SDK in ${sdkRoot}`, status: 'warn'};
+  }
+
+  const installed = await new AndroidEnvUtils(logger).listInstalledPackages(sdkRoot, sdkManagerPath());
+  const missing = SDK_PACKAGES_TO_INSTALL.filter(name => !installed.has(name));
+  if (missing.length > 0) {
+    return {fix: FIX_ANDROID_ENVIRONMENT, fixable: true, message: `${sdkRoot} lacks ${missing.join(', ')}`, status: 'warn'};
+  }
+
+  return {message: `${sdkRoot} has ${SDK_PACKAGES_TO_INSTALL.join(', ')}`, status: 'pass'};
+};
+
+const checkEmulator: Check = async () => {
+  const sdkRoot = managedSdkRoot();
+  const emulator = path.join(sdkRoot, 'emulator', os.platform() === 'win32' ? 'emulator.exe' : 'emulator');
+  const systemImageId = getTargetSystemImageIdentifier();
+  const systemImage = path.join(sdkRoot, ...systemImageId.split(';'));
+  const missing = [emulator, systemImage].filter(file => !fs.existsSync(file));
+  if (missing.length > 0) {
+    return {
+      fix: '`lepo run android` installs them on its first run, which downloads about 2 GB',
+      message: `Not installed yet: ${missing.map(file => path.relative(sdkRoot, file)).join(', ')}`,
+      status: 'warn',
+    };
+  }
+
+  return {message: `emulator and ${systemImageId}`, status: 'pass'};
+};
+
+const checkKvm: Check = async () => {
+  if (os.platform() !== 'linux') return;
+  if (!fs.existsSync('/dev/kvm')) {
+    return {
+      fix: 'Enable virtualization in the BIOS and load the kvm module, the emulator is unusably slow without it',
+      message: '/dev/kvm not found',
+      status: 'warn',
+    };
+  }
+
+  try {
+    // eslint-disable-next-line no-bitwise
+    fs.accessSync('/dev/kvm', fs.constants.R_OK | fs.constants.W_OK);
+  } catch {
+    return {fix: 'Add your user to the kvm group: sudo usermod -aG kvm $USER, then log in again', message: '/dev/kvm is not accessible', status: 'warn'};
+  }
+
+  return {message: '/dev/kvm is accessible', status: 'pass'};
+};
+
+// The iOS tool chain only exists on macOS, elsewhere a missing tool is not worth a warning
+function iosToolCheck(command: string, args: string[], fix: string): Check {
+  return async () => {
+    const version = await toolVersion(command, args);
+    if (version) return {message: version, status: 'pass'};
+    if (os.platform() !== 'darwin') return;
+    return {fix, message: `${command} not found, iOS builds need it`, status: 'warn'};
+  };
+}
+
+const checkDiskSpace: Check = async () => {
+  const directory = fs.existsSync(CACHE_DIR) ? CACHE_DIR : os.homedir();
+  // Node 18 has it from 18.15 on, older releases skip the check
+  // eslint-disable-next-line n/no-unsupported-features/node-builtins
+  if (!fs.promises.statfs) return;
+  // eslint-disable-next-line n/no-unsupported-features/node-builtins
+  const stats = await fs.promises.statfs(directory);
+  const free = stats.bavail * stats.bsize;
+  const message = `${(free / 1024 ** 3).toFixed(1)} GB free in ${directory}`;
+  if (free < MIN_DISK_SPACE_BYTES) {
+    return {fix: 'Free up disk space, e.g. remove unused AVDs or old builds', message, status: 'fail'};
+  }
+
+  if (free < LOW_DISK_SPACE_BYTES) {
+    return {fix: 'Free up disk space, the SDK, system images and builds need about 10 GB', message, status: 'warn'};
+  }
+
+  return {message, status: 'pass'};
+};
+
+const checkDevServerPort: Check = async () => {
+  if (await isPortFree(DEV_SERVER_PORT)) return {message: `Port ${DEV_SERVER_PORT} is free`, status: 'pass'};
+  return {
+    fix: `Stop the process listening on port ${DEV_SERVER_PORT}, e.g. a dev server left running`,
+    message: `Port ${DEV_SERVER_PORT} is in use, the dev server would pick another one the app does not load from`,
+    status: 'warn',
+  };
+};
+
+const CHECKS: Array<[string, Check]> = [
+  ['Node.js', checkNode],
+  ['Package manager', checkPackageManager],
+  ['JDK', checkJdk],
+  ['Android cmdline-tools', checkCmdlineTools],
+  ['Android SDK', checkAndroidSdk],
+  ['Android emulator', checkEmulator],
+  ['KVM', checkKvm],
+  ['Ruby', iosToolCheck('ruby', ['--version'], 'Install Ruby, e.g. with Homebrew or rbenv')],
+  ['Bundler', iosToolCheck('bundle', ['--version'], 'gem install bundler')],
+  ['CocoaPods', iosToolCheck('pod', ['--version'], 'gem install cocoapods')],
+  ['Xcode', iosToolCheck('xcodebuild', ['-version'], 'Install Xcode from the App Store, then run xcode-select --install')],
+  ['Disk space', checkDiskSpace],
+  ['Dev server port', checkDevServerPort],
+];
+
+/**
+ * Check everything the pipelines depend on. A check that throws is reported as failed.
+ * @param options Where to look
+ * @returns The results, in a fixed order. Checks that do not apply to this machine are left out.
+ */
+export async function runDoctorChecks(options: DoctorOptions): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  // One at a time, sdkmanager and the version commands are slow enough already
+  for (const [name, check] of CHECKS) {
+    try {
+      const result = await check(options);
+      if (result) results.push({name, ...result});
+    } catch (error: unknown) {
+      results.push({message: `Check failed: ${error instanceof Error ? error.message : error}`, name, status: 'fail'});
+    }
+  }
+
+  return results;
+}
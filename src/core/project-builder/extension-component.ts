@@ -0,0 +1,182 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {platformProviders} from '../../template-context-provider/platform-providers.js';
+import {listFiles} from '../../utils/common.js';
+import {VariablesMap} from '../../utils/file-templater.js';
+import {Config, LIBRARY_CONFIG_FILE, loadConfig, PlatformConfig, saveConfig} from '../config.js';
+import {ProjectBuilder} from './project-builder.js';
+import {defaultLanguage, templatePath} from './template.js';
+
+export type ComponentType = 'element' | 'module';
+
+// Class names `lepo create extension` renders the module and element templates with
+export const DEFAULT_COMPONENT_VARIABLES: VariablesMap = {elementName: 'Button', elementTag: 'button', moduleName: 'NativeLocalStorageModule'};
+
+// Files every component of the extension adds to, relative to the extension root
+const SHARED_FILES = new Set(['src/index.tsx', 'types/index.d.ts']);
+
+// What adding a component did to a file of the extension
+export type ComponentFileChange =
+  | 'added' // New, written
+  | 'appended' // Shared by the components, the new one was added to it
+  | 'kept'; // Already in the extension, left as it is
+
+export interface ComponentChange {
+  change: ComponentFileChange;
+  file: string; // Relative to the extension root
+}
+
+// A platform the component gets native code for
+export interface ComponentPlatform {
+  config?: PlatformConfig; // Optional: entry of lynx.lib.json, for a platform the extension does not have yet
+  sourceDir: string; // Directory of the native code, relative to the extension root
+  variables: VariablesMap; // Variables the extension templates of the platform were rendered with
+}
+
+export interface AddComponentOptions {
+  dryRun?: boolean; // Optional: list the changes without writing them
+  name: string; // Name as typed, see `componentVariables`
+  packageName: string; // Name of the extension package
+  platforms: Record<string, ComponentPlatform>;
+  type: ComponentType;
+}
+
+/**
+ * Class names of a new module or element
+ * @param type Module or element
+ * @param name Name as typed, e.g. `Camera` or `ColorPicker`
+ * @returns The template variables, `NativeCameraModule` for a module, `ColorPicker` and its `color-picker` tag for an element
+ */
+export function componentVariables(type: ComponentType, name: string): VariablesMap {
+  if (!/^[A-Z][\dA-Za-z]*$/.test(name)) {
+    throw new Error(`Invalid ${type} name "${name}", expected a PascalCase name such as ${type === 'module' ? 'Camera' : 'ColorPicker'}`);
+  }
+
+  if (type === 'module') {
+    return {moduleName: `Native${name.replace(/^Native(?=[A-Z])/, '').replace(/(?<=.)Module$/, '')}Module`};
+  }
+
+  return {elementName: name, elementTag: name.replaceAll(/(?<=[\da-z])(?=[A-Z])/g, '-').toLowerCase()};
+}
+
+/**
+ * The platforms a new component gets native code for, with the variables the extension was created with
+ * @param config lynx.lib.json of the extension
+ * @param packageName Name of the extension package
+ * @param type Module or element
+ * @param requested Optional: platforms to add the component to, by default the platforms of the extension that have a template for it
+ * @returns The platforms. Variables the config does not tell, and those of new platforms, are asked for.
+ */
+export async function collectComponentPlatforms(config: Config, packageName: string, type: ComponentType, requested?: string[]): Promise<Record<string, ComponentPlatform>> {
+  const hasTemplate = (platform: string) => fs.existsSync(templatePath(`extension-${type}-${platform}-${defaultLanguage(platform)}`));
+  for (const platform of requested ?? []) {
+    if (!platformProviders[platform] || !hasTemplate(platform)) throw new Error(`lepo has no ${type} template for ${platform}`);
+  }
+
+  const platforms: Record<string, ComponentPlatform> = {};
+  for (const platform of requested ?? Object.keys(config.platforms ?? {}).filter(name => platformProviders[name] && hasTemplate(name))) {
+    const provider = platformProviders[platform];
+    const existing = config.platforms?.[platform];
+    const variables = (existing && provider.extensionTemplateVariables?.(existing)) ?? await provider.collectExtensionTemplateVariables(packageName);
+    const platformConfig = existing ? undefined : await provider.collectExtensionPlatformConfig(packageName, variables);
+    const sourceDir = (existing ?? platformConfig)?.sourceDir;
+    platforms[platform] = {config: platformConfig, sourceDir: typeof sourceDir === 'string' ? sourceDir : platform, variables};
+  }
+
+  return platforms;
+}
+
+// The rendered file merged into the extension, and what it does to the file
+function mergeFile(projectRoot: string, file: string, rendered: Buffer): {change: ComponentFileChange; content?: Buffer | string} {
+  const target = path.join(projectRoot, file);
+  if (!fs.existsSync(target)) return {change: 'added', content: rendered};
+  if (!SHARED_FILES.has(file)) return {change: 'kept'};
+
+  const current = fs.readFileSync(target, 'utf8');
+  const addition = rendered.toString('utf8').trim();
+  if (current.includes(addition)) return {change: 'kept'};
+  // Declarations are set apart by a blank line, exports follow each other
+  const separator = addition.includes('\n') ? '\n\n' : '\n';
+  return {change: 'appended', content: `${current.trimEnd()}${separator}${addition}\n`};
+}
+
+// Files of the extension already named after the component, or declaring its module
+function takenBy(projectRoot: string, files: string[], names: VariablesMap): string[] {
+  const taken = files.filter(file => !SHARED_FILES.has(file)
+    && Object.values(names).includes(path.parse(file).name)
+    && fs.existsSync(path.join(projectRoot, file)));
+  const declarations = path.join(projectRoot, 'types', 'index.d.ts');
+  if (names.moduleName && fs.existsSync(declarations) && new RegExp(String.raw`\bclass ${names.moduleName}\b`).test(fs.readFileSync(declarations, 'utf8'))) {
+    taken.push('types/index.d.ts');
+  }
+
+  return taken;
+}
+
+/**
+ * Add a module or element to an existing extension: its templates are rendered into `src/`, `types/` and the native
+ * directories. Files the extension already has are kept, the component is appended to `src/index.tsx` and
+ * `types/index.d.ts`, and platforms new to the extension are added to lynx.lib.json.
+ * @param projectRoot Root of the extension
+ * @param options The component and where it goes
+ * @returns What happened to each file, lynx.lib.json included
+ */
+export async function addExtensionComponent(projectRoot: string, options: AddComponentOptions): Promise<ComponentChange[]> {
+  const {dryRun = false, name, packageName, platforms, type} = options;
+  const names = componentVariables(type, name);
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'lepo-add-'));
+  try {
+    const builder = new ProjectBuilder({checkEmpty: false, packageName, prepareCommands: false, targetDir: tmp});
+    builder.addStep({
+      from: templatePath(`extension-${type}-react-ts`),
+      // The module template also carries the Button of the element template, modules added later do without it
+      skipFiles: type === 'module' ? ['src/Button.tsx', 'src/Button.css'] : [],
+      to: '.',
+      variables: {componentName: packageName, ...names},
+    });
+    for (const [platform, {config, sourceDir, variables}] of Object.entries(platforms)) {
+      const common = templatePath(`extension-common-${platform}-${defaultLanguage(platform)}`);
+      // A platform new to the extension also gets the common files of its native project
+      if (config && fs.existsSync(common)) builder.addStep({from: common, to: sourceDir, variables});
+      builder.addStep({from: templatePath(`extension-${type}-${platform}-${defaultLanguage(platform)}`), to: sourceDir, variables: {...variables, ...names}});
+    }
+
+    await builder.build();
+
+    // Only the sources are the component's, package.json, the example and the rest belong to the extension
+    const roots = ['src', 'types', ...Object.values(platforms).map(platform => platform.sourceDir)];
+    const files = [...new Set(roots.flatMap(root => listFiles(path.join(tmp, root))))].map(file => path.relative(tmp, file).split(path.sep).join('/'));
+    const taken = takenBy(projectRoot, files, names);
+    if (taken.length > 0) {
+      throw new Error(`The extension already has ${names.moduleName ?? names.elementName}, see ${taken.join(', ')}. Pick another name.`);
+    }
+
+    const changes: ComponentChange[] = [];
+    for (const file of files) {
+      const {change, content} = mergeFile(projectRoot, file, fs.readFileSync(path.join(tmp, file)));
+      changes.push({change, file});
+      if (content === undefined || dryRun) continue;
+      fs.mkdirSync(path.dirname(path.join(projectRoot, file)), {recursive: true});
+      fs.writeFileSync(path.join(projectRoot, file), content);
+    }
+
+    const newPlatforms = Object.entries(platforms).filter(([, {config}]) => config);
+    if (newPlatforms.length > 0) {
+      const configPath = path.join(projectRoot, LIBRARY_CONFIG_FILE);
+      const libraryConfig: Config = fs.existsSync(configPath) ? loadConfig(configPath) : {platforms: {}, precommands: []};
+      libraryConfig.platforms ??= {};
+      for (const [platform, {config}] of newPlatforms) {
+        libraryConfig.platforms[platform] ??= config!;
+      }
+
+      if (!dryRun) saveConfig(configPath, libraryConfig);
+      changes.push({change: 'appended', file: LIBRARY_CONFIG_FILE});
+    }
+
+    return changes;
+  } finally {
+    fs.rmSync(tmp, {force: true, recursive: true});
+  }
+}
@@ -1,13 +1,15 @@
-import { confirm , select } from '@clack/prompts';
-import { spawn } from 'node:child_process';
 import fs from 'node:fs';
 import path from 'node:path';
 
 import {defaultLogger} from "../../logger.js";
 import {isEmptyDir} from '../../utils/common.js'
+import {FileJournal} from '../../utils/file-journal.js';
 import { FileTemplater, type VariablesMap } from '../../utils/file-templater.js';
+import {runProcess} from '../../utils/process-runner.js';
 import { ActionRunner } from '../actions/action-runner.js';
-import { Action, ActionContext, ActionResult } from '../actions/action.js';
+import { Action, ActionContext, ActionPlan, ActionResult } from '../actions/action.js';
+import {promptConfirm, promptSelect} from '../prompts.js';
+import {lepoVersion, recordTemplateLock, TemplateLockStep, templateName} from './template-lock.js';
 import {
   checkCancel,
   getInheritanceTemplateName,
@@ -16,6 +18,23 @@ import {
   templatePath,
 } from './template.js';
 
+/**
+ * Replace `{{key}}` placeholders in a string
+ * @param text Text containing placeholders
+ * @param variables Variables for template replacement
+ * @returns Text with every known placeholder replaced
+ */
+function replacePlaceholders(text: string, variables: VariablesMap): string {
+  let result = text;
+  for (const [key, value] of Object.entries(variables)) {
+    const placeholder = `{{${key.trim()}}}`;
+    const regex = new RegExp(placeholder.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`), 'g');
+    result = result.replace(regex, String(value));
+  }
+
+  return result;
+}
+
 /**
  * Configuration for a single template copy operation
  */
@@ -56,6 +75,10 @@ export interface ProjectBuilderConfig {
   override?: boolean;
   /** Global package name */
   packageName?: string;
+  /** Whether to run the prepare commands of the templates, defaults to true */
+  prepareCommands?: boolean;
+  /** Root of the project the target belongs to. When set, the rendered templates are recorded in its template lock for `lepo upgrade`. */
+  projectRoot?: string;
   /** Target project directory */
   targetDir: string;
   /** Global version information */
@@ -67,6 +90,12 @@ export interface ProjectBuilderConfig {
  */
 export class ProjectBuilder {
   private config: ProjectBuilderConfig;
+  private journal = new FileJournal();
+  // Files the template steps wrote, as the templates rendered them, and the steps themselves, recorded in the template lock
+  private rendered = new Map<string, Buffer>();
+  private renderedSteps: TemplateLockStep[] = [];
+  // Files the current template step writes, read into `rendered` once the step is copied
+  private renderingFiles = new Set<string>();
   private steps: TemplateStep[] = [];
 
   constructor(config: ProjectBuilderConfig) {
@@ -120,7 +149,8 @@ export class ProjectBuilder {
     const shouldCheckEmpty = this.config.checkEmpty ?? true;
     if (shouldCheckEmpty && !this.config.override && fs.existsSync(this.config.targetDir) && !isEmptyDir(this.config.targetDir)) {
       const option = checkCancel<string>(
-        await select({
+        await promptSelect({
+          key: 'overwrite',
           message: `"${path.basename(this.config.targetDir)}" is not empty, please choose:`,
           options: [
             { label: 'Continue and override files', value: 'yes' },
@@ -134,10 +164,15 @@ export class ProjectBuilder {
       }
     }
 
+    // Record whether the target directory exists, so a rollback also removes files written by hooks
+    this.journal.mkdir(this.config.targetDir);
+
     // Execute each step in sequence
     for (let i = 0; i < this.steps.length; i++) {
       await this.executeStepWithHooks(this.steps[i], i === 0);
     }
+
+    this.recordLock();
   }
 
   /**
@@ -202,6 +237,55 @@ export class ProjectBuilder {
     return this;
   }
 
+  /**
+   * Describe the files and commands build() would produce, without touching the target directory
+   * @returns Files that would be written, prepare commands that would run and notes about hooks and prompts
+   */
+  async plan(): Promise<ActionPlan> {
+    const actionPlan: Required<ActionPlan> = { commands: [], files: [], notes: [] };
+
+    const shouldCheckEmpty = this.config.checkEmpty ?? true;
+    if (shouldCheckEmpty && !this.config.override && fs.existsSync(this.config.targetDir) && !isEmptyDir(this.config.targetDir)) {
+      actionPlan.notes.push(`Asks before writing into the non-empty directory ${this.config.targetDir}`);
+    }
+
+    for (const [index, step] of this.steps.entries()) {
+      if (step.preHook) {
+        actionPlan.notes.push(`Runs the pre hook of step ${index + 1}, which may add further steps`);
+      }
+
+      if (step.from) {
+        // Variable functions may prompt, so their placeholders are listed unresolved
+        if (typeof step.variables === 'function') {
+          actionPlan.notes.push(`Collects the variables of step ${index + 1} when it runs, file names are shown unresolved`);
+        }
+
+        this.planTemplate(step.from, step.to ? path.resolve(this.config.targetDir, step.to) : this.config.targetDir, {
+          renameFiles: step.renameFiles ?? { gitignore: '.gitignore' },
+          skipFiles: step.skipFiles ?? [],
+          variables: typeof step.variables === 'function' ? {} : step.variables ?? {},
+        }, actionPlan);
+      }
+
+      if (step.postHook) {
+        actionPlan.notes.push(`Runs the post hook of step ${index + 1}, which may add further steps`);
+      }
+    }
+
+    return {
+      commands: actionPlan.commands,
+      files: [...new Set(actionPlan.files)],
+      notes: actionPlan.notes,
+    };
+  }
+
+  /**
+   * Restore the files overwritten by the steps executed so far and remove the ones they created
+   */
+  rollback(): void {
+    this.journal.restore();
+  }
+
   /**
    * Convert builder steps to Action array
    * @returns Array of Action instances
@@ -235,10 +319,13 @@ export class ProjectBuilder {
     }
 
     // Capture the current state to avoid 'this' context issues
-    const {config} = this;
+    const {config, journal} = this;
     const steps = [...this.steps];
     const executeStep = this.executeStep.bind(this);
     const executeStepWithHooks = this.executeStepWithHooks.bind(this);
+    const plan = this.plan.bind(this);
+    const recordLock = this.recordLock.bind(this);
+    const rollback = this.rollback.bind(this);
 
     defaultLogger.info(`Building project with ${steps.length} steps`)
 
@@ -250,7 +337,8 @@ export class ProjectBuilder {
         // Check if target directory is empty if required
         if (shouldCheckEmpty && !isEmptyDir(config.targetDir)) {
             const shouldContinue = checkCancel<boolean>(
-              await confirm({
+              await promptConfirm({
+                key: 'overwrite',
                 message: `Target directory ${config.targetDir} is not empty. Continue?`,
               }),
             );
@@ -259,18 +347,24 @@ export class ProjectBuilder {
             }
           }
 
+        journal.mkdir(config.targetDir);
+
         // Execute all steps sequentially
         for (const [i, step] of steps.entries()) {
           const isFirstStep = i === 0;
           await executeStepWithHooks(step, isFirstStep, { collectOutputPaths: false, executeStep });
         }
 
+        recordLock();
+
         return {
           outputPaths: [config.targetDir],
           result: undefined,
         };
       },
       name: name ?? 'project-builder',
+      plan,
+      rollback,
     };
   }
 
@@ -310,7 +404,8 @@ export class ProjectBuilder {
     // Check if directory exists and is not empty
     if (checkEmpty && !override && fs.existsSync(to) && !isEmptyDir(to)) {
       const option = checkCancel<string>(
-        await select({
+        await promptSelect({
+          key: 'overwrite',
           message: `"${path.basename(to)}" is not empty, please choose:`,
           options: [
             { label: 'Continue and override files', value: 'yes' },
@@ -327,7 +422,7 @@ export class ProjectBuilder {
     // Skip local files
     const allSkipFiles = new Set(['dist', 'node_modules', ...skipFiles]);
 
-    fs.mkdirSync(to, { recursive: true });
+    this.journal.mkdir(to);
 
     for (const file of fs.readdirSync(from)) {
       // Calculate the relative path for this file
@@ -341,23 +436,13 @@ export class ProjectBuilder {
       }
 
       const srcFile = path.resolve(from, file);
-      let distFileName = renameFiles[file] || file;
-      
       // Replace variables in file name
-      for (const key in variables) {
-        if (Object.hasOwn(variables, key)) {
-          const placeholder = `{{${key.trim()}}}`;
-          const regex = new RegExp(placeholder.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`), 'g');
-          distFileName = distFileName.replace(regex, String(variables[key]));
-        }
-      }
-      
-      const distFile = path.resolve(to, distFileName);
+      const distFile = path.resolve(to, replacePlaceholders(renameFiles[file] || file, variables));
       
       // Ensure parent directories exist for multi-level paths
       const distDir = path.dirname(distFile);
       if (distDir !== to) {
-        fs.mkdirSync(distDir, { recursive: true });
+        this.journal.mkdir(distDir);
       }
 
       const stat = fs.statSync(srcFile);
@@ -377,8 +462,12 @@ export class ProjectBuilder {
         const targetPackage = path.resolve(to, 'package.json');
 
         if (isMergePackageJson && fs.existsSync(targetPackage)) {
+          this.journal.track(targetPackage);
+          this.renderingFiles.add(targetPackage);
           this.mergePackageJson(targetPackage, srcFile);
         } else {
+          this.journal.track(distFile);
+          this.renderingFiles.add(distFile);
           fs.copyFileSync(srcFile, distFile);
           if (Object.keys(variables).length > 0) {
             await FileTemplater.replaceInFileAndUpdate(distFile, variables);
@@ -388,6 +477,8 @@ export class ProjectBuilder {
         }
       } else {
         // Copy file and replace variables in content
+        this.journal.track(distFile);
+        this.renderingFiles.add(distFile);
         fs.copyFileSync(srcFile, distFile);
         
         // Replace variables in file content if variables are provided
@@ -419,7 +510,8 @@ export class ProjectBuilder {
         const shouldCheckEmpty = this.config.checkEmpty ?? true;
         if (shouldCheckEmpty && !this.config.override && fs.existsSync(this.config.targetDir) && !isEmptyDir(this.config.targetDir)) {
           const option = checkCancel<string>(
-            await select({
+            await promptSelect({
+              key: 'overwrite',
               message: `"${path.basename(this.config.targetDir)}" is not empty, please choose:`,
               options: [
                 { label: 'Continue and override files', value: 'yes' },
@@ -458,7 +550,8 @@ export class ProjectBuilder {
       description: stepDescription,
       execute: async (_context: ActionContext): Promise<ActionResult> => {
         const outputPaths = await this.executeStepWithHooks(step, index === 0);
-        
+        this.recordLock();
+
         return {
           crucialOutputPaths: step.from ? outputPaths : undefined,
           outputPaths,
@@ -466,6 +559,7 @@ export class ProjectBuilder {
         };
       },
       name: stepName,
+      rollback: () => this.rollback(),
     };
   }
 
@@ -475,34 +569,8 @@ export class ProjectBuilder {
    * @param cwd Working directory for the command
    */
   private async executeCommand(command: string, cwd: string): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const child = spawn(command, {
-        cwd,
-        shell: true,
-        stdio: 'pipe',
-      });
-
-      child.stdout?.on('data', (data) => {
-        defaultLogger.info(data.toString().trim());
-      });
-      
-      child.stderr?.on('data', (data) => {
-        defaultLogger.warn(data.toString().trim());
-      });
-
-      child.on('close', (code) => {
-        if (code === 0) {
-          defaultLogger.info(`Command finished successfully: ${command}`);
-          resolve();
-        } else {
-          reject(new Error(`Command exited with code ${code}: ${command}`));
-        }
-      });
-
-      child.on('error', (err) => {
-        reject(new Error(`Failed to execute command ${command}: ${err.message}`));
-      });
-    });
+    await runProcess(command, {cwd, logger: defaultLogger, shell: true});
+    defaultLogger.info(`Command finished successfully: ${command}`);
   }
 
   /**
@@ -527,11 +595,7 @@ export class ProjectBuilder {
         // Replace variables in command content
          if (Object.keys(variables).length > 0) {
            try {
-             for (const [key, value] of Object.entries(variables)) {
-               const placeholder = `{{${key.trim()}}}`;
-               const regex = new RegExp(placeholder.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`), 'g');
-               commandContent = commandContent.replace(regex, String(value));
-             }
+             commandContent = replacePlaceholders(commandContent, variables);
            } catch (error: unknown) {
              defaultLogger.warn(`Failed to replace variables in command: ${error}`);
            }
@@ -587,9 +651,23 @@ export class ProjectBuilder {
     };
 
     await this.copyTemplateWithVariables(mergedConfig);
-    
+    // Hooks and prepare commands may edit the files afterwards, `lepo upgrade` only renders the templates again
+    for (const file of this.renderingFiles) {
+      if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+        this.rendered.set(file, fs.readFileSync(file));
+      }
+    }
+
+    this.renderingFiles.clear();
+    const template = templateName(step.from);
+    if (template) {
+      this.renderedSteps.push({ template, to: step.to, variables: resolvedVariables });
+    }
+
     // Execute prepare commands after copying template
-    await this.executePrepareCommands(targetPath, resolvedVariables);
+    if (this.config.prepareCommands ?? true) {
+      await this.executePrepareCommands(targetPath, resolvedVariables);
+    }
   }
 
   /**
@@ -745,6 +823,53 @@ export class ProjectBuilder {
     fs.writeFileSync(targetPackage, `${JSON.stringify(mergedJson, null, 2)}\n`);
   }
 
+  /**
+   * Collect the files and prepare commands a template copy would produce, mirroring copyTemplateWithVariables
+   * @param from Source template directory
+   * @param to Target directory
+   * @param options Copy options
+   * @param options.relativePath Relative path from the root template directory
+   * @param options.renameFiles File rename mappings
+   * @param options.skipFiles Files to skip during copying
+   * @param options.variables Variables for template replacement
+   * @param actionPlan Plan to append to
+   */
+  private planTemplate(from: string, to: string, options: {
+    relativePath?: string;
+    renameFiles: Record<string, string>;
+    skipFiles: string[];
+    variables: VariablesMap;
+  }, actionPlan: Required<ActionPlan>): void {
+    if (!fs.existsSync(from)) {
+      throw new Error(`Source template directory does not exist: ${from}`);
+    }
+
+    const { relativePath = '', renameFiles, skipFiles, variables } = options;
+    const allSkipFiles = new Set(['dist', 'node_modules', ...skipFiles]);
+
+    for (const file of fs.readdirSync(from)) {
+      const currentRelativePath = relativePath ? path.join(relativePath, file) : file;
+      if (allSkipFiles.has(file) || allSkipFiles.has(currentRelativePath) || isInheritanceFile(file)) {
+        continue;
+      }
+
+      const srcFile = path.resolve(from, file);
+      const distFile = path.resolve(to, replacePlaceholders(renameFiles[file] || file, variables));
+
+      if (fs.statSync(srcFile).isDirectory()) {
+        this.planTemplate(srcFile, distFile, { ...options, relativePath: currentRelativePath }, actionPlan);
+      } else if (isPrepareCommandFile(file)) {
+        // Prepare command files are executed and removed right after copying
+        const command = replacePlaceholders(fs.readFileSync(srcFile, 'utf8').trim(), variables);
+        if (command) {
+          actionPlan.commands.push(`${command} (in ${path.dirname(distFile)})`);
+        }
+      } else {
+        actionPlan.files.push(distFile);
+      }
+    }
+  }
+
   /**
    * Process inheritance files in template directory with recursive support
    * @param templateDir Path to the template directory
@@ -824,6 +949,24 @@ export class ProjectBuilder {
     return inheritanceSteps;
   }
 
+  /**
+   * Record the templates rendered so far in the template lock of the project, if the builder knows the project
+   */
+  private recordLock(): void {
+    const { packageName, projectRoot, targetDir, version } = this.config;
+    if (!projectRoot || this.renderedSteps.length === 0) {
+      return;
+    }
+
+    recordTemplateLock(projectRoot, targetDir, {
+      lepoVersion: lepoVersion(),
+      packageName,
+      rendered: this.rendered,
+      steps: this.renderedSteps,
+      version,
+    }, this.journal);
+  }
+
   /**
    * Update package.json with version and name information
    */
@@ -0,0 +1,156 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import {fileURLToPath} from 'node:url';
+
+import {projectCacheDir} from '../../cache.js';
+import {FileJournal} from '../../utils/file-journal.js';
+import {VariablesMap} from '../../utils/file-templater.js';
+import {templatePath} from './template.js';
+
+export const TEMPLATE_LOCK_FILE = 'template-lock.json';
+// Files as the templates rendered them, named by their hash. They are the base of the three-way merge of `lepo upgrade`.
+export const TEMPLATE_BASE_DIR = 'template-base';
+
+// A template copied by a ProjectBuilder step
+export interface TemplateLockStep {
+  template: string; // Template name, e.g. `app-common-android-kotlin`
+  to?: string; // Optional: directory of the step, relative to the target of the builder
+  variables: VariablesMap;
+}
+
+// What a ProjectBuilder rendered into its target directory
+export interface TemplateLockEntry {
+  files: Record<string, string>; // Rendered files, relative to the project root, and the hash of their content
+  lepoVersion: string; // Version of lepo whose templates were rendered
+  packageName?: string; // Optional: name written to the package.json files of the templates
+  steps: TemplateLockStep[];
+  version?: Record<string, string> | string; // Optional: versions written to the package.json files of the templates
+}
+
+export interface TemplateLock {
+  entries: Record<string, TemplateLockEntry>; // By target directory, relative to the project root
+  lockfileVersion: 1;
+}
+
+const TEMPLATES_ROOT = path.dirname(templatePath('app-common-react-ts'));
+
+/**
+ * Version of lepo, whose templates are rendered
+ * @returns The version of the package.json of lepo
+ */
+export function lepoVersion(): string {
+  // src/core/project-builder or dist/core/project-builder, the package.json is three levels up from both
+  const packageJson = fileURLToPath(new URL('../../../package.json', import.meta.url));
+  return JSON.parse(fs.readFileSync(packageJson, 'utf8')).version;
+}
+
+/**
+ * Name of a template lepo ships, as `templatePath` takes it
+ * @param templateDir Directory of the template
+ * @returns The name, or undefined for templates from elsewhere, which cannot be upgraded
+ */
+export function templateName(templateDir: string): string | undefined {
+  const resolved = path.resolve(templateDir);
+  if (path.dirname(resolved) !== TEMPLATES_ROOT) return undefined;
+  return path.basename(resolved).replace(/^template-/, '');
+}
+
+export function hashContent(content: Buffer | string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function lockPath(projectRoot: string): string {
+  return path.join(projectCacheDir(projectRoot), TEMPLATE_LOCK_FILE);
+}
+
+/**
+ * Read .lepo/template-lock.json
+ * @param projectRoot Root of the project
+ * @returns The lock, or undefined when the project was not created by a lepo that records one
+ */
+export function readTemplateLock(projectRoot: string): TemplateLock | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath(projectRoot), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write .lepo/template-lock.json
+ * @param projectRoot Root of the project
+ * @param lock The lock
+ * @param journal Optional: records the previous lock, so a rollback restores it
+ */
+export function writeTemplateLock(projectRoot: string, lock: TemplateLock, journal?: FileJournal): void {
+  const file = lockPath(projectRoot);
+  fs.mkdirSync(path.dirname(file), {recursive: true});
+  journal?.track(file);
+  fs.writeFileSync(file, `${JSON.stringify(lock, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Keep a rendered file as the base of later merges
+ * @param projectRoot Root of the project
+ * @param content Content of the file as the template rendered it
+ * @param journal Optional: records the copy, so a rollback removes it
+ * @returns The hash the content is stored under
+ */
+export function saveTemplateBase(projectRoot: string, content: Buffer, journal?: FileJournal): string {
+  const hash = hashContent(content);
+  const file = path.join(projectCacheDir(projectRoot), TEMPLATE_BASE_DIR, hash);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    journal?.track(file);
+    fs.writeFileSync(file, content);
+  }
+
+  return hash;
+}
+
+/**
+ * Whether a rendered file was kept by saveTemplateBase
+ * @param projectRoot Root of the project
+ * @param hash Hash of the content
+ * @returns True when the content is there
+ */
+export function hasTemplateBase(projectRoot: string, hash: string): boolean {
+  return fs.existsSync(path.join(projectCacheDir(projectRoot), TEMPLATE_BASE_DIR, hash));
+}
+
+/**
+ * Read a rendered file kept by saveTemplateBase
+ * @param projectRoot Root of the project
+ * @param hash Hash of the content
+ * @returns The content, or undefined when it was not kept
+ */
+export function readTemplateBase(projectRoot: string, hash: string): Buffer | undefined {
+  const file = path.join(projectCacheDir(projectRoot), TEMPLATE_BASE_DIR, hash);
+  return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+}
+
+/**
+ * Record what a builder rendered into a target directory, replacing the previous entry of the target
+ * @param projectRoot Root of the project
+ * @param target Directory the builder rendered into
+ * @param build Templates, variables and versions of the build
+ * @param build.rendered Files the templates produced by absolute path, with the content the templates rendered
+ * @param journal Optional: records the written files, so a rollback restores them
+ */
+export function recordTemplateLock(
+  projectRoot: string,
+  target: string,
+  build: Omit<TemplateLockEntry, 'files'> & {rendered: Map<string, Buffer>},
+  journal?: FileJournal,
+): void {
+  const {rendered, ...entry} = build;
+  const hashes: Record<string, string> = {};
+  for (const [file, content] of rendered) {
+    hashes[path.relative(projectRoot, file).split(path.sep).join('/')] = saveTemplateBase(projectRoot, content, journal);
+  }
+
+  const lock: TemplateLock = readTemplateLock(projectRoot) ?? {entries: {}, lockfileVersion: 1};
+  lock.entries[path.relative(projectRoot, target).split(path.sep).join('/') || '.'] = {...entry, files: hashes};
+  writeTemplateLock(projectRoot, lock, journal);
+}
@@ -0,0 +1,194 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {PROJECT_CACHE_DIR_NAME} from '../../cache.js';
+import {listFiles} from '../../utils/common.js';
+import {VariablesMap} from '../../utils/file-templater.js';
+import {mergeThreeWay} from '../../utils/three-way-merge.js';
+import {DEFAULT_COMPONENT_VARIABLES} from './extension-component.js';
+import {ProjectBuilder} from './project-builder.js';
+import {
+  hashContent,
+  hasTemplateBase,
+  lepoVersion,
+  readTemplateBase,
+  readTemplateLock,
+  saveTemplateBase,
+  TEMPLATE_BASE_DIR,
+  TEMPLATE_LOCK_FILE,
+  TemplateLockEntry,
+  writeTemplateLock,
+} from './template-lock.js';
+import {isPrepareCommandFile, templatePath} from './template.js';
+
+// Where the lock and the bases are, as the messages name them
+const LOCK_PATH = `${PROJECT_CACHE_DIR_NAME}/${TEMPLATE_LOCK_FILE}`;
+const BASE_PATH = `${PROJECT_CACHE_DIR_NAME}/${TEMPLATE_BASE_DIR}`;
+
+// What the upgrade did to a file of the project
+export type FileChange =
+  | 'added' // New in the template, written
+  | 'conflict' // Changed by you and by the template differently, marked in the file, or kept as it is for binary files
+  | 'deleted' // Deleted by you and changed by the template, left deleted
+  | 'kept' // Dropped by the template but changed by you, kept
+  | 'merged' // Changed by you and by the template, both changes merged
+  | 'removed' // Dropped by the template, deleted
+  | 'updated'; // Changed by the template only, overwritten
+
+export interface UpgradeChange {
+  change: FileChange;
+  conflicts?: number; // Optional: conflicting regions marked in the file
+  file: string; // Relative to the project root
+}
+
+export interface UpgradeResult {
+  changes: UpgradeChange[];
+  from: string[]; // Versions of lepo the project was rendered with
+  to: string;
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+// Variables holding the lepo version the project was created with follow lepo to the new version
+function followVersion(variables: VariablesMap, from: string, to: string): VariablesMap {
+  return Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, value === from ? to : value]));
+}
+
+/**
+ * Render the templates of a lock entry again, as the current lepo ships them
+ * @param entry The lock entry
+ * @param target Directory to render into
+ * @param version Version of lepo
+ */
+async function renderEntry(entry: TemplateLockEntry, target: string, version: string): Promise<void> {
+  const builder = new ProjectBuilder({
+    checkEmpty: false,
+    packageName: entry.packageName,
+    // Prepare commands install tools and generate files the templates do not own
+    prepareCommands: false,
+    targetDir: target,
+    version: typeof entry.version === 'string' ? version : entry.version,
+  });
+  for (const step of entry.steps) {
+    const from = templatePath(step.template);
+    if (!fs.existsSync(from)) {
+      throw new Error(`lepo ${version} no longer ships the ${step.template} template, the project cannot be upgraded`);
+    }
+
+    // Locks written before the extension templates named their classes lack the class name variables
+    const variables = {...DEFAULT_COMPONENT_VARIABLES, ...followVersion(step.variables, entry.lepoVersion, version)};
+    builder.addStep({from, to: step.to, variables});
+  }
+
+  await builder.build();
+}
+
+/**
+ * Merge the new render of a file into the project
+ * @param projectRoot Root of the project
+ * @param file File, relative to the project root
+ * @param next The file as the new templates render it
+ * @param baseHash Hash of the file as the old templates rendered it, undefined when it is new
+ * @returns The change, and the content to write unless the file is left as it is
+ */
+function upgradeFile(projectRoot: string, file: string, next: Buffer, baseHash: string | undefined): {content?: Buffer | string; result?: UpgradeChange} {
+  const absolute = path.join(projectRoot, file);
+  if (!fs.existsSync(absolute)) {
+    if (baseHash === undefined) return {content: next, result: {change: 'added', file}};
+    return baseHash === hashContent(next) ? {} : {result: {change: 'deleted', file}};
+  }
+
+  const current = fs.readFileSync(absolute);
+  const currentHash = hashContent(current);
+  if (currentHash === hashContent(next)) return {};
+  if (currentHash === baseHash) return {content: next, result: {change: 'updated', file}};
+
+  const base = baseHash === undefined ? undefined : readTemplateBase(projectRoot, baseHash);
+  // Only you changed it
+  if (base?.equals(next)) return {};
+  if (isBinary(current) || isBinary(next)) return {result: {change: 'conflict', file}};
+
+  const merged = mergeThreeWay(base?.toString('utf8') ?? '', current.toString('utf8'), next.toString('utf8'), {
+    ours: 'yours',
+    theirs: `template ${lepoVersion()}`,
+  });
+  return {
+    content: merged.text,
+    result: merged.conflicts > 0 ? {change: 'conflict', conflicts: merged.conflicts, file} : {change: 'merged', file},
+  };
+}
+
+/**
+ * Upgrade the files a project got from the lepo templates to the templates of the current lepo. Files you did not
+ * change are overwritten, files you changed are merged three-way with the render recorded in the template lock.
+ * Conflicts are marked in the files, nothing you changed is overwritten.
+ * @param projectRoot Root of the project
+ * @param options Upgrade options
+ * @param options.dryRun Optional: report the changes without writing them
+ * @returns The changed files and the versions upgraded from and to
+ */
+export async function upgradeTemplates(projectRoot: string, options: {dryRun?: boolean} = {}): Promise<UpgradeResult> {
+  const lock = readTemplateLock(projectRoot);
+  if (!lock) {
+    throw new Error(`The project has no template lock at ${LOCK_PATH}, it cannot be upgraded. Either it was created by a lepo that did not record one, or the lock was not committed with the project.`);
+  }
+
+  // Without the files as they were rendered, the changes you made cannot be told from those of the templates
+  const missingBases = Object.values(lock.entries).flatMap(entry => Object.entries(entry.files)).filter(([, hash]) => !hasTemplateBase(projectRoot, hash));
+  if (missingBases.length > 0) {
+    throw new Error(`${missingBases.length} file(s) of the template lock, e.g. ${missingBases[0][0]}, have no base in ${BASE_PATH}, the project cannot be upgraded. Commit ${LOCK_PATH} and ${BASE_PATH}/ with the project.`);
+  }
+
+  const version = lepoVersion();
+  const changes: UpgradeChange[] = [];
+  const from = [...new Set(Object.values(lock.entries).map(entry => entry.lepoVersion))];
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'lepo-upgrade-'));
+  try {
+    for (const [index, [target, entry]] of Object.entries(lock.entries).entries()) {
+      // Each render mirrors the project, its paths relative to the render root are those of the lock
+      const renderRoot = path.join(tmp, String(index));
+      await renderEntry(entry, path.join(renderRoot, target), version);
+      const files: Record<string, string> = {};
+      for (const rendered of listFiles(path.join(renderRoot, target))) {
+        if (isPrepareCommandFile(rendered)) continue;
+        const file = path.relative(renderRoot, rendered).split(path.sep).join('/');
+        const next = fs.readFileSync(rendered);
+        const {content, result} = upgradeFile(projectRoot, file, next, entry.files[file]);
+        if (result) changes.push(result);
+        if (options.dryRun) continue;
+        if (content !== undefined) {
+          fs.mkdirSync(path.dirname(path.join(projectRoot, file)), {recursive: true});
+          fs.writeFileSync(path.join(projectRoot, file), content);
+        }
+
+        files[file] = saveTemplateBase(projectRoot, next);
+      }
+
+      for (const [file, hash] of Object.entries(entry.files)) {
+        const absolute = path.join(projectRoot, file);
+        if (fs.existsSync(path.join(renderRoot, file)) || !fs.existsSync(absolute)) continue;
+        const unchanged = hashContent(fs.readFileSync(absolute)) === hash;
+        changes.push({change: unchanged ? 'removed' : 'kept', file});
+        if (unchanged && !options.dryRun) fs.rmSync(absolute);
+      }
+
+      if (!options.dryRun) {
+        lock.entries[target] = {
+          ...entry,
+          files,
+          lepoVersion: version,
+          steps: entry.steps.map(step => ({...step, variables: followVersion(step.variables, entry.lepoVersion, version)})),
+        };
+      }
+    }
+
+    if (!options.dryRun) writeTemplateLock(projectRoot, lock);
+  } finally {
+    fs.rmSync(tmp, {force: true, recursive: true});
+  }
+
+  return {changes, from, to: version};
+}
@@ -0,0 +1,213 @@
+import {
+  confirm,
+  type ConfirmOptions,
+  isCancel,
+  multiselect,
+  type MultiSelectOptions,
+  type Option,
+  password,
+  type PasswordOptions,
+  select,
+  type SelectOptions,
+  text,
+  type TextOptions,
+} from '@clack/prompts';
+
+import {readJSON} from '../utils/common.js';
+import {activeInteractionBroker} from './actions/interaction-broker.js';
+
+// Prompts that have a flag of their own, the flag name doubles as the key in the answers file
+export const ANSWER_FLAGS = ['android-package', 'bundle-id', 'device', 'device-type', 'ios-component-name', 'platforms', 'type'] as const;
+
+// Answers to prompts, by prompt key. Values are strings, booleans or lists for multiple choice prompts.
+export type PromptAnswers = Record<string, unknown>;
+
+// Where answers come from, see `configurePrompts`
+interface PromptSettings {
+  answers: PromptAnswers;
+  nonInteractive: boolean;
+}
+
+// Every prompt is identified by a stable key, so it can be answered from a flag or the answers file
+interface PromptKey {
+  key: string;
+}
+
+export type PromptTextOptions = PromptKey & TextOptions;
+export type PromptConfirmOptions = ConfirmOptions & PromptKey;
+export type PromptSelectOptions<Value> = PromptKey & SelectOptions<Value> & {
+  matches?(value: Value, answer: string): boolean; // Optional: whether an answer picks an option, defaults to its value or label
+  toAnswer?(value: Value): string; // Optional: the answer that picks an option again, recorded for replay. Defaults to its value.
+};
+export type PromptMultiSelectOptions<Value> = MultiSelectOptions<Value> & PromptKey & {
+  matches?(value: Value, answer: string): boolean;
+  toAnswer?(value: Value): string;
+};
+
+/**
+ * Thrown in non-interactive mode when a prompt has neither an answer nor a default
+ */
+export class MissingAnswerError extends Error {
+  constructor(readonly key: string, message: string) {
+    const hint = (ANSWER_FLAGS as readonly string[]).includes(key)
+      ? `pass --${key} or add "${key}" to the answers file`
+      : `add "${key}" to the answers file`;
+    super(`No answer for "${message}" in non-interactive mode, ${hint}`);
+    this.name = 'MissingAnswerError';
+  }
+}
+
+let settings: PromptSettings = {answers: {}, nonInteractive: false};
+
+/**
+ * Set up where prompts take their answers from, before a command asks anything
+ * @param flags Parsed command flags
+ * @param flags.answers Optional: path of a JSON file mapping prompt keys to answers
+ * @param flags.ci Optional: same as `yes`
+ * @param flags.yes Optional: never prompt, use defaults and fail when a prompt has no answer
+ */
+export async function configurePrompts(flags: {[flag: string]: unknown; answers?: string; ci?: boolean; yes?: boolean}): Promise<void> {
+  const answers: PromptAnswers = flags.answers ? await readJSON(flags.answers) : {};
+  // Flags take precedence over the answers file
+  for (const flag of ANSWER_FLAGS) {
+    if (flags[flag] !== undefined) answers[flag] = flags[flag];
+  }
+
+  settings = {
+    answers,
+    // Without a terminal, an interactive prompt would wait forever
+    nonInteractive: Boolean(flags.yes || flags.ci) || !process.stdin.isTTY,
+  };
+}
+
+/**
+ * Forget the answers and go back to interactive prompts
+ */
+export function resetPrompts(): void {
+  settings = {answers: {}, nonInteractive: false};
+}
+
+// Show a prompt, through the broker of the running pipeline if there is one
+async function ask<T>(message: string, prompt: () => Promise<T>): Promise<T> {
+  const broker = activeInteractionBroker();
+  return broker ? broker.ask(message, prompt) : prompt();
+}
+
+// Remember an answer so the run can be replayed, cancelled prompts have none
+function record<T>(key: string, answer: symbol | T, toAnswer: (value: T) => unknown = value => value): symbol | T {
+  if (!isCancel(answer)) activeInteractionBroker()?.record(key, toAnswer(answer as T));
+  return answer;
+}
+
+function optionLabel<Value>(option: Option<Value>): string {
+  return (option as {label?: string}).label ?? String(option.value);
+}
+
+function findOption<Value>(prompt: Pick<PromptSelectOptions<Value>, 'matches' | 'message' | 'options'>, answer: unknown): Value {
+  const match = prompt.options.find(option => (prompt.matches
+    ? prompt.matches(option.value, String(answer))
+    : String(option.value) === String(answer) || optionLabel(option) === String(answer)));
+  if (!match) {
+    throw new Error(`Invalid answer "${answer}" for "${prompt.message}", expected one of: ${prompt.options.map(option => optionLabel(option)).join(', ')}`);
+  }
+
+  return match.value;
+}
+
+/**
+ * Ask for a line of text
+ * @param options clack text options and the key of the prompt
+ * @returns The answer, or the cancel symbol when the user pressed Ctrl+C
+ */
+export async function promptText(options: PromptTextOptions): Promise<string | symbol> {
+  const {answers, nonInteractive} = settings;
+  const answer = answers[options.key] === undefined ? undefined : String(answers[options.key]);
+  if (answer !== undefined || nonInteractive) {
+    const value = answer ?? options.defaultValue ?? options.initialValue;
+    if (value === undefined) throw new MissingAnswerError(options.key, options.message);
+    const invalid = options.validate?.(value);
+    if (invalid) throw new Error(`Invalid answer "${value}" for "${options.message}": ${invalid instanceof Error ? invalid.message : invalid}`);
+    return record(options.key, value);
+  }
+
+  return record(options.key, await ask(options.message, () => text(options)));
+}
+
+/**
+ * Ask a yes or no question
+ * @param options clack confirm options and the key of the prompt
+ * @returns The answer, or the cancel symbol when the user pressed Ctrl+C
+ */
+export async function promptConfirm(options: PromptConfirmOptions): Promise<boolean | symbol> {
+  const {answers, nonInteractive} = settings;
+  const answer = answers[options.key];
+  if (answer !== undefined) {
+    return record(options.key, answer === true || /^(y|yes|true)$/i.test(String(answer)));
+  }
+
+  if (nonInteractive) {
+    if (options.initialValue === undefined) throw new MissingAnswerError(options.key, options.message);
+    return record(options.key, options.initialValue);
+  }
+
+  return record(options.key, await ask(options.message, () => confirm(options)));
+}
+
+/**
+ * Ask to pick one of several options
+ * @param options clack select options and the key of the prompt
+ * @returns The value of the picked option, or the cancel symbol when the user pressed Ctrl+C
+ */
+export async function promptSelect<Value>(options: PromptSelectOptions<Value>): Promise<symbol | Value> {
+  const {answers, nonInteractive} = settings;
+  const answer = answers[options.key];
+  const toAnswer = options.toAnswer ?? ((value: Value) => value);
+  if (answer !== undefined) {
+    return record(options.key, findOption(options, answer), toAnswer);
+  }
+
+  if (nonInteractive) {
+    if (options.initialValue === undefined) throw new MissingAnswerError(options.key, options.message);
+    return record(options.key, options.initialValue, toAnswer);
+  }
+
+  return record(options.key, await ask(options.message, () => select(options)), toAnswer);
+}
+
+/**
+ * Ask to pick any number of options
+ * @param options clack multiselect options and the key of the prompt
+ * @returns The values of the picked options, or the cancel symbol when the user pressed Ctrl+C
+ */
+export async function promptMultiselect<Value>(options: PromptMultiSelectOptions<Value>): Promise<symbol | Value[]> {
+  const {answers, nonInteractive} = settings;
+  const answer = answers[options.key];
+  const toAnswers = (values: Value[]) => values.map(value => options.toAnswer?.(value) ?? value);
+  if (answer !== undefined) {
+    // A flag gives a comma separated list, the answers file a list or the same string
+    const picked = Array.isArray(answer) ? answer : String(answer).split(',').map(item => item.trim()).filter(Boolean);
+    return record(options.key, picked.map(item => findOption(options, item)), toAnswers);
+  }
+
+  if (nonInteractive) {
+    const value = options.initialValues ?? (options.required === false ? [] : undefined);
+    if (value === undefined) throw new MissingAnswerError(options.key, options.message);
+    return record(options.key, value, toAnswers);
+  }
+
+  return record(options.key, await ask(options.message, () => multiselect(options)), toAnswers);
+}
+
+/**
+ * Ask for a secret. It is never taken from flags or the answers file, and never recorded.
+ * @param options clack password options
+ * @param envVar Environment variable that holds the secret in non-interactive runs, named in the error
+ * @returns The secret, or the cancel symbol when the user pressed Ctrl+C
+ */
+export async function promptPassword(options: PasswordOptions, envVar: string): Promise<string | symbol> {
+  if (settings.nonInteractive) {
+    throw new Error(`No answer for "${options.message}" in non-interactive mode, set ${envVar}`);
+  }
+
+  return ask(options.message, () => password(options));
+}
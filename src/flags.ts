@@ -0,0 +1,57 @@
+import {Flags} from '@oclif/core';
+
+import {REPORTER_FORMATS} from './core/actions/reporter.js';
+import {LOG_LEVELS} from './core/device-logs.js';
+
+// Flags shared by the commands that run an action pipeline
+export const pipelineFlags = {
+  'dry-run': Flags.boolean({description: 'Print the actions, commands and files this would run or write, without changing anything'}),
+  json: Flags.boolean({description: 'Write one JSON event per line to stdout, same as --reporter=ndjson'}),
+  profile: Flags.boolean({description: 'Write a Chrome trace of the run to .lepo/profiles and print a timing summary'}),
+  reporter: Flags.string({default: 'pretty', description: 'Format of the pipeline output', options: [...REPORTER_FORMATS]}),
+};
+
+// Flags of the commands whose pipeline can continue a failed run
+export const resumeFlags = {
+  from: Flags.string({description: 'Run this action and the ones after it again, restoring the other actions from the previous run', exclusive: ['resume']}),
+  resume: Flags.boolean({description: 'Continue the previous run from the action that failed, see .lepo/state.json'}),
+};
+
+// Flags of the commands that build the Android app
+export const androidBuildFlags = {
+  release: Flags.boolean({description: 'Build a signed release APK and App Bundle, see `lepo keystore create`'}),
+};
+
+// Flags of the commands that launch the app
+export const runFlags = {
+  logs: Flags.boolean({description: 'Stream the logs of the app once it runs, see `lepo logs`'}),
+};
+
+// Flags of the commands that stream the logs of the app
+export const logFlags = {
+  level: Flags.string({default: 'verbose', description: 'Leave out log entries below this level', options: [...LOG_LEVELS]}),
+  output: Flags.string({char: 'o', description: 'Also append the log entries to this file, without colors'}),
+};
+
+// Flags of the commands that read and write the config of the project
+export const configFlags = {
+  library: Flags.boolean({description: 'Use lynx.lib.json of the extension, by default lynx.app.json is used unless the project only has lynx.lib.json'}),
+};
+
+// Flags that answer prompts up front, so a command can run without a terminal, e.g. in CI
+export const promptFlags = {
+  answers: Flags.string({description: 'JSON file with answers to prompts, keyed like the answer flags, e.g. {"android-package": "com.example.app"}'}),
+  ci: Flags.boolean({description: 'Same as --yes'}),
+  yes: Flags.boolean({char: 'y', description: 'Never prompt: use the given answers or the defaults, and fail when a prompt has neither'}),
+};
+
+// Answers to single prompts, see `ANSWER_FLAGS`
+export const answerFlags = {
+  'android-package': Flags.string({description: 'Android package name, e.g. com.example.app'}),
+  'bundle-id': Flags.string({description: 'iOS bundle id, e.g. com.example.App'}),
+  device: Flags.string({description: 'Id or name of the device, emulator, AVD or simulator to run on, see `lepo devices`'}),
+  'device-type': Flags.string({description: 'Kind of device to pick from when --device is not given, simulator includes Android emulators and AVDs', options: ['real-device', 'simulator']}),
+  'ios-component-name': Flags.string({description: 'Name of the iOS component of an extension'}),
+  platforms: Flags.string({description: 'Comma separated native platforms of an extension, e.g. android,ios'}),
+  type: Flags.string({description: 'Extension type', options: ['element', 'module', 'service']}),
+};
@@ -1,7 +1,9 @@
-import {isCancel, text} from '@clack/prompts';
+import {isCancel} from '@clack/prompts';
+import path from 'node:path';
 
 import {PlatformConfig} from "../core/config.js";
 import {templatePath} from "../core/project-builder/template.js";
+import {promptText} from "../core/prompts.js";
 import {defaultLogger} from '../logger.js';
 import {AndroidEnvUtils} from '../utils/android-env-utils.js';
 import {packageNameToCamelCase} from "../utils/common.js";
@@ -29,8 +31,9 @@ export const androidProvider: TemplateContextProvider = {
     async collectAppTemplateVariables(packageName: string): Promise<VariablesMap> {
         const appName = packageName.replaceAll('-', '').toLowerCase();
         // input package name
-        const androidPackageName: string | symbol = await text({
+        const androidPackageName: string | symbol = await promptText({
             defaultValue: `com.example.${appName}`,
+            key: 'android-package',
             message: 'Android package name for application',
             placeholder: `com.example.${appName}`,
             validate(value) {
@@ -60,8 +63,9 @@ export const androidProvider: TemplateContextProvider = {
 
     async collectExtensionTemplateVariables(packageName: string): Promise<VariablesMap> {
         const formattedPackageName = packageName.replaceAll('-', '');
-        const androidPackageName: string | symbol = await text({
+        const androidPackageName: string | symbol = await promptText({
             defaultValue: `com.example.${formattedPackageName}`,
+            key: 'android-package',
             message: 'Android package name',
             placeholder: `com.example.${formattedPackageName}`,
             validate(value) {
@@ -81,9 +85,18 @@ export const androidProvider: TemplateContextProvider = {
         };
     },
 
+    extensionTemplateVariables(config: PlatformConfig): undefined | VariablesMap {
+        const {packageName} = config;
+        return typeof packageName === 'string' ? {packageName, packagePath: packageName.replaceAll('.', '/')} : undefined;
+    },
+
     async getTemplate(): Promise<string> {
         return templatePath('app-common-android-kotlin');
     },
+
+    async planEnvironment() {
+        return new AndroidEnvUtils(defaultLogger).planEnvironment();
+    },
 };
 
 /**
@@ -104,8 +117,9 @@ export const iosProvider: TemplateContextProvider = {
     async collectAppTemplateVariables(packageName: string): Promise<VariablesMap> {
         const appName = packageName.split('-').map((part: string) => part.charAt(0).toUpperCase() + part.slice(1)).join('');
         // input bundle id
-        const bundleId: string | symbol = await text({
+        const bundleId: string | symbol = await promptText({
             defaultValue: `com.example.${appName}`,
+            key: 'bundle-id',
             message: 'iOS bundle id for application',
             placeholder: `com.example.${appName}`,
             validate(value) {
@@ -134,8 +148,9 @@ export const iosProvider: TemplateContextProvider = {
     
     async collectExtensionTemplateVariables(packageName: string): Promise<VariablesMap> {
         const formattedPackageName = packageNameToCamelCase(packageName)
-        const iosComponentName = await text({
+        const iosComponentName = await promptText({
             defaultValue: formattedPackageName,
+            key: 'ios-component-name',
             message: 'iOS component name',
             placeholder: formattedPackageName,
             validate(value) {
@@ -154,6 +169,12 @@ export const iosProvider: TemplateContextProvider = {
         };
     },
 
+    extensionTemplateVariables(config: PlatformConfig): undefined | VariablesMap {
+        // The podspec is named after the component, see collectExtensionPlatformConfig
+        const {podspecPath} = config;
+        return typeof podspecPath === 'string' ? {componentName: path.basename(podspecPath, '.podspec')} : undefined;
+    },
+
     async getTemplate(): Promise<string> {
         return templatePath('app-common-ios-swift');
     }
@@ -1,3 +1,4 @@
+import {ActionPlan} from "../core/actions/action.js";
 import {PlatformConfig} from "../core/config.js";
 import {VariablesMap} from "../utils/file-templater.js";
 
@@ -40,9 +41,22 @@ export interface TemplateContextProvider {
    */
   collectExtensionTemplateVariables(packageName: string): Promise<VariablesMap>;
 
+  /**
+   * Read back the template variables an extension was created with, from its platform config
+   * @param config The platform in lynx.lib.json
+   * @returns Template variables for this provider, undefined when the config does not tell them
+   */
+  extensionTemplateVariables?(config: PlatformConfig): undefined | VariablesMap;
+
   /**
    * Get the template path for this provider
    * @returns Template path
    */
   getTemplate(): Promise<string>;
+
+  /**
+   * Describe what checkAndPrepareEnvironment would download or install, without doing it
+   * @returns Plan of the environment preparation
+   */
+  planEnvironment?(): Promise<ActionPlan>;
 }
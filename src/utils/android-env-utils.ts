@@ -1,16 +1,19 @@
-import { spawn } from 'node:child_process';
 import fs from 'node:fs';
 import os, { arch, platform } from 'node:os';
 import path from 'node:path';
 
 import { CACHE_DIR } from '../cache.js'; // Adjusted path
+import {ActionPlan} from '../core/actions/action.js';
+import {RetryPolicy, withRetry} from '../core/actions/retry.js';
 import {Logger} from "../logger"; // Assuming utils.ts is at ../../utils.js relative to this new file
-import { downloadFile } from './common.js';
+import { downloadFile, formatCommand } from './common.js';
+import {runProcess, startProcess} from './process-runner.js';
 
-const EXPECTED_JAVA_VERSION = '17.0.1';
+export const EXPECTED_JAVA_VERSION = '17.0.1';
 const EXPECTED_CMDLINE_TOOLS_VERSION = '11076708'; // Example version, ensure this is a valid and desired one.
-const MANAGED_SDK_DIR_NAME = 'android-sdk'; // Directory name within CACHE_DIR
-const SDK_PACKAGES_TO_INSTALL = [
+export const MANAGED_SDK_DIR_NAME = 'android-sdk'; // Directory name within CACHE_DIR
+const SDK_INSTALL_POLICY: RetryPolicy = {attempts: 3, initialDelayMs: 5000};
+export const SDK_PACKAGES_TO_INSTALL = [
   "platform-tools",
   "platforms;android-34", // Using a recent API level
   "build-tools;34.0.0",   // Corresponding build tools version
@@ -19,46 +22,28 @@ const SDK_PACKAGES_TO_INSTALL = [
 ];
 
 export async function getJavaVersion(javaHomeOverride?: string): Promise<string> {
-  return new Promise<string>((resolve, reject) => {
-    const javaExecutable = javaHomeOverride ? path.join(javaHomeOverride, 'bin', 'java') : (process.env.JAVA_HOME ? path.join(process.env.JAVA_HOME, 'bin', 'java') : 'java');
-
-    // Check if java executable exists
-    // For 'java' (from PATH), direct fs.existsSync won't work easily across platforms without resolving PATH.
-    // For absolute paths, we can check.
-    if (path.isAbsolute(javaExecutable) && !fs.existsSync(javaExecutable)) {
-      // Try with .exe for windows if it's not already there
-      if (os.platform() === 'win32' && !javaExecutable.endsWith('.exe') && fs.existsSync(`${javaExecutable}.exe`)) {
-        // continue with .exe path
-      } else {
-        reject(new Error(`Java executable not found at: ${javaExecutable}`));
-      }
-    }
+  const javaExecutable = javaHomeOverride ? path.join(javaHomeOverride, 'bin', 'java') : (process.env.JAVA_HOME ? path.join(process.env.JAVA_HOME, 'bin', 'java') : 'java');
+
+  // Check if java executable exists
+  // For 'java' (from PATH), direct fs.existsSync won't work easily across platforms without resolving PATH.
+  // For absolute paths, we can check.
+  // On Windows the executable may carry a .exe suffix
+  if (path.isAbsolute(javaExecutable) && !fs.existsSync(javaExecutable)
+    && !(os.platform() === 'win32' && !javaExecutable.endsWith('.exe') && fs.existsSync(`${javaExecutable}.exe`))) {
+    throw new Error(`Java executable not found at: ${javaExecutable}`);
+  }
 
-    const child = spawn(javaExecutable, ['-version'], {
-      shell: os.platform() === 'win32', // Use shell on Windows for better PATH resolution if 'java' is used directly
-      stdio: 'pipe',
-    });
-    let output = '';
-    child.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-    child.stderr.on('data', (data) => { // Java version often prints to stderr
-      output += data.toString();
-    });
-    child.on('close', (code) => {
-      if (code === 0) {
-        const match = output.match(/version "(\d+\.\d+\.\d+)(?:_\d+)?"/);
-        if (match && match[1]) {
-          resolve(match[1]);
-        } else {
-          reject(new Error('Could not parse Java version from output: ' + output));
-        }
-      } else {
-        reject(new Error(`'${javaExecutable} -version' exited with code ${code}. Output: ${output}`));
-      }
-    });
-    child.on('error', (err) => reject(new Error(`Failed to start '${javaExecutable} -version': ${err.message}`)));
+  // Java prints its version to stderr
+  const {output} = await runProcess(javaExecutable, {
+    args: ['-version'],
+    shell: os.platform() === 'win32', // Use shell on Windows for better PATH resolution if 'java' is used directly
   });
+  const match = output.match(/version "(\d+\.\d+\.\d+)(?:_\d+)?"/);
+  if (!match || !match[1]) {
+    throw new Error('Could not parse Java version from output: ' + output);
+  }
+
+  return match[1];
 }
 
 export interface AndroidEnvInfo {
@@ -169,88 +154,95 @@ export class AndroidEnvUtils {
   }
 
   // Start of new method listInstalledPackages
-  private async listInstalledPackages(sdkRoot: string, sdkManagerPath: string): Promise<Set<string>> {
-    return new Promise<Set<string>>((resolve) => { // Always resolve with a Set
-      this.logger.info(`Listing installed SDK packages in ${sdkRoot} using ${sdkManagerPath}...`);
-      const listProcess = spawn(sdkManagerPath, [`--sdk_root=${sdkRoot}`, '--list_installed'], {
-        env: { ...process.env }, 
-        stdio: 'pipe',
-      });
-
-      let output = '';
-      let errorOutput = '';
-      listProcess.stdout.on('data', (data) => {
-        output += data.toString();
-      });
-      listProcess.stderr.on('data', (data) => {
-        errorOutput += data.toString();
-      });
-
-      listProcess.on('close', (code) => {
-        const installedPackages = new Set<string>();
-        if (code === 0) {
-          const lines = output.split(/\r?\n/);
-          let inInstalledSection = false;
-
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-
-            if (!inInstalledSection) {
-              // Case-insensitive check for the header
-              if (trimmedLine.toLowerCase().includes('installed packages:')) {
-                inInstalledSection = true;
-                this.logger.info(`[listInstalledPackages] Found 'Installed packages:' header. Parsing subsequent lines.`);
-              }
+  public async listInstalledPackages(sdkRoot: string, sdkManagerPath: string): Promise<Set<string>> {
+    this.logger.info(`Listing installed SDK packages in ${sdkRoot} using ${sdkManagerPath}...`);
+    let output: string;
+    try {
+      ({stdout: output} = await runProcess(sdkManagerPath, {args: [`--sdk_root=${sdkRoot}`, '--list_installed']}));
+    } catch (error: unknown) {
+      this.logger.warn(`'sdkmanager --list_installed' failed: ${error instanceof Error ? error.message : error}. Assuming no packages are verifiably installed.`);
+      return new Set<string>();
+    }
 
-              continue; // Continue until "Installed packages:" is found or end of output
-            }
+    const installedPackages = new Set<string>();
+    const lines = output.split(/\r?\n/);
+    let inInstalledSection = false;
 
-            // Now we are in the installed packages section
+    for (const line of lines) {
+      const trimmedLine = line.trim();
 
-            // Skip header line that typically starts with 'Path' (case-insensitive) or '---', or is empty
-            if (trimmedLine.toLowerCase().startsWith('path') || trimmedLine.startsWith('---') || trimmedLine === '') {
-              this.logger.info(`[listInstalledPackages] Skipping header, separator, or empty line: '${trimmedLine}'`);
-              continue;
-            }
+      if (!inInstalledSection) {
+        // Case-insensitive check for the header
+        if (trimmedLine.toLowerCase().includes('installed packages:')) {
+          inInstalledSection = true;
+          this.logger.info(`[listInstalledPackages] Found 'Installed packages:' header. Parsing subsequent lines.`);
+        }
 
-            // Attempt to parse the line as a package ID
-            // The typical format is "package.id | version | description"
-            const parts = trimmedLine.split('|');
-            if (parts.length > 0) {
-              const packageId = parts[0].trim();
-              if (packageId) { // Ensure packageId is not empty after trim
-                this.logger.info(`[listInstalledPackages] Adding package ID: '${packageId}' from line: '${trimmedLine}'`);
-                installedPackages.add(packageId);
-              } else {
-                this.logger.info(`[listInstalledPackages] Parsed empty package ID from line (trimmed first part of split was empty): '${trimmedLine}'`);
-              }
-            } else {
-              // This case should not be reached if trimmedLine is not empty, as split always returns an array with at least one element.
-              this.logger.info(`[listInstalledPackages] Line did not produce expected parts when split by '|' (this is unexpected): '${trimmedLine}'`);
-            }
-          }
+        continue; // Continue until "Installed packages:" is found or end of output
+      }
 
-          if (installedPackages.size > 0) {
-            this.logger.info(`Found installed SDK packages: ${[...installedPackages].join(', ')}`);
-          } else if (output.includes("No packages installed") || output.includes("No packages found")) {
-             this.logger.info("No SDK packages reported as installed by sdkmanager.");
-          } else {
-            this.logger.info("sdkmanager --list_installed ran successfully but no specific packages were parsed or listed.");
-            // if (output.trim()) this.logger.debug(`--list_installed stdout (first 1000 chars):\n${output.slice(0, 1000)}`);
-            // if (errorOutput.trim()) this.logger.debug(`--list_installed stderr (first 1000 chars):\n${errorOutput.slice(0, 1000)}`);
-          }
+      // Now we are in the installed packages section
+
+      // Skip header line that typically starts with 'Path' (case-insensitive) or '---', or is empty
+      if (trimmedLine.toLowerCase().startsWith('path') || trimmedLine.startsWith('---') || trimmedLine === '') {
+        this.logger.info(`[listInstalledPackages] Skipping header, separator, or empty line: '${trimmedLine}'`);
+        continue;
+      }
+
+      // Attempt to parse the line as a package ID
+      // The typical format is "package.id | version | description"
+      const parts = trimmedLine.split('|');
+      if (parts.length > 0) {
+        const packageId = parts[0].trim();
+        if (packageId) { // Ensure packageId is not empty after trim
+          this.logger.info(`[listInstalledPackages] Adding package ID: '${packageId}' from line: '${trimmedLine}'`);
+          installedPackages.add(packageId);
         } else {
-          this.logger.warn(`'sdkmanager --list_installed' command failed with code ${code}. Stdout (first 500 chars): ${output.slice(0,500)}. Stderr (first 500 chars): ${errorOutput.slice(0,500)}. Assuming no packages are verifiably installed.`);
+          this.logger.info(`[listInstalledPackages] Parsed empty package ID from line (trimmed first part of split was empty): '${trimmedLine}'`);
         }
+      } else {
+        // This case should not be reached if trimmedLine is not empty, as split always returns an array with at least one element.
+        this.logger.info(`[listInstalledPackages] Line did not produce expected parts when split by '|' (this is unexpected): '${trimmedLine}'`);
+      }
+    }
+
+    if (installedPackages.size > 0) {
+      this.logger.info(`Found installed SDK packages: ${[...installedPackages].join(', ')}`);
+    } else if (output.includes("No packages installed") || output.includes("No packages found")) {
+       this.logger.info("No SDK packages reported as installed by sdkmanager.");
+    } else {
+      this.logger.info("sdkmanager --list_installed ran successfully but no specific packages were parsed or listed.");
+      // if (output.trim()) this.logger.debug(`--list_installed stdout (first 1000 chars):\n${output.slice(0, 1000)}`);
+      // if (errorOutput.trim()) this.logger.debug(`--list_installed stderr (first 1000 chars):\n${errorOutput.slice(0, 1000)}`);
+    }
+
+    return installedPackages;
+  }
 
-        resolve(installedPackages); 
-      });
+  /**
+   * Describe the downloads and installs checkAndPrepareEnvironment would perform, without performing them
+   * @returns Plan of the environment preparation
+   */
+  public planEnvironment(): ActionPlan {
+    const managedSdkRoot = path.join(CACHE_DIR, MANAGED_SDK_DIR_NAME);
+    const cmdlineToolsDir = path.join(managedSdkRoot, 'cmdline-tools');
+    const sdkManagerPath = path.join(cmdlineToolsDir, 'bin', os.platform() === 'win32' ? 'sdkmanager.bat' : 'sdkmanager');
+    const jdkDir = path.join(CACHE_DIR, `jdk-${EXPECTED_JAVA_VERSION}`);
 
-      listProcess.on('error', (err) => {
-        this.logger.warn(`Failed to start 'sdkmanager --list_installed': ${err.message}. Assuming no packages are verifiably installed.`);
-        resolve(new Set<string>()); 
-      });
-    });
+    const notes: string[] = [];
+    if (!fs.existsSync(jdkDir)) {
+      notes.push(`Downloads JDK ${EXPECTED_JAVA_VERSION} into ${jdkDir} unless JAVA_HOME points to that version.`);
+    }
+
+    if (!fs.existsSync(sdkManagerPath)) {
+      notes.push(`Downloads Android SDK Command-line Tools ${EXPECTED_CMDLINE_TOOLS_VERSION} into ${cmdlineToolsDir}.`);
+    }
+
+    notes.push('SDK packages are only installed when missing, after accepting their licenses.');
+    return {
+      commands: [formatCommand(sdkManagerPath, [`--sdk_root=${managedSdkRoot}`, ...SDK_PACKAGES_TO_INSTALL])],
+      notes,
+    };
   }
   // End of new method listInstalledPackages
 
@@ -297,81 +289,41 @@ export class AndroidEnvUtils {
       this.logger.info(`JAVA_HOME for sdkmanager: ${process.env.JAVA_HOME}`);
 
       this.logger.info('Attempting to accept SDK licenses...');
-      await new Promise<void>((resolve, reject) => {
-        const quotedSdkManagerPath = `"${sdkManagerPath.replaceAll('"', String.raw`\"`)}"`;
-        const quotedSdkRoot = `"${sdkRoot.replaceAll('"', String.raw`\"`)}"`;
-        const licenseCommand = `yes | ${quotedSdkManagerPath} --licenses --sdk_root=${quotedSdkRoot}`;
-        this.logger.info(`Executing license acceptance command: ${licenseCommand}`);
-
-        const acceptLicensesProcess = spawn(licenseCommand, [], {
-          env: { ...process.env },
-          shell: true,
-          stdio: 'pipe',
-        });
-
-        let licOutput = '';
-        acceptLicensesProcess.stdout.on('data', (data) => {
- licOutput += data.toString(); this.logger.info(`[lic-stdout] ${data.toString().trim()}`); 
-});
-        acceptLicensesProcess.stderr.on('data', (data) => {
- licOutput += data.toString(); this.logger.info(`[lic-stderr] ${data.toString().trim()}`); 
-});
-
-        acceptLicensesProcess.on('close', (code) => {
-          this.logger.info(`sdkmanager --licenses process finished with code ${code}.`);
-          if (licOutput.length > 0) {
-              this.logger.info(`License process output sample: ${licOutput.slice(0, Math.max(0, Math.min(licOutput.length, 500)))}...`);
-          }
-
-          resolve();
-        });
-        acceptLicensesProcess.on('error', (err) => {
-          reject(new Error(`Failed to run sdkmanager --licenses: ${err.message}. Output: ${licOutput}`));
-        });
-      });
+      const quotedSdkManagerPath = `"${sdkManagerPath.replaceAll('"', String.raw`\"`)}"`;
+      const quotedSdkRoot = `"${sdkRoot.replaceAll('"', String.raw`\"`)}"`;
+      const licenseCommand = `yes | ${quotedSdkManagerPath} --licenses --sdk_root=${quotedSdkRoot}`;
+      this.logger.info(`Executing license acceptance command: ${licenseCommand}`);
+      // A failure shows up when the packages are installed, so it is only logged here
+      try {
+        await runProcess(licenseCommand, {logger: this.logger, shell: true});
+        this.logger.info('sdkmanager --licenses process finished.');
+      } catch (error: unknown) {
+        this.logger.warn(`sdkmanager --licenses failed: ${error instanceof Error ? error.message : error}`);
+      }
 
       const packagesToInstallArg = SDK_PACKAGES_TO_INSTALL.join(' ');
       this.logger.info(`Installing SDK packages: ${packagesToInstallArg} into ${sdkRoot}`);
-      await new Promise<void>((resolve, reject) => {
-        const installProcess = spawn(sdkManagerPath, [`--sdk_root=${sdkRoot}`, ...SDK_PACKAGES_TO_INSTALL], {
-          env: { ...process.env },
-          stdio: 'pipe',
-        });
-
-        let installOutput = '';
-        installProcess.stdout.on('data', (data) => {
-          const dataStr = data.toString();
-          installOutput += dataStr;
-          process.stdout.write(dataStr);
-        });
-        installProcess.stderr.on('data', (data) => {
-          const dataStr = data.toString();
-          installOutput += dataStr;
-          process.stderr.write(dataStr);
-        });
-
-        installProcess.on('close', (code) => {
-          process.stdout.write('\n');
-          if (code === 0) {
-            this.logger.info('SDK packages installed successfully.');
-            const platformToolsPath = path.join(sdkRoot, 'platform-tools');
-            if (!fs.existsSync(platformToolsPath)) {
-              this.logger.warn(`platform-tools directory not found at ${platformToolsPath} after installation. SDK might be incomplete.`);
-            }
+      await withRetry(SDK_INSTALL_POLICY, async () => {
+          // The download progress of sdkmanager goes straight to the terminal
+          const install = startProcess(sdkManagerPath, {args: [`--sdk_root=${sdkRoot}`, ...SDK_PACKAGES_TO_INSTALL], transientErrors: true});
+          install.on('output', (line, source) => (source === 'stdout' ? process.stdout : process.stderr).write(`${line}\n`));
+          try {
+            await install.done;
+          } catch (error: unknown) {
+            this.logger.warn(`Failed to install SDK packages: ${error instanceof Error ? error.message : error}`);
+            throw error;
+          }
 
-            resolve();
-          } else {
-            this.logger.warn(`sdkmanager install process exited with code ${code}.`);
-            this.logger.warn(`Install process output (first 1000 chars): ${installOutput.slice(0,1000)}`);
-            reject(new Error(`Failed to install SDK packages. sdkmanager exited with code ${code}.`));
+          this.logger.info('SDK packages installed successfully.');
+          const platformToolsPath = path.join(sdkRoot, 'platform-tools');
+          if (!fs.existsSync(platformToolsPath)) {
+            this.logger.warn(`platform-tools directory not found at ${platformToolsPath} after installation. SDK might be incomplete.`);
           }
-        });
-        installProcess.on('error', (err) => {
-          this.logger.warn(`Failed to start sdkmanager install process: ${err.message}.`);
-          this.logger.warn(`Install process output (first 1000 chars): ${installOutput.slice(0,1000)}`);
-          reject(new Error(`Failed to run sdkmanager for installing packages: ${err.message}`));
-        });
-      });
+        },
+        ({attempt, attempts, delayMs}) => {
+          this.logger.warn(`Installing SDK packages failed (attempt ${attempt}/${attempts}), retrying in ${delayMs}ms.`);
+        },
+      );
     }
 
     this.logger.info('Android SDK preparation check/process complete.');
@@ -448,42 +400,22 @@ export class AndroidEnvUtils {
     // Standard Android cmdline tools zip has a single `cmdline-tools` directory at the root.
     // So, unzipping to `CACHE_DIR` will result in `CACHE_DIR/cmdline-tools`.
 
-    await new Promise<void>((resolve, reject) => {
-      // We expect the zip to contain a 'cmdline-tools' directory at its root.
-      // We extract into sdkRoot. This should create sdkRoot/cmdline-tools.
-      this.logger.info(`Extracting ${cmdlineToolsZip} to ${sdkRoot}`);
-      const extract = spawn('unzip', ['-o', cmdlineToolsZip, '-d', sdkRoot]);
-      let stdOutput = '';
-      extract.stdout.on('data', (data) => {
- stdOutput += data; 
-});
-      extract.stderr.on('data', (data) => {
- stdOutput += data; 
-});
-
-      extract.on('close', (code) => {
-        if (code === 0) {
-          // After extraction to sdkRoot, the structure should be sdkRoot/cmdline-tools/...
-          // cmdlineToolsDir is already path.join(sdkRoot, 'cmdline-tools')
-          // sdkManagerExecutable is path.join(cmdlineToolsDir, 'bin', ...)
-          if (!fs.existsSync(sdkManagerExecutable)) {
-            this.logger.info(`Command-line Tools extraction seemed to succeed, but sdkmanager not found at ${sdkManagerExecutable}.`);
-            this.logger.info(`Directory listing for ${cmdlineToolsDir}: ${fs.existsSync(cmdlineToolsDir) ? fs.readdirSync(cmdlineToolsDir).join(', ') : 'Directory not found'}`);
-            this.logger.info(`Directory listing for ${sdkRoot}: ${fs.existsSync(sdkRoot) ? fs.readdirSync(sdkRoot).join(', ') : 'Directory not found'}`);
-            this.logger.info(`Extraction output: ${stdOutput}`);
-            return reject(new Error(`Failed to locate sdkmanager at ${sdkManagerExecutable} after extraction into ${sdkRoot}. Check zip structure and extraction path.`));
-          }
+    // We expect the zip to contain a 'cmdline-tools' directory at its root.
+    // We extract into sdkRoot. This should create sdkRoot/cmdline-tools.
+    this.logger.info(`Extracting ${cmdlineToolsZip} to ${sdkRoot}`);
+    const {output: extractOutput} = await runProcess('unzip', {args: ['-o', cmdlineToolsZip, '-d', sdkRoot]});
+    // After extraction to sdkRoot, the structure should be sdkRoot/cmdline-tools/...
+    // cmdlineToolsDir is already path.join(sdkRoot, 'cmdline-tools')
+    // sdkManagerExecutable is path.join(cmdlineToolsDir, 'bin', ...)
+    if (!fs.existsSync(sdkManagerExecutable)) {
+      this.logger.info(`Command-line Tools extraction seemed to succeed, but sdkmanager not found at ${sdkManagerExecutable}.`);
+      this.logger.info(`Directory listing for ${cmdlineToolsDir}: ${fs.existsSync(cmdlineToolsDir) ? fs.readdirSync(cmdlineToolsDir).join(', ') : 'Directory not found'}`);
+      this.logger.info(`Directory listing for ${sdkRoot}: ${fs.existsSync(sdkRoot) ? fs.readdirSync(sdkRoot).join(', ') : 'Directory not found'}`);
+      this.logger.info(`Extraction output: ${extractOutput}`);
+      throw new Error(`Failed to locate sdkmanager at ${sdkManagerExecutable} after extraction into ${sdkRoot}. Check zip structure and extraction path.`);
+    }
 
-          this.logger.info('Command-line Tools extracted successfully to:', cmdlineToolsDir);
-          resolve();
-        } else {
-          reject(new Error(`Failed to extract Command-line Tools, unzip exited with code ${code}. Output: ${stdOutput}`));
-        }
-      });
-      extract.on('error', (err) => {
-        reject(err);
-      });
-    });
+    this.logger.info('Command-line Tools extracted successfully to:', cmdlineToolsDir);
 
     try {
       fs.unlinkSync(cmdlineToolsZip);
@@ -572,60 +504,39 @@ export class AndroidEnvUtils {
     // For macOS, the structure is jdk-17.0.1.jdk/Contents/Home. tar extracts into jdk-17.0.1/
     // So we extract into jdkDir, then rename jdk-17.0.1 to jdk-17.0.1.jdk if needed.
 
-    await new Promise<void>((resolve, reject) => {
-      // For macOS, tar extracts to a folder like 'jdk-17.0.1.jdk'. We want to place this inside 'jdkDir'.
-      // For Linux/Windows, it extracts to 'jdk-17.0.1'. We also want this inside 'jdkDir'.
-      // The --strip-components=1 is usually to remove the top-level directory from the archive.
-      // Let's adjust the extraction path and handling based on typical JDK tar structures.
-      // Most JDK tars have a single top-level directory, e.g., "jdk-17.0.1"
-      const extract = spawn('tar', ['-xzvf', jdkTar, '-C', jdkDir, '--strip-components=1']);
-      
-      let stdOutput = '';
-      extract.stdout.on('data', (data) => {
-        stdOutput += data; /* Can be verbose, log selectively */
-      });
-      extract.stderr.on('data', (data) => {
-        stdOutput += data; /* Log errors */
-      });
-
-      extract.on('close', (code) => {
-        if (code === 0) {
-          // On macOS, the extracted folder (now directly in jdkDir due to strip-components) needs to be inside a .jdk folder
-          // This logic assumes the tarball's top stripped folder name matches `jdk-${EXPECTED_JAVA_VERSION}`
-          // and for macOS, we need to ensure it's `jdk-${EXPECTED_JAVA_VERSION}.jdk/Contents/Home`
-          // The current `jdkHome` variable already points to the final desired path.
-          // We need to ensure the extracted contents are moved/renamed correctly to match `jdkHome`.
-
-          // If `plat === 'macos'`, the `jdkHome` is `CACHE_DIR/jdk-17.0.1/jdk-17.0.1.jdk/Contents/Home`
-          // Tar extracts to `CACHE_DIR/jdk-17.0.1/` (after stripping one component)
-          // So, the extracted content is already in the correct parent for `jdkHome` for non-macOS.
-          // For macOS, we need to ensure the `jdk-${EXPECTED_JAVA_VERSION}.jdk` structure.
-          // The current tar extraction logic with --strip-components=1 into jdkDir should place files like bin/, lib/ etc. directly into jdkDir.
-          // This matches the structure for Linux/Windows where jdkHome = jdkDir/jdk-17.0.1 (which is now just jdkDir).
-          // For macOS, jdkHome = jdkDir/jdk-17.0.1.jdk/Contents/Home.
-          // The current setup might be slightly off if the tarball for macOS doesn't create the .jdk and Contents/Home structure itself after stripping.
-          // Let's assume for now the `jdkHome` path is correctly populated by the extraction.
-          // A common structure for macOS JDK .tar.gz is `jdk-17.0.1.jdk/Contents/Home/...` as the content.
-          // If we `tar -xzvf archive.tar.gz -C target --strip-components=1`, and archive has `somefolder/jdk-17.0.1.jdk/...`
-          // then `target` will contain `jdk-17.0.1.jdk/...`.
-          // If archive has `jdk-17.0.1.jdk/Contents/Home/...` as top level, then strip 1 means `Contents/Home/...` in target.
-          // This part is tricky and depends on exact tarball structure.
-
-          // Let's simplify: assume `jdkHome` is the correct final path. If it doesn't exist after tar, something is wrong.
-          if (!fs.existsSync(jdkHome)) {
-            this.logger.error(`JDK extraction seemed to succeed, but the target home directory ${jdkHome} was not found. Extracted output: ${stdOutput}`);
-          }
+    // For macOS, tar extracts to a folder like 'jdk-17.0.1.jdk'. We want to place this inside 'jdkDir'.
+    // For Linux/Windows, it extracts to 'jdk-17.0.1'. We also want this inside 'jdkDir'.
+    // The --strip-components=1 is usually to remove the top-level directory from the archive.
+    // Let's adjust the extraction path and handling based on typical JDK tar structures.
+    // Most JDK tars have a single top-level directory, e.g., "jdk-17.0.1"
+    const {output: extractOutput} = await runProcess('tar', {args: ['-xzvf', jdkTar, '-C', jdkDir, '--strip-components=1']});
+    // On macOS, the extracted folder (now directly in jdkDir due to strip-components) needs to be inside a .jdk folder
+    // This logic assumes the tarball's top stripped folder name matches `jdk-${EXPECTED_JAVA_VERSION}`
+    // and for macOS, we need to ensure it's `jdk-${EXPECTED_JAVA_VERSION}.jdk/Contents/Home`
+    // The current `jdkHome` variable already points to the final desired path.
+    // We need to ensure the extracted contents are moved/renamed correctly to match `jdkHome`.
+
+    // If `plat === 'macos'`, the `jdkHome` is `CACHE_DIR/jdk-17.0.1/jdk-17.0.1.jdk/Contents/Home`
+    // Tar extracts to `CACHE_DIR/jdk-17.0.1/` (after stripping one component)
+    // So, the extracted content is already in the correct parent for `jdkHome` for non-macOS.
+    // For macOS, we need to ensure the `jdk-${EXPECTED_JAVA_VERSION}.jdk` structure.
+    // The current tar extraction logic with --strip-components=1 into jdkDir should place files like bin/, lib/ etc. directly into jdkDir.
+    // This matches the structure for Linux/Windows where jdkHome = jdkDir/jdk-17.0.1 (which is now just jdkDir).
+    // For macOS, jdkHome = jdkDir/jdk-17.0.1.jdk/Contents/Home.
+    // The current setup might be slightly off if the tarball for macOS doesn't create the .jdk and Contents/Home structure itself after stripping.
+    // Let's assume for now the `jdkHome` path is correctly populated by the extraction.
+    // A common structure for macOS JDK .tar.gz is `jdk-17.0.1.jdk/Contents/Home/...` as the content.
+    // If we `tar -xzvf archive.tar.gz -C target --strip-components=1`, and archive has `somefolder/jdk-17.0.1.jdk/...`
+    // then `target` will contain `jdk-17.0.1.jdk/...`.
+    // If archive has `jdk-17.0.1.jdk/Contents/Home/...` as top level, then strip 1 means `Contents/Home/...` in target.
+    // This part is tricky and depends on exact tarball structure.
+
+    // Let's simplify: assume `jdkHome` is the correct final path. If it doesn't exist after tar, something is wrong.
+    if (!fs.existsSync(jdkHome)) {
+      this.logger.error(`JDK extraction seemed to succeed, but the target home directory ${jdkHome} was not found. Extracted output: ${extractOutput}`);
+    }
 
-          this.logger.info('JDK extracted successfully to:', jdkHome);
-          resolve();
-        } else {
-          reject(new Error(`Failed to extract JDK, tar exited with code ${code}. Output: ${stdOutput}`));
-        }
-      });
-      extract.on('error', (err) => {
-        reject(err);
-      });
-    });
+    this.logger.info('JDK extracted successfully to:', jdkHome);
 
     // Clean up downloaded tar file
     try {
@@ -0,0 +1,136 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {APP_CONFIG_FILE, Config, loadConfig, saveConfig} from '../core/config.js';
+
+// Environment variables that configure release signing. The passwords are only ever read from the environment.
+export const SIGNING_ENV = {
+  keyAlias: 'LEPO_ANDROID_KEY_ALIAS',
+  keyPassword: 'LEPO_ANDROID_KEY_PASSWORD',
+  keystore: 'LEPO_ANDROID_KEYSTORE',
+  storePassword: 'LEPO_ANDROID_KEYSTORE_PASSWORD',
+} as const;
+
+// `platforms.android.signing` of lynx.app.json, passwords do not belong there
+export interface AndroidSigningSettings {
+  keyAlias?: string;
+  keystore?: string; // Optional: path of the keystore, relative to the project root
+}
+
+export interface AndroidSigningConfig {
+  keyAlias: string;
+  keyPassword: string;
+  keystore: string; // Absolute path of the keystore
+  storePassword: string;
+}
+
+export interface AndroidVersion {
+  versionCode: number;
+  versionName: string;
+}
+
+function readSigningSettings(projectRoot: string): AndroidSigningSettings {
+  const configPath = path.join(projectRoot, APP_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return {};
+  return (loadConfig(configPath).platforms?.android?.signing ?? {}) as AndroidSigningSettings;
+}
+
+/**
+ * Keystore and key alias of release builds, from the environment or lynx.app.json, without checking them
+ * @param projectRoot Root of the project
+ * @param env Environment to read, defaults to the one of lepo
+ * @returns The keystore, as an absolute path, and the alias, when they are set
+ */
+export function signingSettings(projectRoot: string, env: NodeJS.ProcessEnv = process.env): AndroidSigningSettings {
+  const settings = readSigningSettings(projectRoot);
+  const keystore = env[SIGNING_ENV.keystore] ?? settings.keystore;
+  return {keyAlias: env[SIGNING_ENV.keyAlias] ?? settings.keyAlias, keystore: keystore ? path.resolve(projectRoot, keystore) : undefined};
+}
+
+/**
+ * Find the keystore and key that sign release builds. The keystore path and alias come from the
+ * environment or lynx.app.json, the passwords from the environment only.
+ * @param projectRoot Root of the project
+ * @param env Environment to read, defaults to the one of lepo
+ * @returns The signing config
+ */
+export function resolveSigningConfig(projectRoot: string, env: NodeJS.ProcessEnv = process.env): AndroidSigningConfig {
+  const {keyAlias, keystore} = signingSettings(projectRoot, env);
+  const storePassword = env[SIGNING_ENV.storePassword];
+  const missing = [
+    keystore ? undefined : `${SIGNING_ENV.keystore} (or platforms.android.signing.keystore in ${APP_CONFIG_FILE})`,
+    keyAlias ? undefined : `${SIGNING_ENV.keyAlias} (or platforms.android.signing.keyAlias in ${APP_CONFIG_FILE})`,
+    storePassword ? undefined : SIGNING_ENV.storePassword,
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    throw new Error(`Release builds are signed, set ${missing.join(', ')}. Run \`lepo keystore create\` to create a keystore.`);
+  }
+
+  if (!fs.existsSync(keystore as string)) {
+    throw new Error(`Keystore not found at ${keystore}`);
+  }
+
+  return {
+    keyAlias: keyAlias as string,
+    // A keystore made by keytool without -keypass uses the store password for the key
+    keyPassword: env[SIGNING_ENV.keyPassword] ?? storePassword as string,
+    keystore: keystore as string,
+    storePassword: storePassword as string,
+  };
+}
+
+/**
+ * Remember a keystore in lynx.app.json, so release builds only need the passwords
+ * @param projectRoot Root of the project
+ * @param settings Keystore path, relative to the project root, and key alias
+ * @returns False when the project has no lynx.app.json
+ */
+export function saveSigningSettings(projectRoot: string, settings: AndroidSigningSettings): boolean {
+  const configPath = path.join(projectRoot, APP_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return false;
+  const config: Config = loadConfig(configPath);
+  config.platforms ??= {};
+  config.platforms.android = {...config.platforms.android, signing: settings};
+  saveConfig(configPath, config);
+  return true;
+}
+
+/**
+ * Derive the Android version from the `version` of package.json. versionCode packs it as
+ * major * 10000 + minor * 100 + patch, so minor and patch must stay below 100.
+ * @param version Version of package.json, e.g. `1.4.2`
+ * @returns versionCode 10402 and versionName 1.4.2
+ */
+export function androidVersion(version: string): AndroidVersion {
+  const match = /^(\d+)\.(\d+)\.(\d+)/.exec(version);
+  if (!match) {
+    throw new Error(`Cannot derive an Android versionCode from version "${version}" of package.json, expected major.minor.patch`);
+  }
+
+  const [major, minor, patch] = match.slice(1).map(Number);
+  if (minor >= 100 || patch >= 100) {
+    throw new Error(`Cannot derive an Android versionCode from version "${version}" of package.json, minor and patch must be below 100`);
+  }
+
+  return {versionCode: major * 10_000 + minor * 100 + patch, versionName: version};
+}
+
+/**
+ * Gradle properties that make the Android Gradle Plugin sign the release build and override the version,
+ * without changes to build.gradle. They are passed as ORG_GRADLE_PROJECT_ variables, so the passwords
+ * never show up in a command line or log.
+ * @param signing Signing config
+ * @param version App version
+ * @returns Environment variables for the Gradle process
+ */
+export function releaseGradleEnv(signing: AndroidSigningConfig, version: AndroidVersion): NodeJS.ProcessEnv {
+  const properties: Record<string, number | string> = {
+    'android.injected.signing.key.alias': signing.keyAlias,
+    'android.injected.signing.key.password': signing.keyPassword,
+    'android.injected.signing.store.file': signing.keystore,
+    'android.injected.signing.store.password': signing.storePassword,
+    'android.injected.version.code': version.versionCode,
+    'android.injected.version.name': version.versionName,
+  };
+  return Object.fromEntries(Object.entries(properties).map(([name, value]) => [`ORG_GRADLE_PROJECT_${name}`, String(value)]));
+}
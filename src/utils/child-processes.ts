@@ -0,0 +1,78 @@
+import {ChildProcess} from 'node:child_process';
+import path from 'node:path';
+
+import {Span, startSpan} from '../core/actions/profiler.js';
+
+// Spawned processes that have not exited yet, whether they lead their own process group and their trace span
+const running = new Map<ChildProcess, {detached: boolean, span: Span}>();
+
+// Short name of a spawned command for traces, e.g. `gradlew app:assembleDebug`
+function describeCommand(child: ChildProcess): string {
+  const args = child.spawnargs;
+  // Commands spawned with `shell: true` run as `sh -c "<command>"`
+  const commandLine = args[1] === '-c' ? args.slice(2).join(' ') : args.join(' ');
+  const [command, ...rest] = commandLine.split(' ');
+  return [path.basename(command), ...rest.filter(arg => !arg.startsWith('-')).slice(0, 2)].join(' ');
+}
+
+/**
+ * Remember a spawned process until it exits, so an interrupted pipeline can stop it. When the run is
+ * profiled, the process also shows up as a span in the trace.
+ * @param child The spawned process
+ * @param options Tracking options
+ * @param options.detached Whether the process was spawned with `detached: true`, its whole process group is stopped then
+ * @returns The same process
+ */
+export function trackChildProcess<T extends ChildProcess>(child: T, options: {detached?: boolean} = {}): T {
+  const span = startSpan(describeCommand(child), 'process');
+  running.set(child, {detached: options.detached ?? false, span});
+  child.once('exit', (exitCode, signal) => {
+    running.delete(child);
+    span.end({command: child.spawnargs.join(' '), exitCode, signal});
+  });
+  child.once('error', () => {
+    running.delete(child);
+    span.end({command: child.spawnargs.join(' '), error: true});
+  });
+  return child;
+}
+
+/**
+ * Stop tracking a process that is meant to outlive the pipeline, e.g. an emulator that is reused by later runs
+ * @param child The spawned process
+ */
+export function untrackChildProcess(child: ChildProcess): void {
+  running.get(child)?.span.end({command: child.spawnargs.join(' '), detached: true});
+  running.delete(child);
+}
+
+/**
+ * Send a signal to every tracked process that is still running
+ * @param signal Signal to send
+ * @returns Number of processes that were signalled
+ */
+export function killTrackedProcesses(signal: NodeJS.Signals = 'SIGTERM'): number {
+  let killed = 0;
+  for (const [child, {detached}] of running) {
+    if (child.exitCode !== null || child.signalCode !== null || child.pid === undefined) {
+      running.delete(child);
+      continue;
+    }
+
+    try {
+      if (detached && process.platform !== 'win32') {
+        // A negative pid addresses the process group, so helpers the process started go too
+        process.kill(-child.pid, signal);
+      } else {
+        child.kill(signal);
+      }
+
+      killed++;
+    } catch {
+      // The process exited in the meantime
+      running.delete(child);
+    }
+  }
+
+  return killed;
+}
@@ -130,6 +130,19 @@ export function isEmptyDir(path: string) {
     return files.length === 0 || (files.length === 1 && files[0] === '.git');
 }
 
+/**
+ * Every file under a directory, recursively
+ * @param dir The directory
+ * @returns Paths of the files, empty when the directory does not exist
+ */
+export function listFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir, {withFileTypes: true}).flatMap(dirent => {
+        const file = path.join(dir, dirent.name);
+        return dirent.isDirectory() ? listFiles(file) : [file];
+    });
+}
+
 export function getProjectRoot(): Promise<string> {
     return new Promise((resolve, reject) => {
         let currentDir = process.cwd();
@@ -185,4 +198,16 @@ export function copyFolder({from, skipFiles, to}: {from: string, skipFiles?: str
 
 export function packageNameToCamelCase(str: string): string {
     return str.split('-').map((part: string) => part.charAt(0).toUpperCase() + part.slice(1)).join('')
-}
\ No newline at end of file
+}
+
+/**
+ * Format a command line for display, e.g. in dry run plans
+ * @param command Executable to run
+ * @param args Command arguments, quoted when they contain spaces
+ * @param cwd Optional working directory of the command
+ * @returns Printable command line
+ */
+export function formatCommand(command: string, args: string[] = [], cwd?: string): string {
+    const line = [command, ...args].map(part => /\s/.test(part) ? JSON.stringify(part) : part).join(' ');
+    return cwd ? `${line} (in ${cwd})` : line;
+}
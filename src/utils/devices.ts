@@ -1,16 +1,26 @@
-import { isCancel, select } from '@clack/prompts';
+import { isCancel } from '@clack/prompts';
 import {execa} from 'execa'
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
+import { CACHE_DIR } from '../cache.js';
 import { ActionContext } from '../core/actions/action'
+import { promptSelect } from '../core/prompts.js'
+import { MANAGED_SDK_DIR_NAME } from './android-env-utils.js';
+import { runProcess } from './process-runner.js';
 
 export type deviceType = "real-device" | "simulator"
-export type platform = "android" | "ios"
+export type platform = "android" | "ios" | "web"
+// Platforms whose apps run on a device, emulator or simulator
+export type nativePlatform = Exclude<platform, "web">
 type deviceState = "booted" | "shutdown"
 
 export interface Device{
-    install(app:string):void;
-    launch(app:string):void;
+    install(app:string):Promise<void>;
+    launch(app:string):Promise<void>;
     name:string,
+    platform: nativePlatform,
     restart():void;
     start():void;
     state: deviceState,
@@ -23,6 +33,8 @@ export interface Device{
 }
 
 class iOSSimulatorDevice implements Device{
+    readonly platform = 'ios'
+
     constructor(
         public name: string,
         public state: deviceState,
@@ -74,36 +86,118 @@ class iOSSimulatorDevice implements Device{
     }
 }
 
-async function getiOSDevice(context: ActionContext,dt: deviceType):Promise<Device | null>{
-    if(dt === "simulator"){
-        try{
-            const {stdout} = await execa('xcrun', ['simctl', 'list', 'devices', '-j'])
-            const simulatorData = JSON.parse(stdout) as {
-                devices: Record<string, Array<{
-                    isAvailable: boolean;
-                    name: string;
-                    state: string;
-                    udid: string;
-                }>>;
-            };
-            const availableDevices = [];
-            for (const [runtime, devices] of Object.entries(simulatorData.devices)) {
-                if(runtime.includes('iOS')){
-                    const iosVersion = runtime.split('.').at(-1)?.replace('iOS-', '').replaceAll('-', '.');
-
-                    for (const device of devices) {
-                        if (device.isAvailable) {
-                        availableDevices.push({
-                            iosVersion,
-                            name: device.name,
-                            state: device.state.toLowerCase(),
-                            udid: device.udid
-                        });
-                        }
-                    }
+// Serials of devices adb reaches over Wi-Fi, e.g. 192.168.1.20:5555 or adb-R58M123-AbCdEf._adb-tls-connect._tcp
+const WIRELESS_SERIAL = /:\d+$|\._adb-tls-connect\./
+// A phone or emulator can take a while to come back after a reboot
+const WAIT_FOR_DEVICE_TIMEOUT_MS = 120_000
+
+// The lepo managed AVD, created the first time an app runs on it
+export const DEFAULT_AVD_NAME = 'lepo_avd'
+
+/**
+ * A phone on USB or Wi-Fi, a running emulator or an AVD, driven with adb.
+ * An AVD has no serial until its emulator runs, `lepo run android` starts it.
+ */
+export class AndroidDevice implements Device{
+    readonly platform = 'android'
+
+    constructor(
+        public name: string,
+        public state: deviceState,
+        public udid: string | undefined,
+        public deviceType: deviceType,
+    ){}
+
+    async install(apk: string): Promise<void> {
+        // adb install fails now and then while the device settles, the caller retries
+        await this.adb(['install', '-r', apk], {transientErrors: true})
+    }
+
+    /**
+     * Start an app
+     * @param app An activity as `<package>/<activity>`, or a package, whose launcher activity is started
+     */
+    async launch(app: string): Promise<void> {
+        // monkey starts the launcher activity of a package, whatever it is called
+        await this.adb(app.includes('/')
+            ? ['shell', 'am', 'start', '-n', app]
+            : ['shell', 'monkey', '-p', app, '-c', 'android.intent.category.LAUNCHER', '1'])
+    }
+
+    async restart(): Promise<void> {
+        await this.adb(['reboot'])
+        this.state = "shutdown"
+        await this.start()
+    }
+
+    async start(): Promise<void> {
+        await this.adb(['wait-for-device'], {timeoutMs: WAIT_FOR_DEVICE_TIMEOUT_MS})
+        this.state = "booted"
+    }
+
+    async stop(): Promise<void> {
+        // Emulators shut down, Wi-Fi devices are disconnected, USB devices are left as they are
+        if (this.deviceType === 'simulator') {
+            await this.adb(['emu', 'kill'])
+        } else if (this.udid && WIRELESS_SERIAL.test(this.udid)) {
+            await runProcess(androidSdkTool('adb'), {args: ['disconnect', this.udid], timeoutMs: LIST_TIMEOUT_MS})
+        } else {
+            return
+        }
+
+        this.state = "shutdown"
+    }
+
+    async uninstall(packageName: string): Promise<void> {
+        await this.adb(['uninstall', packageName])
+    }
+
+    private async adb(args: string[], options: {timeoutMs?: number, transientErrors?: boolean} = {}): Promise<string> {
+        if (!this.udid) {
+            throw new Error(`The emulator of ${this.name} is not running, start it with lepo run android --device ${this.name}`)
+        }
+
+        const {stdout} = await runProcess(androidSdkTool('adb'), {args: ['-s', this.udid, ...args], ...options})
+        return stdout
+    }
+}
+
+// Simulators xcrun knows about, with the iOS version of their runtime
+async function listiOSSimulators(): Promise<Array<{iosVersion?: string, name: string, state: string, udid: string}>> {
+    const {stdout} = await execa('xcrun', ['simctl', 'list', 'devices', '-j'])
+    const simulatorData = JSON.parse(stdout) as {
+        devices: Record<string, Array<{
+            isAvailable: boolean;
+            name: string;
+            state: string;
+            udid: string;
+        }>>;
+    };
+    const availableDevices = [];
+    for (const [runtime, devices] of Object.entries(simulatorData.devices)) {
+        if(runtime.includes('iOS')){
+            const iosVersion = runtime.split('.').at(-1)?.replace('iOS-', '').replaceAll('-', '.');
+
+            for (const device of devices) {
+                if (device.isAvailable) {
+                availableDevices.push({
+                    iosVersion,
+                    name: device.name,
+                    state: device.state.toLowerCase(),
+                    udid: device.udid
+                });
                 }
             }
+        }
+    }
+
+    return availableDevices
+}
 
+async function getiOSDevice(context: ActionContext,dt: deviceType):Promise<Device | null>{
+    if(dt === "simulator"){
+        try{
+            const availableDevices = await listiOSSimulators()
             const sortedDevices = [...availableDevices].sort((a, b) => {
                 if (a.state === 'booted' && b.state !== 'booted') return -1;
                 if (a.state !== 'booted' && b.state === 'booted') return 1;
@@ -118,9 +212,13 @@ async function getiOSDevice(context: ActionContext,dt: deviceType):Promise<Devic
                 })
             }
 
-            const projectType = await select({
-                message: 'Pick a project type.',
+            const projectType = await promptSelect({
+                key: 'device',
+                // --device takes the name or the udid of a simulator
+                matches: (d, answer) => answer === d.name || answer === d.udid,
+                message: 'Pick a device.',
                 options,
+                toAnswer: d => d.udid,
             });
             if(!isCancel(projectType)){
                 // eslint-disable-next-line new-cap
@@ -137,11 +235,286 @@ async function getiOSDevice(context: ActionContext,dt: deviceType):Promise<Devic
 
 
 
+/**
+ * Rebuild a device from its JSON form, e.g. a device saved in a pipeline checkpoint
+ * @param data The fields of the device
+ * @returns A device that can install and launch apps again
+ */
+export function reviveDevice(data: Pick<Device, 'deviceType' | 'name' | 'platform' | 'state' | 'udid'>): Device {
+    if(data.platform === "android"){
+        return new AndroidDevice(data.name, data.state, data.udid, data.deviceType)
+    }
+
+    // Checkpoints written before Android devices were supported have no platform, they hold simulators
+    if(data.deviceType === "simulator" && data.udid){
+        // eslint-disable-next-line new-cap
+        return new iOSSimulatorDevice(data.name, data.state, data.udid, data.deviceType)
+    }
+
+    throw new Error(`Cannot restore device ${data.name}, select it again by running without --resume`)
+}
+
 export async function getDevice(context: ActionContext, dt: deviceType, platform:platform):Promise<Device | null>{
     if(platform === "ios"){
         const devices = await getiOSDevice(context, dt)
         return devices
     }
 
+    if(platform === "android"){
+        return getAndroidDevice(dt)
+    }
+
     return null
 }
+
+// Kinds of targets `lepo devices` lists
+export type TargetType = "avd" | "emulator" | "real-device" | "simulator"
+
+// A device, emulator, AVD or simulator an app can run on. `id` is what `--device` takes.
+export interface DeviceTarget {
+    id: string,
+    name: string,
+    osVersion?: string,
+    platform: nativePlatform,
+    state: string, // booted or shutdown, adb states like offline or unauthorized for Android devices
+    type: TargetType,
+}
+
+// Listing commands answer right away, a hanging adb server should not hang the listing
+const LIST_TIMEOUT_MS = 15_000
+
+/**
+ * An Android SDK tool, from ANDROID_HOME or the SDK lepo manages, else from the PATH
+ * @param tool Tool name
+ * @returns Path or name of the executable
+ */
+export function androidSdkTool(tool: 'adb' | 'emulator'): string {
+    const sdkRoot = process.env.ANDROID_HOME || path.join(CACHE_DIR, MANAGED_SDK_DIR_NAME)
+    const toolPath = path.join(sdkRoot, tool === 'adb' ? 'platform-tools' : 'emulator', os.platform() === 'win32' ? `${tool}.exe` : tool)
+    return fs.existsSync(toolPath) ? toolPath : tool
+}
+
+// stdout of a listing command, or undefined when the tool is missing or fails
+async function listingOutput(command: string, args: string[]): Promise<string | undefined> {
+    try {
+        const {stdout} = await runProcess(command, {args, timeoutMs: LIST_TIMEOUT_MS})
+        return stdout.trim()
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Connected Android devices and running emulators, as `adb devices` lists them
+ * @returns The devices, empty when adb is not installed
+ */
+export async function listAndroidDevices(): Promise<DeviceTarget[]> {
+    const adb = androidSdkTool('adb')
+    const output = await listingOutput(adb, ['devices', '-l'])
+    const targets: DeviceTarget[] = []
+    // The first line is the `List of devices attached` header
+    for (const line of output?.split('\n').slice(1) ?? []) {
+        const [serial, state, ...details] = line.trim().split(/\s+/)
+        if (!serial || !state) continue
+        const isEmulator = serial.startsWith('emulator-')
+        const model = details.find(detail => detail.startsWith('model:'))?.slice('model:'.length).replaceAll('_', ' ')
+        const online = state === 'device'
+        // Emulators are known by the name of their AVD
+        const avdName = online && isEmulator ? (await listingOutput(adb, ['-s', serial, 'emu', 'avd', 'name']))?.split(/\r?\n/)[0] : undefined
+        const release = online ? await listingOutput(adb, ['-s', serial, 'shell', 'getprop', 'ro.build.version.release']) : undefined
+        targets.push({
+            id: serial,
+            name: avdName || model || serial,
+            osVersion: release ? `Android ${release}` : undefined,
+            platform: 'android',
+            state: online ? 'booted' : state,
+            type: isEmulator ? 'emulator' : 'real-device',
+        })
+    }
+
+    return targets
+}
+
+/**
+ * The AVDs the emulator can start
+ * @param running Listed devices, AVDs whose emulator runs are shown as booted
+ * @returns The AVDs, empty when the emulator is not installed
+ */
+export async function listAvds(running: DeviceTarget[] = []): Promise<DeviceTarget[]> {
+    const output = await listingOutput(androidSdkTool('emulator'), ['-list-avds'])
+    const names = output?.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('INFO')) ?? []
+    return names.map(name => {
+        // The system image of the AVD tells its API level, e.g. image.sysdir.1=system-images/android-36/...
+        const configPath = path.join(os.homedir(), '.android', 'avd', `${name}.avd`, 'config.ini')
+        const apiLevel = fs.existsSync(configPath) ? /^image\.sysdir\.1=.*android-(\d+)/m.exec(fs.readFileSync(configPath, 'utf8'))?.[1] : undefined
+        return {
+            id: name,
+            name,
+            osVersion: apiLevel ? `Android API ${apiLevel}` : undefined,
+            platform: 'android' as const,
+            state: running.some(target => target.type === 'emulator' && target.name === name) ? 'booted' : 'shutdown',
+            type: 'avd' as const,
+        }
+    })
+}
+
+/**
+ * Everything apps can run on: Android devices, running emulators, AVDs and, on macOS, iOS simulators
+ * @returns The targets, Android ones first
+ */
+export async function listDeviceTargets(): Promise<DeviceTarget[]> {
+    const androidDevices = await listAndroidDevices()
+    const avds = await listAvds(androidDevices)
+    let simulators: DeviceTarget[] = []
+    if (os.platform() === 'darwin') {
+        try {
+            simulators = (await listiOSSimulators()).map(simulator => ({
+                id: simulator.udid,
+                name: simulator.name,
+                osVersion: simulator.iosVersion ? `iOS ${simulator.iosVersion}` : undefined,
+                platform: 'ios',
+                state: simulator.state,
+                type: 'simulator',
+            }))
+        } catch {
+            // Without Xcode there are no simulators
+        }
+    }
+
+    return [...androidDevices, ...avds, ...simulators]
+}
+
+/**
+ * Find the target `--device` names, by id or else by name
+ * @param device Id or name of the target
+ * @param targets Targets of one platform, as listed by `lepo devices`
+ * @returns The target
+ */
+export function findDeviceTarget(device: string, targets: DeviceTarget[]): DeviceTarget {
+    const matches = [...targets.filter(candidate => candidate.id === device), ...targets.filter(candidate => candidate.name === device)]
+    // A running emulator goes by the name of its AVD, the emulator is the one to use
+    const target = matches.find(candidate => candidate.type !== 'avd') ?? matches[0]
+    if (!target) {
+        throw new Error(`No device ${device}, run \`lepo devices\` to list the devices, emulators and simulators`)
+    }
+
+    return target
+}
+
+/**
+ * The iOS simulator `--device` names
+ * @param device Udid or name of the simulator
+ * @returns The simulator
+ */
+export async function findiOSSimulator(device: string): Promise<Device> {
+    const simulators = (await listDeviceTargets()).filter(target => target.platform === 'ios')
+    const target = findDeviceTarget(device, simulators)
+    // eslint-disable-next-line new-cap
+    return new iOSSimulatorDevice(target.name, target.state as deviceState, target.id)
+}
+
+/**
+ * The Android device to run on, as `--device` or the `device` answer names it
+ * @param target The device, emulator or AVD from `lepo devices`
+ * @returns The device. AVDs are not started yet.
+ */
+function androidDevice(target: DeviceTarget): AndroidDevice {
+    if (target.type === 'avd') {
+        return new AndroidDevice(target.name, 'shutdown', undefined, 'simulator')
+    }
+
+    if (target.state !== 'booted') {
+        throw new Error(`${target.name} (${target.id}) is ${target.state}, connect it with USB debugging enabled and allow this computer on it`)
+    }
+
+    return new AndroidDevice(target.name, 'booted', target.id, target.type === 'emulator' ? 'simulator' : 'real-device')
+}
+
+/**
+ * The Android device, emulator or AVD `--device` names
+ * @param device Serial or name of the device, or name of the AVD
+ * @returns The device
+ */
+export async function findAndroidDevice(device: string): Promise<Device> {
+    const devices = await listAndroidDevices()
+    return androidDevice(findDeviceTarget(device, [...devices, ...await listAvds(devices)]))
+}
+
+/**
+ * Every Android device and emulator adb can install on, for `--all-devices`
+ * @returns The devices, at least one
+ */
+export async function listOnlineAndroidDevices(): Promise<Device[]> {
+    const targets = (await listAndroidDevices()).filter(target => target.state === 'booted')
+    if (targets.length === 0) {
+        throw new Error('No Android device or emulator is online, run `lepo devices` to list them')
+    }
+
+    return targets.map(target => androidDevice(target))
+}
+
+// Phones for real devices; running emulators and AVDs for simulators, the lepo AVD being the default
+async function getAndroidDevice(dt: deviceType): Promise<Device> {
+    const devices = await listAndroidDevices()
+    let targets: DeviceTarget[]
+    if (dt === "real-device") {
+        targets = devices.filter(target => target.type === 'real-device' && target.state === 'booted')
+        if (targets.length === 0) {
+            throw new Error('No Android device is connected. Plug one in with USB debugging enabled, or connect one over Wi-Fi with lepo devices connect')
+        }
+    } else {
+        const avds = (await listAvds(devices)).filter(avd => avd.state !== 'booted')
+        // lepo creates its AVD when it runs on it the first time
+        const lepoAvd = avds.some(avd => avd.name === DEFAULT_AVD_NAME) ? [] : [{id: DEFAULT_AVD_NAME, name: DEFAULT_AVD_NAME, platform: 'android' as const, state: 'shutdown', type: 'avd' as const}]
+        targets = [...devices.filter(target => target.type === 'emulator' && target.state === 'booted'), ...avds, ...lepoAvd]
+    }
+
+    const target = await promptSelect({
+        initialValue: targets.find(candidate => candidate.type === 'avd' && candidate.name === DEFAULT_AVD_NAME),
+        key: 'device',
+        // --device takes the serial or the name of a device, or the name of an AVD
+        matches: (candidate, answer) => answer === candidate.id || answer === candidate.name,
+        message: 'Pick a device.',
+        options: targets.map(candidate => ({
+            label: `${candidate.name} (${[candidate.osVersion, candidate.type === 'avd' ? 'not running' : candidate.id].filter(Boolean).join(', ')})`,
+            value: candidate,
+        })),
+        toAnswer: candidate => candidate.id,
+    })
+    if (isCancel(target)) {
+        throw new Error('No device selected.')
+    }
+
+    return androidDevice(target)
+}
+
+/**
+ * Connect an Android device over Wi-Fi, pairing it first when asked to
+ * @param address host:port the device shows under Wireless debugging
+ * @param pairing Optional: host:port and code of the "Pair device with pairing code" dialog of the device, needed once per computer on Android 11 and later
+ * @param pairing.address host:port of the pairing dialog
+ * @param pairing.code Six digit code of the pairing dialog
+ * @returns The connected device
+ */
+export async function connectAndroidDevice(address: string, pairing?: {address: string, code: string}): Promise<DeviceTarget> {
+    const adb = androidSdkTool('adb')
+    // adb pair and adb connect exit with 0 when they fail, only their output tells
+    if (pairing) {
+        const {stdout} = await runProcess(adb, {args: ['pair', pairing.address, pairing.code], timeoutMs: LIST_TIMEOUT_MS})
+        if (!/successfully paired/i.test(stdout)) {
+            throw new Error(`Pairing with ${pairing.address} failed: ${stdout.trim()}`)
+        }
+    }
+
+    const {stdout} = await runProcess(adb, {args: ['connect', address], timeoutMs: LIST_TIMEOUT_MS})
+    if (!/connected to/i.test(stdout)) {
+        throw new Error(`Connecting to ${address} failed: ${stdout.trim()}${pairing ? '' : '. Pair the device first with --pair and --code'}`)
+    }
+
+    const target = (await listAndroidDevices()).find(candidate => candidate.id === address)
+    if (target?.state !== 'booted') {
+        throw new Error(`${address} is ${target?.state ?? 'not listed by adb devices'}, allow this computer on the device and connect again`)
+    }
+
+    return target
+}
@@ -0,0 +1,77 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+interface JournalEntry {
+  // Original content of an overwritten file, undefined when the path did not exist
+  content?: Buffer;
+  target: string;
+}
+
+/**
+ * Records the files and directories a step is about to create or overwrite, so they can be put back
+ * exactly as they were if the step fails.
+ */
+export class FileJournal {
+  private entries: JournalEntry[] = [];
+  private readonly tracked = new Set<string>();
+
+  /**
+   * Create a directory, recording the topmost directory that did not exist yet
+   * @param dir Directory to create
+   */
+  mkdir(dir: string): void {
+    let topmostMissing: string | undefined;
+    for (let current = path.resolve(dir); !fs.existsSync(current); current = path.dirname(current)) {
+      topmostMissing = current;
+      if (path.dirname(current) === current) break;
+    }
+
+    if (topmostMissing) {
+      this.track(topmostMissing);
+    }
+
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  /**
+   * Undo every recorded change, newest first, and clear the journal
+   */
+  restore(): void {
+    for (const entry of this.entries.reverse()) {
+      if (entry.content === undefined) {
+        fs.rmSync(entry.target, { force: true, recursive: true });
+      } else {
+        fs.mkdirSync(path.dirname(entry.target), { recursive: true });
+        fs.writeFileSync(entry.target, entry.content);
+      }
+    }
+
+    this.entries = [];
+    this.tracked.clear();
+  }
+
+  /**
+   * Record the current state of a path before it is written. Only the first call per path counts.
+   * A path inside a directory the journal created is not recorded, removing the directory covers it.
+   * @param target File or directory that is about to be created or overwritten
+   */
+  track(target: string): void {
+    const resolved = path.resolve(target);
+    if (this.tracked.has(resolved) || this.isInsideCreatedDir(resolved)) {
+      return;
+    }
+
+    this.tracked.add(resolved);
+    const existsAsFile = fs.existsSync(resolved) && fs.statSync(resolved).isFile();
+    if (fs.existsSync(resolved) && !existsAsFile) {
+      // Existing directories are kept, only their changed files are restored
+      return;
+    }
+
+    this.entries.push({ content: existsAsFile ? fs.readFileSync(resolved) : undefined, target: resolved });
+  }
+
+  private isInsideCreatedDir(target: string): boolean {
+    return this.entries.some(entry => entry.content === undefined && target.startsWith(entry.target + path.sep));
+  }
+}
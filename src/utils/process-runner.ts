@@ -0,0 +1,210 @@
+import {ChildProcess, spawn} from 'node:child_process';
+import {EventEmitter} from 'node:events';
+import path from 'node:path';
+
+import {isTransientOutput, TransientError} from '../core/actions/retry.js';
+import {Logger} from '../logger.js';
+import {trackChildProcess} from './child-processes.js';
+
+export type OutputSource = 'stderr' | 'stdout';
+
+// Captured output is cut to its tail beyond this, so chatty builds do not fill the memory
+const DEFAULT_MAX_OUTPUT_LENGTH = 1024 * 1024;
+// Lines of output quoted in the error of a failed process
+const DEFAULT_ERROR_TAIL_LINES = 20;
+// Time a process gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 5000;
+
+export interface ProcessOptions {
+  args?: string[];
+  cwd?: string;
+  detached?: boolean; // Optional: lead a process group of its own, stopping the process stops its helpers too
+  env?: NodeJS.ProcessEnv; // Optional: variables set on top of the environment of lepo
+  input?: string; // Optional: written to stdin, which is closed afterwards
+  logger?: Logger; // Optional: receives every line, stdout as info and stderr as warn
+  maxOutputLength?: number; // Optional: characters of stdout and stderr each kept in the result, defaults to 1 MiB
+  shell?: boolean;
+  signal?: AbortSignal; // Optional: stops the process when aborted
+  stdio?: 'inherit' | 'pipe'; // Optional: `inherit` hands the terminal to the process, nothing is captured then
+  tailLines?: number; // Optional: lines of output quoted in the error of a failed process, defaults to 20
+  timeoutMs?: number; // Optional: stops the process and fails when it runs longer
+  transientErrors?: boolean; // Optional: fail with a TransientError when the output looks like a network or device hiccup
+}
+
+export interface ProcessResult {
+  exitCode: null | number; // null when the process was stopped by a signal
+  output: string; // stdout and stderr lines in the order they arrived
+  stderr: string;
+  stdout: string;
+}
+
+/**
+ * A process that exited with a non-zero code, was killed or timed out. The message quotes the last
+ * lines of its output.
+ */
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    readonly command: string,
+    readonly result: ProcessResult,
+    readonly timedOut = false,
+  ) {
+    super(message);
+    this.name = 'ProcessError';
+  }
+
+  get exitCode(): null | number {
+    return this.result.exitCode;
+  }
+}
+
+// Events of a running process, `output` carries one line at a time
+interface ProcessEvents {
+  output: [line: string, source: OutputSource];
+}
+
+/**
+ * A spawned process whose output arrives as whole lines, tagged with the stream they came from
+ */
+// eslint-disable-next-line unicorn/prefer-event-target
+export class RunningProcess extends EventEmitter<ProcessEvents> {
+  // Settles once the process exited, rejects with a ProcessError unless it exited with code 0
+  readonly done: Promise<ProcessResult>;
+  private readonly detached: boolean;
+
+  constructor(readonly child: ChildProcess, readonly command: string, options: ProcessOptions) {
+    super();
+    this.detached = options.detached ?? false;
+    this.done = this.watch(options);
+    // Callers that only follow the output must not crash the process with an unhandled rejection
+    this.done.catch(() => {});
+  }
+
+  /**
+   * Stop the process, and kill it if it does not exit in time
+   * @param signal Signal sent first
+   */
+  stop(signal: NodeJS.Signals = 'SIGTERM'): void {
+    const {child} = this;
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    try {
+      if (this.detached && child.pid !== undefined && process.platform !== 'win32') {
+        // A negative pid addresses the process group
+        process.kill(-child.pid, signal);
+      } else {
+        child.kill(signal);
+      }
+    } catch {
+      // The process exited in the meantime
+      return;
+    }
+
+    setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL');
+    }, KILL_GRACE_MS).unref();
+  }
+
+  private watch(options: ProcessOptions): Promise<ProcessResult> {
+    const {logger, maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH, signal, tailLines = DEFAULT_ERROR_TAIL_LINES, timeoutMs} = options;
+    const captured = {output: '', stderr: '', stdout: ''};
+    const capture = (key: keyof typeof captured, text: string) => {
+      captured[key] = (captured[key] + text).slice(-maxOutputLength);
+    };
+
+    const emitLine = (line: string, source: OutputSource) => {
+      capture(source, line + '\n');
+      capture('output', line + '\n');
+      if (line.trim() && source === 'stdout') logger?.info(line);
+      else if (line.trim()) logger?.warn(line);
+      this.emit('output', line, source);
+    };
+
+    // Chunks end anywhere, a line is only emitted once its newline arrived
+    const pending: Record<OutputSource, string> = {stderr: '', stdout: ''};
+    const listen = (source: OutputSource) => (data: Buffer) => {
+      const lines = (pending[source] + data.toString()).split(/\r?\n|\r(?!\n)/);
+      pending[source] = lines.pop() as string;
+      for (const line of lines) emitLine(line, source);
+    };
+
+    this.child.stdout?.on('data', listen('stdout'));
+    this.child.stderr?.on('data', listen('stderr'));
+    if (options.input !== undefined) this.child.stdin?.end(options.input);
+
+    const onAbort = this.stop.bind(this, 'SIGTERM');
+    return new Promise((resolve, reject) => {
+      let timedOut = false;
+      const timer = timeoutMs === undefined ? undefined : setTimeout(() => {
+        timedOut = true;
+        this.stop();
+      }, timeoutMs);
+      signal?.addEventListener('abort', onAbort, {once: true});
+
+      this.child.once('error', error => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error(`Failed to start ${this.command}: ${error.message}`, {cause: error}));
+      });
+
+      this.child.once('close', (code, exitSignal) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        for (const source of ['stdout', 'stderr'] as const) {
+          if (pending[source]) emitLine(pending[source], source);
+        }
+
+        const result = {...captured, exitCode: code};
+        if (code === 0 && !timedOut) {
+          resolve(result);
+          return;
+        }
+
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const reason = timedOut
+          ? `timed out after ${timeoutMs}ms`
+          : (code === null ? `was stopped by ${exitSignal}` : `exited with code ${code}`);
+        const tail = captured.output.trimEnd().split('\n').slice(-tailLines).join('\n');
+        const message = `${this.command} ${reason}${tail ? `\n${tail}` : ''}`;
+        const error = new ProcessError(message, this.command, result, timedOut);
+        reject(options.transientErrors && isTransientOutput(captured.output) ? new TransientError(message, {cause: error}) : error);
+      });
+    });
+  }
+}
+
+// Short form of a command for messages, e.g. `gradlew app:assembleDebug`. Command lines run by a shell stay as they are.
+function commandLabel(command: string, args: string[], shell?: boolean): string {
+  return shell && args.length === 0 ? command : [path.basename(command), ...args].join(' ');
+}
+
+/**
+ * Start a process and hand out its output line by line. The process is stopped with the pipeline on Ctrl+C.
+ * @param command Executable, or a command line when `shell` is set
+ * @param options Process options
+ * @returns The running process, await `done` for its result
+ */
+export function startProcess(command: string, options: ProcessOptions = {}): RunningProcess {
+  const {args = [], cwd, detached = false, env, input, shell, stdio = 'pipe'} = options;
+  const child = trackChildProcess(spawn(command, args, {
+    cwd,
+    detached,
+    env: env ? {...process.env, ...env} : undefined,
+    shell,
+    stdio: stdio === 'inherit' ? [input === undefined ? 'inherit' : 'pipe', 'inherit', 'inherit'] : 'pipe',
+  }), {detached});
+  return new RunningProcess(child, commandLabel(command, args, shell), options);
+}
+
+/**
+ * Run a process to completion
+ * @param command Executable, or a command line when `shell` is set
+ * @param options Process options
+ * @returns The exit code and captured output
+ */
+export async function runProcess(command: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+  return startProcess(command, options).done;
+}
@@ -0,0 +1,125 @@
+// Lines of the changed regions a longest common subsequence is computed for, larger regions count as one change
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface MergeResult {
+  conflicts: number; // Regions both sides changed differently, marked in `text`
+  text: string;
+}
+
+export interface MergeLabels {
+  ours: string; // e.g. `yours`
+  theirs: string; // e.g. `template 1.2.0`
+}
+
+/**
+ * Match the lines of two texts along their longest common subsequence
+ * @param a Lines of the first text
+ * @param b Lines of the second text
+ * @returns For every line of a, the index of the matching line of b, or -1
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = Array.from({length: a.length}, () => -1);
+  // Edits are usually local, the common head and tail are matched without the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    matches[--endA] = --endB;
+  }
+
+  const rows = endA - start;
+  const columns = endB - start;
+  if (rows === 0 || columns === 0 || rows * columns > MAX_LCS_CELLS) return matches;
+
+  // lengths[i][j]: length of the common subsequence of a[start + i..] and b[start + j..]
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  for (let i = 0, j = 0; i < rows && j < columns;) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge the changes two sides made to a common base, line by line like diff3. Regions only one side
+ * changed take that change, regions both sides changed the same way are taken once, and regions both
+ * sides changed differently are kept as a conflict with git style markers.
+ * @param base Text both sides started from
+ * @param ours Text with our changes
+ * @param theirs Text with their changes
+ * @param labels Names of the sides, shown in the conflict markers
+ * @returns The merged text and the number of conflicts in it
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels: MergeLabels): MergeResult {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const toOurs = matchLines(baseLines, ourLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let o = 0;
+  let a = 0;
+  let b = 0;
+  while (o < baseLines.length || a < ourLines.length || b < theirLines.length) {
+    // A base line both sides kept in place
+    if (o < baseLines.length && toOurs[o] === a && toTheirs[o] === b) {
+      merged.push(baseLines[o]);
+      o++;
+      a++;
+      b++;
+      continue;
+    }
+
+    // The changed region reaches to the next base line both sides kept
+    let next = o;
+    while (next < baseLines.length && (toOurs[next] === -1 || toTheirs[next] === -1)) next++;
+    const nextA = next < baseLines.length ? toOurs[next] : ourLines.length;
+    const nextB = next < baseLines.length ? toTheirs[next] : theirLines.length;
+    const baseRegion = baseLines.slice(o, next);
+    const ourRegion = ourLines.slice(a, nextA);
+    const theirRegion = theirLines.slice(b, nextB);
+
+    if (sameLines(ourRegion, baseRegion)) {
+      merged.push(...theirRegion);
+    } else if (sameLines(theirRegion, baseRegion) || sameLines(ourRegion, theirRegion)) {
+      merged.push(...ourRegion);
+    } else {
+      conflicts++;
+      merged.push(`<<<<<<< ${labels.ours}`, ...ourRegion, '=======', ...theirRegion, `>>>>>>> ${labels.theirs}`);
+    }
+
+    o = next;
+    a = nextA;
+    b = nextB;
+  }
+
+  return {conflicts, text: merged.join('\n')};
+}
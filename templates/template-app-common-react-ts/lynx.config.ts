@@ -2,6 +2,11 @@ import { pluginReactLynx } from '@lynx-js/react-rsbuild-plugin'
 import { defineConfig } from '@lynx-js/rspeedy'
 
 export default defineConfig({
+  environments: {
+    // main.lynx.bundle for the native apps, main.web.bundle only when lepo run web asks for it
+    lynx: {},
+    ...(process.env.LEPO_BUILD_WEB ? { web: {} } : {}),
+  },
   output: {
     dataUriLimit: Infinity,
   },
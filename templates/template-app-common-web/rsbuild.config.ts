@@ -0,0 +1,19 @@
+import { defineConfig } from '@rsbuild/core'
+
+export default defineConfig({
+  html: {
+    title: '{{appName}}',
+  },
+  server: {
+    // lepo run web copies the web bundle of the app into public, a new bundle reloads the page
+    publicDir: {
+      name: 'public',
+      watch: true,
+    },
+  },
+  source: {
+    entry: {
+      index: './src/index.ts',
+    },
+  },
+})
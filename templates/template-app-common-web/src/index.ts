@@ -0,0 +1,11 @@
+import '@lynx-js/web-core/index.css'
+import '@lynx-js/web-elements/index.css'
+import '@lynx-js/web-core'
+import '@lynx-js/web-elements/all'
+
+import './index.css'
+
+// main.web.bundle is built from the app by rspeedy, see `environments` in lynx.config.ts
+const lynxView = document.createElement('lynx-view')
+lynxView.setAttribute('url', '/main.web.bundle')
+document.body.append(lynxView)
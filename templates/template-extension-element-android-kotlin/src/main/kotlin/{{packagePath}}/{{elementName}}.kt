@@ -9,8 +9,8 @@ import com.lynx.tasm.behavior.LynxProp
 import com.lynx.tasm.behavior.ui.LynxUI
 import com.lynx.tasm.event.LynxCustomEvent
 
-@LynxElement(name = "button")
-class LynxExplorerButton(context: LynxContext) : LynxUI<Button>(context) {
+@LynxElement(name = "{{elementTag}}")
+class LynxExplorer{{elementName}}(context: LynxContext) : LynxUI<Button>(context) {
 
   override fun createView(context: Context): Button {
     return Button(context).apply {
@@ -2,7 +2,7 @@
 
 NS_ASSUME_NONNULL_BEGIN
 
-@interface LynxButton : LynxUI <UILabel*>
+@interface Lynx{{elementName}} : LynxUI <UILabel*>
 
 @end
 
@@ -1,11 +1,11 @@
 
-#import "Button.h"
+#import "{{elementName}}.h"
 #import <Lynx/LynxComponentRegistry.h>
 #import <Lynx/LynxPropsProcessor.h>
 
-@implementation LynxButton
+@implementation Lynx{{elementName}}
 
-LYNX_LAZY_REGISTER_UI("button")
+LYNX_LAZY_REGISTER_UI("{{elementTag}}")
 
 LYNX_PROP_SETTER("text", setValue, NSString *) {
     self.view.text = value;
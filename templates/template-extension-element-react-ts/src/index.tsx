@@ -1 +1 @@
-export { Button } from './Button.js'
+export { {{elementName}} } from './{{elementName}}.js'
@@ -1,6 +1,6 @@
-import './Button.css';
+import './{{elementName}}.css';
 
-interface ButtonProps {
+interface {{elementName}}Props {
   backgroundColor?: string;
   label: string;
   onClick?: () => void;
@@ -8,18 +8,18 @@ interface ButtonProps {
   size?: 'large' | 'medium' | 'small';
 }
 
-export const Button = ({
+export const {{elementName}} = ({
   backgroundColor,
   label,
   primary = false,
   size = 'medium',
   ...props
-}: ButtonProps) => {
-  const mode = primary ? 'demo-button--primary' : 'demo-button--secondary';
+}: {{elementName}}Props) => {
+  const mode = primary ? 'demo-{{elementTag}}--primary' : 'demo-{{elementTag}}--secondary';
   return (
-      <button
+      <{{elementTag}}
           bindclickevent={props.onClick}
-          className={['demo-button', `demo-button--${size}`, mode].join(' ')}
+          className={['demo-{{elementTag}}', `demo-{{elementTag}}--${size}`, mode].join(' ')}
           style={{ backgroundColor }}
           text={label}
       />
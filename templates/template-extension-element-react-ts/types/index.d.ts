@@ -0,0 +1,12 @@
+/** Props of <{{elementTag}}>, the native element {{elementName}} renders */
+declare module '@lynx-js/types' {
+  interface IntrinsicElements {
+    '{{elementTag}}': import('@lynx-js/types').StandardProps & {
+      bindclickevent?: () => void;
+      text?: string;
+    };
+  }
+}
+
+// Makes the file a module, so the declaration above adds to @lynx-js/types instead of replacing it
+export {};
@@ -2,13 +2,13 @@ package {{packageName}}
 
 
 import android.content.Context
-import {{packageName}}.generated.NativeLocalStorageModuleSpec
+import {{packageName}}.generated.{{moduleName}}Spec
 import com.lynx.jsbridge.LynxNativeModule
 import com.lynx.jsbridge.LynxMethod
 import com.lynx.tasm.behavior.LynxContext
 
-@LynxNativeModule(name = "NativeLocalStorageModule")
-class NativeLocalStorageModule(private val lynxContext: LynxContext): NativeLocalStorageModuleSpec(lynxContext) {
+@LynxNativeModule(name = "{{moduleName}}")
+class {{moduleName}}(private val lynxContext: LynxContext): {{moduleName}}Spec(lynxContext) {
     private val PREF_NAME = "MyLocalStorage"
 
     private fun getContext(): Context {
@@ -1,13 +0,0 @@
-
-#import <Foundation/Foundation.h>
-#import <Lynx/LynxModule.h>
-#import "../src/generated/NativeLocalStorageModuleSpec.h"
-
-NS_ASSUME_NONNULL_BEGIN
-
-// @LynxNativeModule("NativeLocalStorageModule")
-@interface NativeLocalStorageModule : NSObject <NativeLocalStorageModuleSpec>
-
-@end
-
-NS_ASSUME_NONNULL_END
@@ -0,0 +1,13 @@
+
+#import <Foundation/Foundation.h>
+#import <Lynx/LynxModule.h>
+#import "../src/generated/{{moduleName}}Spec.h"
+
+NS_ASSUME_NONNULL_BEGIN
+
+// @LynxNativeModule("{{moduleName}}")
+@interface {{moduleName}} : NSObject <{{moduleName}}Spec>
+
+@end
+
+NS_ASSUME_NONNULL_END
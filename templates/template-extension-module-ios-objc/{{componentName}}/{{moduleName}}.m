@@ -1,11 +1,11 @@
 
-#import "module.h"
+#import "{{moduleName}}.h"
 
-@interface NativeLocalStorageModule()
+@interface {{moduleName}}()
 @property (strong, nonatomic) NSUserDefaults *localStorage;
 @end
 
-@implementation NativeLocalStorageModule
+@implementation {{moduleName}}
 
 static NSString *const NativeLocalStorageKey = @"MyLocalStorage";
 
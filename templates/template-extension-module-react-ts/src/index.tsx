@@ -1 +1 @@
-export { NativeLocalStorageModule } from '../generated/NativeLocalStorageModule.js';
+export { {{moduleName}} } from '../generated/{{moduleName}}.js';
@@ -1,5 +1,5 @@
 /** @lynxmodule */
-export declare class NativeLocalStorageModule {
+export declare class {{moduleName}} {
   setStorageItem(key: string, value: string): void;
   getStorageItem(key: string): string | null;
   clearStorage(): void;
@@ -41,13 +41,13 @@ describe('extension platform config', () => {
     const moduleTemplate = fs.readFileSync(
       path.join(
         repoRoot,
-        'templates/template-extension-module-android-kotlin/src/main/kotlin/{{packagePath}}/LocalStorageModule.kt',
+        'templates/template-extension-module-android-kotlin/src/main/kotlin/{{packagePath}}/{{moduleName}}.kt',
       ),
       'utf8',
     );
 
     expect(moduleTemplate).to.contain('import com.lynx.jsbridge.LynxNativeModule');
-    expect(moduleTemplate).to.contain('@LynxNativeModule(name = "NativeLocalStorageModule")');
+    expect(moduleTemplate).to.contain('@LynxNativeModule(name = "{{moduleName}}")');
     expect(moduleTemplate).to.contain('override fun setStorageItem');
     expect(moduleTemplate).to.contain('override fun getStorageItem');
     expect(moduleTemplate).to.contain('override fun clearStorage');
@@ -55,22 +55,22 @@ describe('extension platform config', () => {
 
   it('uses the Android element marker from the pinned Lynx SDK', () => {
     const elementTemplate = fs.readFileSync(
-      path.join(repoRoot, 'templates/template-extension-element-android-kotlin/src/main/kotlin/{{packagePath}}/Button.kt'),
+      path.join(repoRoot, 'templates/template-extension-element-android-kotlin/src/main/kotlin/{{packagePath}}/{{elementName}}.kt'),
       'utf8',
     );
 
     expect(elementTemplate).to.contain('import com.lynx.tasm.behavior.LynxElement');
-    expect(elementTemplate).to.contain('@LynxElement(name = "button")');
+    expect(elementTemplate).to.contain('@LynxElement(name = "{{elementTag}}")');
   });
 
   it('imports the generated iOS module spec from the external codegen output path', () => {
     const moduleHeader = fs.readFileSync(
-      path.join(repoRoot, 'templates/template-extension-module-ios-objc/{{componentName}}/module.h'),
+      path.join(repoRoot, 'templates/template-extension-module-ios-objc/{{componentName}}/{{moduleName}}.h'),
       'utf8',
     );
 
-    expect(moduleHeader).to.contain('// @LynxNativeModule("NativeLocalStorageModule")');
-    expect(moduleHeader).to.contain('#import "../src/generated/NativeLocalStorageModuleSpec.h"');
+    expect(moduleHeader).to.contain('// @LynxNativeModule("{{moduleName}}")');
+    expect(moduleHeader).to.contain('#import "../src/generated/{{moduleName}}Spec.h"');
   });
 
   it('uses the library codegen package directly', () => {
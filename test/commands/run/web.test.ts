@@ -0,0 +1,20 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import path from 'node:path';
+import {fileURLToPath} from 'node:url';
+
+const repoRoot = fileURLToPath(new URL('../../..', import.meta.url));
+
+describe('Web run template', () => {
+  it('serves the web bundle the app template builds', () => {
+    const lynxConfig = fs.readFileSync(path.join(repoRoot, 'templates/template-app-common-react-ts/lynx.config.ts'), 'utf8');
+    const entry = fs.readFileSync(path.join(repoRoot, 'templates/template-app-common-web/src/index.ts'), 'utf8');
+    const rsbuildConfig = fs.readFileSync(path.join(repoRoot, 'templates/template-app-common-web/rsbuild.config.ts'), 'utf8');
+
+    // The native runs only build for Lynx, lepo run web sets LEPO_BUILD_WEB
+    expect(lynxConfig).to.match(/environments: \{\s+\/\/.*\s+lynx: \{\},\s+\.\.\.\(process\.env\.LEPO_BUILD_WEB \? \{ web: \{\} \} : \{\}\),/);
+    expect(entry).to.contain("setAttribute('url', '/main.web.bundle')");
+    // The bundle is copied into the public directory, which the dev server watches
+    expect(rsbuildConfig).to.match(/name: 'public',\s+watch: true/);
+  });
+});
@@ -0,0 +1,872 @@
+import {expect} from 'chai';
+import {spawn} from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {ActionRunner, InterruptedError} from '../../../src/core/actions/action-runner.js';
+import {Action, ActionContext, ActionResult, DependencyResults} from '../../../src/core/actions/action.js';
+import {RECORDED_ANSWERS_FILE} from '../../../src/core/actions/interaction-broker.js';
+import {Profiler} from '../../../src/core/actions/profiler.js';
+import {ActionEvent, formatTimingSummary, Reporter} from '../../../src/core/actions/reporter.js';
+import {TransientError} from '../../../src/core/actions/retry.js';
+import {configurePrompts, promptConfirm, promptText, resetPrompts} from '../../../src/core/prompts.js';
+import {trackChildProcess} from '../../../src/utils/child-processes.js';
+
+// Every run checkpoints its actions into <projectRoot>/.lepo, keep that out of the repository
+function createContext(projectRoot: string = path.join(os.tmpdir(), 'lepo-action-runner-state')): ActionContext {
+  return {
+    devMode: false,
+    environment: 'development',
+    logger: {
+      clear() {},
+      error() {},
+      info() {},
+      logFile: null,
+      message() {},
+      on() {},
+      warn() {},
+    },
+    projectRoot,
+  };
+}
+
+function createRecordingReporter(events: ActionEvent[]): Reporter {
+  return {
+    emit(event) {
+      events.push(event);
+    },
+    spinner: {message() {}, start() {}, stop() {}},
+  };
+}
+
+function delay(ms: number) {
+  return new Promise(resolve => {
+    setTimeout(resolve, ms);
+  });
+}
+
+function createRollbackAction(name: string, rolledBack: string[], fail = false): Action {
+  return {
+    async execute() {
+      if (fail) throw new Error(`${name} failed`);
+      return {};
+    },
+    name,
+    rollback() {
+      rolledBack.push(name);
+    },
+  };
+}
+
+describe('ActionRunner', () => {
+  describe('Dependency Graph', () => {
+    it('should run actions in insertion order by default', async () => {
+      const order: string[] = [];
+      const runner = new ActionRunner(createContext());
+      for (const name of ['a', 'b', 'c']) {
+        runner.addAction({
+          async execute() {
+            order.push(`start-${name}`);
+            await delay(5);
+            order.push(`end-${name}`);
+            return {};
+          },
+          name,
+        });
+      }
+
+      await runner.run();
+
+      expect(order).to.deep.equal(['start-a', 'end-a', 'start-b', 'end-b', 'start-c', 'end-c']);
+    });
+
+    it('should run independent actions in parallel', async () => {
+      const order: string[] = [];
+      const createAction = (name: string, dependsOn: string[]): Action => ({
+        dependsOn,
+        async execute() {
+          order.push(`start-${name}`);
+          await delay(10);
+          order.push(`end-${name}`);
+          return {};
+        },
+        name,
+      });
+
+      const runner = new ActionRunner(createContext());
+      runner.addAction(createAction('install', []));
+      runner.addAction(createAction('prepare', []));
+      runner.addAction(createAction('build', ['install', 'prepare']));
+      await runner.run();
+
+      expect(order.slice(0, 2)).to.have.members(['start-install', 'start-prepare']);
+      expect(order.slice(-2)).to.deep.equal(['start-build', 'end-build']);
+    });
+
+    it('should pass named dependency results to an action', async () => {
+      let received: DependencyResults | undefined;
+      let previous: ActionResult | undefined;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({execute: async () => ({outputPaths: ['bundle']}), name: 'bundle'});
+      runner.addAction({execute: async () => ({outputPaths: ['project']}), name: 'project'}, []);
+      runner.addAction({
+        async execute(_context, previousResult, dependencyResults) {
+          previous = previousResult;
+          received = dependencyResults;
+          return {};
+        },
+        name: 'build',
+      }, ['bundle', 'project']);
+      await runner.run();
+
+      expect(received).to.deep.equal({bundle: {outputPaths: ['bundle']}, project: {outputPaths: ['project']}});
+      expect(previous).to.deep.equal({outputPaths: ['project']});
+    });
+
+    it('should reject unknown dependencies before running anything', async () => {
+      let executed = false;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        async execute() {
+          executed = true;
+          return {};
+        },
+        name: 'a',
+      }, ['missing']);
+
+      try {
+        await runner.run();
+        expect.fail('run should fail for unknown dependencies');
+      } catch (error) {
+        expect((error as Error).message).to.contain('unknown action: missing');
+      }
+
+      expect(executed).to.be.false;
+    });
+
+    it('should reject circular dependencies', async () => {
+      const runner = new ActionRunner(createContext());
+      runner.addAction({execute: async () => ({}), name: 'a'}, ['b']);
+      runner.addAction({execute: async () => ({}), name: 'b'}, ['a']);
+
+      try {
+        await runner.run();
+        expect.fail('run should fail for circular dependencies');
+      } catch (error) {
+        expect((error as Error).message).to.contain('Circular action dependency');
+      }
+    });
+
+    it('should not start dependents of a failed action', async () => {
+      let dependentExecuted = false;
+      let siblingFinished = false;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        async execute() {
+          throw new Error('boom');
+        },
+        name: 'failing',
+      }, []);
+      runner.addAction({
+        async execute() {
+          await delay(10);
+          siblingFinished = true;
+          return {};
+        },
+        name: 'sibling',
+      }, []);
+      runner.addAction({
+        async execute() {
+          dependentExecuted = true;
+          return {};
+        },
+        name: 'dependent',
+      }, ['failing', 'sibling']);
+
+      try {
+        await runner.run();
+        expect.fail('run should rethrow the action error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('boom');
+      }
+
+      expect(siblingFinished).to.be.true;
+      expect(dependentExecuted).to.be.false;
+    });
+  });
+
+  describe('Events', () => {
+    it('should report the lifecycle of every action', async () => {
+      const events: ActionEvent[] = [];
+      const runner = new ActionRunner({...createContext(), reporter: createRecordingReporter(events)});
+      runner.addAction({execute: async () => ({crucialOutputPaths: ['app.apk'], outputPaths: ['app.apk']}), name: 'build'});
+      runner.addAction({
+        async execute() {
+          throw new Error('boom');
+        },
+        name: 'install',
+      });
+
+      try {
+        await runner.run();
+        expect.fail('run should rethrow the action error');
+      } catch {}
+
+      const lifecycle = events.filter(event => event.type !== 'log');
+      expect(lifecycle.map(event => event.type)).to.deep.equal([
+        'pipeline-started',
+        'action-started',
+        'action-finished',
+        'action-started',
+        'action-failed',
+        'pipeline-finished',
+      ]);
+      expect(lifecycle[2]).to.deep.include({action: 'build', crucialOutputPaths: ['app.apk'], skipped: false});
+      expect(lifecycle[4]).to.deep.include({action: 'install', error: 'Error: boom'});
+      expect(lifecycle[5]).to.deep.include({success: false});
+    });
+
+    it('should tag log lines and prompts with the running action', async () => {
+      const events: ActionEvent[] = [];
+      const runner = new ActionRunner({...createContext(), reporter: createRecordingReporter(events)});
+      runner.addAction({
+        async execute(context) {
+          await delay(1);
+          context.logger.info('first line\nsecond line');
+          await context.interaction?.ask('Pick device type.', async () => 'simulator');
+          return {};
+        },
+        name: 'prepare',
+      });
+      await runner.run();
+
+      expect(events).to.deep.include({action: 'prepare', level: 'info', message: 'first line', type: 'log'});
+      expect(events).to.deep.include({action: 'prepare', level: 'info', message: 'second line', type: 'log'});
+      expect(events).to.deep.include({action: 'prepare', message: 'Pick device type.', type: 'prompt'});
+    });
+  });
+
+  describe('Interaction', () => {
+    const projectRoot = path.join(os.tmpdir(), 'lepo-action-runner-interaction');
+
+    afterEach(() => {
+      resetPrompts();
+      fs.rmSync(projectRoot, {force: true, recursive: true});
+    });
+
+    it('should show the prompts of parallel actions one at a time', async () => {
+      const events: ActionEvent[] = [];
+      let open = 0;
+      const askSlowly = (name: string): Action => ({
+        dependsOn: [],
+        async execute(context) {
+          await context.interaction?.ask(`Question of ${name}`, async () => {
+            open++;
+            expect(open).to.equal(1);
+            await delay(10);
+            open--;
+            return name;
+          });
+          return {};
+        },
+        name,
+      });
+      const runner = new ActionRunner({...createContext(projectRoot), reporter: createRecordingReporter(events)});
+      runner.addAction(askSlowly('a'));
+      runner.addAction(askSlowly('b'));
+      await runner.run();
+
+      expect(events.filter(event => event.type.startsWith('prompt')).map(event => `${event.type} ${'action' in event ? event.action : ''}`)).to.deep.equal([
+        'prompt a',
+        'prompt-finished a',
+        'prompt b',
+        'prompt-finished b',
+      ]);
+    });
+
+    it('should record the answers of a run for replay', async () => {
+      await configurePrompts({'android-package': 'org.sample.app', yes: true});
+      const runner = new ActionRunner(createContext(projectRoot));
+      runner.addAction({
+        async execute() {
+          await promptText({key: 'android-package', message: 'Android package name'});
+          await promptConfirm({initialValue: true, key: 'stop-running-emulators', message: 'Stop them?'});
+          return {};
+        },
+        name: 'prepare',
+      });
+      await runner.run();
+
+      const recorded = JSON.parse(fs.readFileSync(path.join(projectRoot, '.lepo', RECORDED_ANSWERS_FILE), 'utf8'));
+      expect(recorded).to.deep.equal({'android-package': 'org.sample.app', 'stop-running-emulators': true});
+    });
+  });
+
+  describe('Rollback', () => {
+    it('should roll back the failed action and keep the ones that succeeded before it', async () => {
+      const rolledBack: string[] = [];
+      const runner = new ActionRunner(createContext());
+      runner.addAction(createRollbackAction('a', rolledBack));
+      runner.addAction(createRollbackAction('b', rolledBack));
+      runner.addAction(createRollbackAction('c', rolledBack, true));
+      runner.addAction(createRollbackAction('d', rolledBack));
+
+      try {
+        await runner.run();
+        expect.fail('run should rethrow the action error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('c failed');
+      }
+
+      expect(rolledBack).to.deep.equal(['c']);
+    });
+
+    it('should roll back failed actions in reverse order and keep going when a rollback fails', async () => {
+      const rolledBack: string[] = [];
+      const runner = new ActionRunner(createContext());
+      runner.addAction(createRollbackAction('a', rolledBack, true), []);
+      runner.addAction({
+        async execute() {
+          throw new Error('b failed');
+        },
+        name: 'b',
+        rollback() {
+          throw new Error('cannot undo');
+        },
+      }, []);
+      runner.addAction(createRollbackAction('c', rolledBack, true), []);
+
+      try {
+        await runner.run();
+        expect.fail('run should rethrow the action error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('a failed');
+      }
+
+      expect(rolledBack).to.deep.equal(['c', 'a']);
+    });
+
+    it('should not roll back a successful pipeline', async () => {
+      const rolledBack: string[] = [];
+      const runner = new ActionRunner(createContext());
+      runner.addAction(createRollbackAction('a', rolledBack));
+      runner.addAction(createRollbackAction('b', rolledBack));
+      await runner.run();
+
+      expect(rolledBack).to.be.empty;
+    });
+  });
+
+  describe('Artifacts', () => {
+    it('should hand declared artifacts from transitive dependencies to an action', async () => {
+      let received: unknown;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        execute: async () => ({artifacts: {bundles: ['dist/main.lynx.bundle']}}),
+        name: 'build-app',
+        outputs: ['bundles'],
+      });
+      runner.addAction({
+        execute: async () => ({artifacts: {apk: 'app-debug.apk'}}),
+        inputs: ['bundles'],
+        name: 'build-android',
+        outputs: ['apk'],
+      });
+      runner.addAction({
+        async execute(_context, _previousResult, _dependencyResults, artifacts) {
+          received = artifacts;
+          return {};
+        },
+        inputs: ['apk', 'bundles'],
+        name: 'run-android',
+      });
+
+      await runner.run();
+
+      expect(received).to.deep.equal({apk: 'app-debug.apk', bundles: ['dist/main.lynx.bundle']});
+    });
+
+    it('should reject a mis-ordered pipeline before running anything', async () => {
+      let executed = false;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        async execute() {
+          executed = true;
+          return {};
+        },
+        inputs: ['apk'],
+        name: 'run-android',
+      });
+      runner.addAction({
+        async execute() {
+          executed = true;
+          return {artifacts: {apk: 'app-debug.apk'}};
+        },
+        name: 'build-android',
+        outputs: ['apk'],
+      });
+
+      try {
+        await runner.run();
+        expect.fail('run should reject the pipeline');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Action run-android needs the apk artifact of build-android, but does not depend on it');
+      }
+
+      expect(executed).to.be.false;
+    });
+
+    it('should reject a pipeline in which no action produces an input', async () => {
+      const runner = new ActionRunner(createContext());
+      runner.addAction({execute: async () => ({}), inputs: ['device'], name: 'run-ios'});
+
+      try {
+        await runner.plan();
+        expect.fail('plan should reject the pipeline');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Action run-ios needs the device artifact, but no action in the pipeline produces it');
+      }
+    });
+
+    it('should fail an action that does not return its declared artifacts', async () => {
+      const runner = new ActionRunner(createContext());
+      runner.addAction({execute: async () => ({}), name: 'build-ios', outputs: ['iosApp']});
+
+      try {
+        await runner.run();
+        expect.fail('run should throw');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Action build-ios did not return its declared artifacts: iosApp');
+      }
+    });
+  });
+
+  describe('Interruption', () => {
+    it('should abort the signal, stop tracked processes and roll back on SIGTERM', async () => {
+      const events: ActionEvent[] = [];
+      const rolledBack: string[] = [];
+      const context = {...createContext(), reporter: createRecordingReporter(events)};
+      let exitSignal: NodeJS.Signals | null = null;
+      const runner = new ActionRunner(context);
+      runner.addAction(createRollbackAction('prepare', rolledBack));
+      runner.addAction({
+        execute: () => new Promise((resolve, reject) => {
+          const child = trackChildProcess(spawn('sleep', ['10']));
+          child.on('exit', (_code, signal) => {
+            exitSignal = signal;
+            reject(new Error('sleep was stopped'));
+          });
+          child.on('spawn', () => process.emit('SIGTERM', 'SIGTERM'));
+        }),
+        name: 'serve',
+        rollback() {
+          rolledBack.push('serve');
+        },
+      });
+      runner.addAction(createRollbackAction('never', rolledBack));
+
+      try {
+        await runner.run();
+        expect.fail('run should throw when interrupted');
+      } catch (error) {
+        expect(error).to.be.instanceOf(InterruptedError);
+        expect((error as InterruptedError).oclif.exit).to.equal(143);
+      }
+
+      expect(context.signal?.aborted).to.be.true;
+      expect(events).to.deep.include({signal: 'SIGTERM', type: 'interrupted'});
+      expect(exitSignal).to.equal('SIGTERM');
+      expect(rolledBack).to.deep.equal(['serve']);
+      expect(process.listenerCount('SIGTERM')).to.equal(0);
+    });
+  });
+
+  describe('Retry', () => {
+    it('should retry transient errors and report the retries', async () => {
+      const events: ActionEvent[] = [];
+      const rolledBack: number[] = [];
+      let attempts = 0;
+      const runner = new ActionRunner({...createContext(), reporter: createRecordingReporter(events)});
+      runner.addAction({
+        async execute() {
+          attempts++;
+          if (attempts < 3) throw new TransientError('connection reset');
+          return {};
+        },
+        name: 'install',
+        retry: {attempts: 3, initialDelayMs: 1},
+        rollback() {
+          rolledBack.push(attempts);
+        },
+      });
+
+      await runner.run();
+
+      expect(attempts).to.equal(3);
+      expect(rolledBack).to.deep.equal([1, 2]);
+      const retrying = events.filter(event => event.type === 'action-retrying');
+      expect(retrying.map(event => [event.attempt, event.attempts, event.delayMs])).to.deep.equal([[1, 3, 1], [2, 3, 2]]);
+      expect(events.find(event => event.type === 'action-finished')).to.include({retries: 2});
+    });
+
+    it('should not retry errors outside the policy', async () => {
+      let attempts = 0;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        async execute() {
+          attempts++;
+          throw new Error('compile error');
+        },
+        name: 'build',
+        retry: {attempts: 3, initialDelayMs: 1},
+      });
+
+      try {
+        await runner.run();
+        expect.fail('run should rethrow the action error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('compile error');
+      }
+
+      expect(attempts).to.equal(1);
+    });
+
+    it('should give up after the last attempt', async () => {
+      let attempts = 0;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        async execute() {
+          attempts++;
+          throw new RangeError(`attempt ${attempts}`);
+        },
+        name: 'boot',
+        retry: {attempts: 2, initialDelayMs: 1, retryOn: [RangeError]},
+      });
+
+      try {
+        await runner.run();
+        expect.fail('run should rethrow the action error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('attempt 2');
+      }
+
+      expect(attempts).to.equal(2);
+    });
+  });
+
+  describe('Dry Run', () => {
+    it('should plan actions in dependency order without executing them', async () => {
+      let executed = false;
+      const runner = new ActionRunner(createContext());
+      runner.addAction({
+        async execute() {
+          executed = true;
+          return {};
+        },
+        name: 'build',
+        plan: () => ({commands: ['rspeedy build']}),
+      }, ['install']);
+      runner.addAction({
+        async execute() {
+          executed = true;
+          return {};
+        },
+        name: 'install',
+        plan: () => ({commands: ['npm install']}),
+      }, []);
+
+      const planned = await runner.plan();
+
+      expect(executed).to.be.false;
+      expect(planned.map(p => p.name)).to.deep.equal(['install', 'build']);
+      expect(planned[1]).to.deep.include({dependsOn: ['install'], plan: {commands: ['rspeedy build']}});
+    });
+
+    it('should plan actions without a plan as empty', async () => {
+      const runner = new ActionRunner(createContext());
+      runner.addAction({execute: async () => ({}), name: 'a'});
+
+      const planned = await runner.plan();
+
+      expect(planned).to.deep.equal([{dependsOn: [], description: undefined, name: 'a', plan: {}}]);
+    });
+  });
+
+  describe('Profiling', () => {
+    const testDir = path.join(os.tmpdir(), 'lepo-action-runner-profile-test');
+
+    afterEach(() => {
+      fs.rmSync(testDir, {force: true, recursive: true});
+    });
+
+    it('should write a trace with action and child process spans', async () => {
+      const events: ActionEvent[] = [];
+      const runner = new ActionRunner({...createContext(testDir), profiler: new Profiler(), reporter: createRecordingReporter(events)});
+      runner.addAction({
+        execute: () => new Promise((resolve, reject) => {
+          trackChildProcess(spawn(process.execPath, ['-e', '0'])).on('exit', code => (code === 0 ? resolve({}) : reject(new Error(`exit ${code}`))));
+        }),
+        name: 'install',
+      });
+
+      await runner.run();
+
+      const profile = events.find(event => event.type === 'profile-written');
+      if (profile?.type !== 'profile-written') throw new Error('profile-written was not emitted');
+      expect(profile.spans.map(span => [span.category, span.lane])).to.deep.equal([
+        ['pipeline', 'pipeline'],
+        ['action', 'install'],
+        ['process', 'install'],
+      ]);
+      const trace = JSON.parse(fs.readFileSync(profile.file, 'utf8'));
+      expect(trace.traceEvents.filter((event: {ph: string}) => event.ph === 'X')).to.have.length(3);
+      expect(formatTimingSummary(profile.spans).map(line => line.trim().split(/\s+/)[0])).to.deep.equal(['install', 'total']);
+    });
+  });
+
+  describe('Resume', () => {
+    const testDir = path.join(os.tmpdir(), 'lepo-action-runner-resume-test');
+
+    beforeEach(() => {
+      fs.rmSync(testDir, {force: true, recursive: true});
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, {force: true, recursive: true});
+    });
+
+    // install -> build -> launch, where launch fails while `failing.launch` is set
+    function createPipeline(runs: string[], failing: {launch: boolean}, options: {from?: string, resume?: boolean} = {}) {
+      const step = (name: string): Action => ({
+        async execute() {
+          runs.push(name);
+          if (name === 'launch' && failing.launch) throw new Error('launch failed');
+          return name === 'build' ? {artifacts: {apk: 'app.apk'}} : {};
+        },
+        name,
+        ...(name === 'build' ? {outputs: ['apk'] as const} : {}),
+        ...(name === 'launch' ? {inputs: ['apk'] as const} : {}),
+      });
+      const runner = new ActionRunner(createContext(testDir));
+      runner.addAction(step('install'));
+      runner.addAction(step('build'));
+      runner.addAction(step('launch'));
+      return runner.run(options);
+    }
+
+    it('should continue from the failed action with --resume', async () => {
+      const runs: string[] = [];
+      const failing = {launch: true};
+      await createPipeline(runs, failing).catch(() => {});
+      failing.launch = false;
+
+      let launchedApk: string | undefined;
+      const events: ActionEvent[] = [];
+      const runner = new ActionRunner({...createContext(testDir), reporter: createRecordingReporter(events)});
+      runner.addAction({async execute() { throw new Error('install should be restored'); }, name: 'install'});
+      runner.addAction({async execute() { throw new Error('build should be restored'); }, name: 'build', outputs: ['apk'] as const});
+      runner.addAction({
+        async execute(_context, _previousResult, _dependencyResults, artifacts: {apk: string}) {
+          launchedApk = artifacts.apk;
+          return {};
+        },
+        inputs: ['apk'] as const,
+        name: 'launch',
+      });
+      await runner.run({resume: true});
+
+      expect(runs).to.deep.equal(['install', 'build', 'launch']);
+      expect(launchedApk).to.equal('app.apk');
+      expect(events.filter(event => event.type === 'action-finished' && event.resumed).map(event => event.type === 'action-finished' && event.action))
+        .to.deep.equal(['install', 'build']);
+    });
+
+    it('should keep the completed actions and their outputs for --resume when the last action fails', async () => {
+      const runs: string[] = [];
+      const apk = path.join(testDir, 'android', 'app.apk');
+      const pipeline = (emulatorFails: boolean) => {
+        const runner = new ActionRunner(createContext(testDir));
+        runner.addAction({
+          async execute() {
+            runs.push('prepare-android-project');
+            fs.mkdirSync(path.dirname(apk), {recursive: true});
+            return {};
+          },
+          name: 'prepare-android-project',
+          outputFiles: () => [path.dirname(apk)],
+          rollback() {
+            fs.rmSync(path.dirname(apk), {force: true, recursive: true});
+          },
+        });
+        runner.addAction({
+          async execute() {
+            runs.push('build-android');
+            fs.writeFileSync(apk, 'apk');
+            return {artifacts: {apk}};
+          },
+          name: 'build-android',
+          outputFiles: () => [apk],
+          outputs: ['apk'] as const,
+          rollback() {
+            fs.rmSync(apk, {force: true});
+          },
+        });
+        runner.addAction({
+          async execute() {
+            runs.push('run-android-emulator');
+            if (emulatorFails) throw new Error('The emulator did not boot');
+            return {};
+          },
+          inputs: ['apk'] as const,
+          name: 'run-android-emulator',
+        });
+        return runner;
+      };
+
+      await pipeline(true).run().catch(() => {});
+      expect(fs.existsSync(apk)).to.be.true;
+
+      runs.length = 0;
+      await pipeline(false).run({resume: true});
+
+      expect(runs).to.deep.equal(['run-android-emulator']);
+    });
+
+    it('should rerun an action and its dependents with --from', async () => {
+      const runs: string[] = [];
+      await createPipeline(runs, {launch: false});
+      runs.length = 0;
+      await createPipeline(runs, {launch: false}, {from: 'build'});
+
+      expect(runs).to.deep.equal(['build', 'launch']);
+    });
+
+    it('should refuse to resume a finished run or a different pipeline', async () => {
+      const runs: string[] = [];
+      await createPipeline(runs, {launch: false});
+
+      const finishedError = await createPipeline(runs, {launch: false}, {resume: true}).then(() => {}, (error: Error) => error);
+      expect(finishedError?.message).to.contain('nothing to resume');
+
+      const runner = new ActionRunner(createContext(testDir));
+      runner.addAction({async execute() { return {}; }, name: 'other'});
+      const otherError = await runner.run({from: 'other'}).then(() => {}, (error: Error) => error);
+      expect(otherError?.message).to.contain('different pipeline');
+    });
+
+    it('should not restore an action that was rolled back', async () => {
+      const runs: string[] = [];
+      await createPipeline(runs, {launch: true}).catch(() => {});
+
+      // The build output is gone, restoring the build fails and undoes it
+      const failed = new ActionRunner(createContext(testDir));
+      failed.addAction({async execute() { runs.push('install'); return {}; }, name: 'install'});
+      failed.addAction({async execute() { return {}; }, name: 'build', restore() { throw new Error('app.apk is missing'); }, rollback() {}});
+      failed.addAction({async execute() { runs.push('launch'); return {}; }, name: 'launch'});
+      await failed.run({resume: true}).catch(() => {});
+
+      runs.length = 0;
+      await createPipeline(runs, {launch: false}, {resume: true});
+
+      expect(runs).to.deep.equal(['build', 'launch']);
+    });
+  });
+
+  describe('Incremental Actions', () => {
+    const testDir = path.join(os.tmpdir(), 'lepo-action-runner-test');
+
+    beforeEach(() => {
+      fs.rmSync(testDir, {force: true, recursive: true});
+      fs.mkdirSync(path.join(testDir, 'src'), {recursive: true});
+      fs.writeFileSync(path.join(testDir, 'src', 'index.ts'), 'export const a = 1;');
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, {force: true, recursive: true});
+    });
+
+    function createBuildAction(counter: {runs: number}): Action {
+      return {
+        async execute(context) {
+          counter.runs++;
+          fs.writeFileSync(path.join(context.projectRoot, 'out.txt'), 'built');
+          return {outputPaths: [path.join(context.projectRoot, 'out.txt')]};
+        },
+        inputFiles: (context) => [path.join(context.projectRoot, 'src')],
+        name: 'build',
+        outputFiles: (context) => [path.join(context.projectRoot, 'out.txt')],
+      };
+    }
+
+    async function runBuild(counter: {runs: number}) {
+      const runner = new ActionRunner(createContext(testDir));
+      runner.addAction(createBuildAction(counter));
+      await runner.run();
+    }
+
+    it('should skip an action whose inputs are unchanged', async () => {
+      const counter = {runs: 0};
+      await runBuild(counter);
+      await runBuild(counter);
+
+      expect(counter.runs).to.equal(1);
+      expect(fs.existsSync(path.join(testDir, '.lepo', 'action-cache.json'))).to.be.true;
+    });
+
+    it('should rerun an action when an input changes', async () => {
+      const counter = {runs: 0};
+      await runBuild(counter);
+      fs.writeFileSync(path.join(testDir, 'src', 'index.ts'), 'export const a = 2;');
+      await runBuild(counter);
+
+      expect(counter.runs).to.equal(2);
+    });
+
+    it('should rerun an action when an output is missing', async () => {
+      const counter = {runs: 0};
+      await runBuild(counter);
+      fs.rmSync(path.join(testDir, 'out.txt'));
+      await runBuild(counter);
+
+      expect(counter.runs).to.equal(2);
+    });
+
+    it('should keep an entry per cache key and rerun when a fingerprint extra changes', async () => {
+      const counter = {runs: 0};
+      const run = async (cacheKey: string, keyAlias: string) => {
+        const runner = new ActionRunner(createContext(testDir));
+        runner.addAction({...createBuildAction(counter), cacheKey, fingerprintExtras: () => [keyAlias]});
+        await runner.run();
+      };
+
+      await run('build-debug', 'upload');
+      await run('build-release', 'upload');
+      await run('build-debug', 'upload');
+      expect(counter.runs).to.equal(2);
+
+      await run('build-release', 'release');
+      expect(counter.runs).to.equal(3);
+    });
+
+    it('should hand the cached result to dependent actions', async () => {
+      const counter = {runs: 0};
+      await runBuild(counter);
+
+      let previous: ActionResult | undefined;
+      const runner = new ActionRunner(createContext(testDir));
+      runner.addAction(createBuildAction(counter));
+      runner.addAction({
+        async execute(_context, previousResult) {
+          previous = previousResult;
+          return {};
+        },
+        name: 'consume',
+      });
+      await runner.run();
+
+      expect(counter.runs).to.equal(1);
+      expect(previous?.outputPaths).to.deep.equal([path.join(testDir, 'out.txt')]);
+    });
+  });
+});
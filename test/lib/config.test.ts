@@ -0,0 +1,65 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {APP_CONFIG_SCHEMA, coerceConfigValue, schemaAt, validateConfig} from '../../src/core/config-schema.js';
+import {Config, getConfigValue, loadConfig, parseConfigPath, saveConfig, setConfigValue, unsetConfigValue} from '../../src/core/config.js';
+
+describe('Config', () => {
+  it('should get, set and unset values by dotted path, keeping the key order', () => {
+    const config = {platforms: {android: {assetsDir: 'app/src/main/assets', platformDir: 'android'}}, precommands: ['pnpm codegen']};
+    expect(getConfigValue(config, parseConfigPath('platforms.android.platformDir'))).to.equal('android');
+    expect(getConfigValue(config, parseConfigPath('precommands.0'))).to.equal('pnpm codegen');
+    expect(getConfigValue(config, parseConfigPath('platforms.ios.platformDir'))).to.be.undefined;
+    expect(getConfigValue(config, parseConfigPath('platforms.toString'))).to.be.undefined;
+    expect(() => getConfigValue(config, parseConfigPath('constructor'))).to.throw('constructor cannot be a key of the config');
+    expect(() => getConfigValue(config, parseConfigPath('platforms.__proto__'))).to.throw('__proto__ cannot be a key of the config');
+
+    setConfigValue(config, parseConfigPath('platforms.android.assetsDir'), 'assets');
+    setConfigValue(config, parseConfigPath('platforms.android.signing.keyAlias'), 'upload');
+    expect(Object.keys(config.platforms.android)).to.deep.equal(['assetsDir', 'platformDir', 'signing']);
+    expect(config.platforms.android).to.deep.include({assetsDir: 'assets', signing: {keyAlias: 'upload'}});
+    expect(() => setConfigValue(config, parseConfigPath('platforms.android.platformDir.x'), 1)).to.throw('platforms.android.platformDir is a string');
+    expect(() => setConfigValue(config, parseConfigPath('precommands.x'), 'pnpm lint')).to.throw('precommands is an array of 1, x is not an index of it');
+
+    expect(unsetConfigValue(config, parseConfigPath('precommands.0'))).to.be.true;
+    expect(unsetConfigValue(config, parseConfigPath('platforms.web'))).to.be.false;
+    expect(unsetConfigValue(config, parseConfigPath('platforms.toString'))).to.be.false;
+    expect(config.precommands).to.deep.equal([]);
+    expect(() => parseConfigPath('platforms..android')).to.throw('Invalid config path');
+    expect(() => setConfigValue(config, parseConfigPath('__proto__.polluted'), true)).to.throw('__proto__ cannot be a key of the config');
+    expect(() => unsetConfigValue(config, parseConfigPath('platforms.constructor'))).to.throw('constructor cannot be a key of the config');
+    expect(({} as Record<string, unknown>).polluted).to.be.undefined;
+  });
+
+  it('should coerce values to the type of the schema and report schema problems', () => {
+    expect(coerceConfigValue('42', schemaAt(APP_CONFIG_SCHEMA, ['platforms', 'android', 'platformDir']))).to.equal('42');
+    expect(coerceConfigValue('["a"]', schemaAt(APP_CONFIG_SCHEMA, ['precommands']))).to.deep.equal(['a']);
+    expect(coerceConfigValue('a', schemaAt(APP_CONFIG_SCHEMA, ['precommands', '0']))).to.equal('a');
+    expect(coerceConfigValue('true', schemaAt(APP_CONFIG_SCHEMA, ['platforms', 'android', 'customFlag']))).to.equal(true);
+    expect(() => coerceConfigValue('a', schemaAt(APP_CONFIG_SCHEMA, ['precommands']))).to.throw('Expected a JSON array');
+
+    expect(validateConfig({platforms: {android: {platformDir: 'android', templateKey: 1}}, precommands: []}, APP_CONFIG_SCHEMA)).to.deep.equal([]);
+    expect(validateConfig({platform: {}, platforms: {ios: {assetsDir: 1}}, precommands: [1]}, APP_CONFIG_SCHEMA)).to.deep.equal([
+      'platform: unknown key, expected one of platforms, precommands',
+      'platforms.ios.platformDir: is required',
+      'platforms.ios.assetsDir: expected string, got number',
+      'precommands.0: expected string, got number',
+    ]);
+  });
+
+  it('should keep the indentation and final newline of the file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lepo-config-test-'));
+    const file = path.join(dir, 'lynx.app.json');
+    try {
+      fs.writeFileSync(file, '{\n    "platforms": {},\n    "precommands": []\n}\n');
+      const config: Config = loadConfig(file);
+      config.precommands.push('pnpm codegen');
+      saveConfig(file, config);
+      expect(fs.readFileSync(file, 'utf8')).to.equal('{\n    "platforms": {},\n    "precommands": [\n        "pnpm codegen"\n    ]\n}\n');
+    } finally {
+      fs.rmSync(dir, {force: true, recursive: true});
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import {expect} from 'chai';
+
+import {parseLogcatLine, parseOsLogLine} from '../../src/core/device-logs.js';
+
+describe('Device logs', () => {
+  it('should parse logcat lines and tell Lynx console output and crashes apart', () => {
+    expect(parseLogcatLine('10-19 12:00:01.234  4242  4260 I lynx    : [console.log] hello from JS')).to.deep.include({
+      console: true,
+      level: 'info',
+      message: '[console.log] hello from JS',
+      tag: 'lynx',
+    });
+    expect(parseLogcatLine('10-19 12:00:02.000  4242  4242 I AndroidRuntime: FATAL EXCEPTION: main')).to.deep.include({console: false, level: 'error'});
+    expect(parseLogcatLine('10-19 12:00:03.000  4242  4242 V Choreographer: Skipped 3 frames')?.level).to.equal('verbose');
+    expect(parseLogcatLine('--------- beginning of main')).to.be.undefined;
+  });
+
+  it('should parse the compact style of log stream', () => {
+    expect(parseOsLogLine('2026-10-19 12:00:01.234 E  MyApp[4242:1a2b] [com.example.MyApp:lynx] [console.error] failed')).to.deep.include({
+      console: true,
+      level: 'error',
+      message: '[console.error] failed',
+      tag: 'MyApp com.example.MyApp:lynx',
+    });
+    expect(parseOsLogLine('2026-10-19 12:00:01.300 Df MyApp[4242:1a2b] view loaded')).to.deep.include({level: 'info', tag: 'MyApp'});
+    expect(parseOsLogLine('Filtering the log data using "subsystem BEGINSWITH "com.example.MyApp""')).to.be.undefined;
+  });
+});
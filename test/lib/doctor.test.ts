@@ -0,0 +1,22 @@
+import {expect} from 'chai';
+
+import {runDoctorChecks, satisfiesMinimum} from '../../src/core/doctor.js';
+import {defaultLogger} from '../../src/logger.js';
+
+describe('Doctor', () => {
+  it('should compare versions with the minimum of an engines range', () => {
+    expect(satisfiesMinimum('v18.0.0', '>=18.0.0')).to.be.true;
+    expect(satisfiesMinimum('v20.1.0', '>=18.17')).to.be.true;
+    expect(satisfiesMinimum('v18.16.1', '>=18.17.0')).to.be.false;
+    expect(satisfiesMinimum('v16.20.2', '>= 18')).to.be.false;
+    expect(satisfiesMinimum('v16.20.2', '^18.0.0 || ^20.0.0')).to.be.true;
+  });
+
+  it('should report the Node.js version against engines', async () => {
+    const results = await runDoctorChecks({engines: '>=999.0.0', logger: defaultLogger});
+
+    expect(results[0]).to.deep.include({name: 'Node.js', status: 'fail'});
+    expect(results.map(result => result.name)).to.include.members(['Package manager', 'JDK', 'Android SDK', 'Disk space', 'Dev server port']);
+    for (const result of results) expect(result.status).to.be.oneOf(['fail', 'pass', 'warn']);
+  });
+});
@@ -0,0 +1,86 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  addExtensionComponent,
+  ComponentPlatform,
+  componentVariables,
+  DEFAULT_COMPONENT_VARIABLES,
+} from '../../src/core/project-builder/extension-component.js';
+import {ProjectBuilder} from '../../src/core/project-builder/project-builder.js';
+import {templatePath} from '../../src/core/project-builder/template.js';
+
+describe('Extension components', () => {
+  const android: ComponentPlatform = {sourceDir: 'android', variables: {packageName: 'com.example.ext', packagePath: 'com/example/ext'}};
+  let projectRoot: string;
+  const read = (file: string) => fs.readFileSync(path.join(projectRoot, file), 'utf8');
+
+  // An extension with the native module `lepo create extension` starts with
+  beforeEach(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'lepo-component-test-'));
+    const builder = new ProjectBuilder({checkEmpty: false, packageName: 'my-ext', targetDir: projectRoot});
+    builder.addStep({from: templatePath('extension-module-react-ts'), to: '.', variables: {componentName: 'my-ext', ...DEFAULT_COMPONENT_VARIABLES}});
+    builder.addStep({from: templatePath('extension-module-android-kotlin'), to: 'android', variables: {...android.variables, ...DEFAULT_COMPONENT_VARIABLES}});
+    await builder.build();
+    fs.writeFileSync(path.join(projectRoot, 'lynx.lib.json'), '{\n  "platforms": {\n    "android": {"packageName": "com.example.ext", "sourceDir": "android"}\n  },\n  "precommands": []\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, {force: true, recursive: true});
+  });
+
+  it('should name modules and elements after the name given', () => {
+    expect(componentVariables('module', 'Camera')).to.deep.equal({moduleName: 'NativeCameraModule'});
+    expect(componentVariables('module', 'NativeCameraModule')).to.deep.equal({moduleName: 'NativeCameraModule'});
+    expect(componentVariables('element', 'ColorPicker')).to.deep.equal({elementName: 'ColorPicker', elementTag: 'color-picker'});
+    expect(() => componentVariables('element', 'color-picker')).to.throw('Invalid element name "color-picker"');
+  });
+
+  it('should add a module next to the existing one, keeping the files of the extension', async () => {
+    const gradle = read('android/build.gradle.kts');
+    fs.writeFileSync(path.join(projectRoot, 'android/build.gradle.kts'), `${gradle}// mine\n`);
+
+    const changes = await addExtensionComponent(projectRoot, {name: 'Camera', packageName: 'my-ext', platforms: {android}, type: 'module'});
+
+    expect(changes).to.deep.include.members([
+      {change: 'appended', file: 'src/index.tsx'},
+      {change: 'appended', file: 'types/index.d.ts'},
+      {change: 'kept', file: 'android/build.gradle.kts'},
+      {change: 'added', file: 'android/src/main/kotlin/com/example/ext/NativeCameraModule.kt'},
+    ]);
+    expect(read('android/build.gradle.kts')).to.equal(`${gradle}// mine\n`);
+    expect(read('src/index.tsx').split('\n').filter(Boolean)).to.deep.equal([
+      "export { NativeLocalStorageModule } from '../generated/NativeLocalStorageModule.js';",
+      "export { NativeCameraModule } from '../generated/NativeCameraModule.js';",
+    ]);
+    expect(read('types/index.d.ts')).to.match(/class NativeLocalStorageModule \{[\s\S]*\}\n\n\/\*\* @lynxmodule \*\/\nexport declare class NativeCameraModule \{/);
+    expect(read('android/src/main/kotlin/com/example/ext/NativeCameraModule.kt')).to.contain('class NativeCameraModule(private val lynxContext: LynxContext): NativeCameraModuleSpec(lynxContext)');
+
+    await addExtensionComponent(projectRoot, {name: 'Camera', packageName: 'my-ext', platforms: {android}, type: 'module'}).then(
+      () => expect.fail('the module was added twice'),
+      (error: Error) => expect(error.message).to.contain('The extension already has NativeCameraModule'),
+    );
+  });
+
+  it('should add a platform new to the extension to lynx.lib.json', async () => {
+    const ios: ComponentPlatform = {config: {podspecPath: 'ios/MyExt.podspec', sourceDir: 'ios'}, sourceDir: 'ios', variables: {componentName: 'MyExt'}};
+
+    const changes = await addExtensionComponent(projectRoot, {name: 'ColorPicker', packageName: 'my-ext', platforms: {android, ios}, type: 'element'});
+
+    expect(changes).to.deep.include.members([
+      {change: 'added', file: 'src/ColorPicker.tsx'},
+      {change: 'appended', file: 'types/index.d.ts'},
+      {change: 'added', file: 'ios/MyExt/ColorPicker.m'},
+      {change: 'added', file: 'ios/MyExt.podspec'},
+      {change: 'appended', file: 'lynx.lib.json'},
+    ]);
+    expect(read('types/index.d.ts')).to.match(/export declare class NativeLocalStorageModule \{[\s\S]*\}\n\n[\s\S]*interface IntrinsicElements \{\n {4}'color-picker': /);
+    expect(read('ios/MyExt/ColorPicker.m')).to.contain('LYNX_LAZY_REGISTER_UI("color-picker")');
+    expect(JSON.parse(read('lynx.lib.json')).platforms).to.deep.equal({
+      android: {packageName: 'com.example.ext', sourceDir: 'android'},
+      ios: {podspecPath: 'ios/MyExt.podspec', sourceDir: 'ios'},
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  configurePrompts,
+  MissingAnswerError,
+  promptConfirm,
+  promptMultiselect,
+  promptSelect,
+  promptText,
+  resetPrompts,
+} from '../../src/core/prompts.js';
+import {androidProvider} from '../../src/template-context-provider/platform-providers.js';
+
+const PLATFORM_OPTIONS = [
+  {label: 'Android', value: 'android'},
+  {label: 'iOS', value: 'ios'},
+  {label: 'Web', value: 'web'},
+];
+
+function requireValue(value: string) {
+  return value.length === 0 ? 'iOS bundle id is required' : undefined;
+}
+
+describe('Prompts', () => {
+  const answersFile = path.join(os.tmpdir(), 'lepo-prompts-test.answers.json');
+
+  afterEach(() => {
+    resetPrompts();
+    fs.rmSync(answersFile, {force: true});
+  });
+
+  it('should take answers from flags over the answers file', async () => {
+    fs.writeFileSync(answersFile, JSON.stringify({'android-package': 'com.example.file', overwrite: 'no', type: 'module'}));
+    await configurePrompts({'android-package': 'com.example.flag', answers: answersFile});
+
+    expect(await promptText({key: 'android-package', message: 'Android package name'})).to.equal('com.example.flag');
+    expect(await promptSelect({key: 'type', message: 'Select extension type', options: [{value: 'element'}, {value: 'module'}]})).to.equal('module');
+    expect(await promptConfirm({key: 'overwrite', message: 'Continue?'})).to.be.false;
+  });
+
+  it('should pick options by value or label and split comma separated lists', async () => {
+    await configurePrompts({platforms: 'android, iOS'});
+
+    expect(await promptMultiselect({key: 'platforms', message: 'Choose platforms', options: PLATFORM_OPTIONS})).to.deep.equal(['android', 'ios']);
+  });
+
+  it('should reject answers that are not an option or do not validate', async () => {
+    await configurePrompts({'bundle-id': '', type: 'widget'});
+
+    let error: Error | undefined;
+    try {
+      await promptSelect({key: 'type', message: 'Select extension type', options: [{value: 'element'}, {value: 'module'}]});
+    } catch (error_) {
+      error = error_ as Error;
+    }
+
+    expect(error?.message).to.contain('expected one of: element, module');
+    const invalid = await promptText({key: 'bundle-id', message: 'iOS bundle id', validate: requireValue}).then(() => {}, (error_: Error) => error_);
+    expect(invalid?.message).to.contain('iOS bundle id is required');
+  });
+
+  it('should use defaults and fail on missing answers with --yes', async () => {
+    await configurePrompts({yes: true});
+
+    expect(await promptText({defaultValue: 'lepo-project', key: 'name', message: 'Project name or path'})).to.equal('lepo-project');
+    expect(await promptMultiselect({key: 'platforms', message: 'Choose platforms', options: PLATFORM_OPTIONS, required: false})).to.deep.equal([]);
+    const error = await promptSelect({key: 'type', message: 'Select extension type', options: [{value: 'element'}]}).then(() => {}, (error_: Error) => error_);
+    expect(error).to.be.instanceOf(MissingAnswerError);
+    expect(error?.message).to.contain('pass --type');
+  });
+
+  it('should answer the template variables of a platform', async () => {
+    await configurePrompts({'android-package': 'org.sample.app', ci: true});
+
+    expect(await androidProvider.collectAppTemplateVariables('sample-app')).to.deep.equal({
+      appName: 'sampleapp',
+      packageName: 'org.sample.app',
+      packagePath: 'org/sample/app',
+    });
+  });
+});
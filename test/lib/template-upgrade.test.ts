@@ -0,0 +1,97 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {ProjectBuilder} from '../../src/core/project-builder/project-builder.js';
+import {hashContent, readTemplateLock, saveTemplateBase, writeTemplateLock} from '../../src/core/project-builder/template-lock.js';
+import {upgradeTemplates} from '../../src/core/project-builder/template-upgrade.js';
+import {templatePath} from '../../src/core/project-builder/template.js';
+
+describe('Template upgrade', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'lepo-upgrade-test-'));
+    const builder = ProjectBuilder.create({checkEmpty: false, packageName: 'my-app', projectRoot, targetDir: projectRoot});
+    await builder.loadTemplate(templatePath('app-common-react-ts'), {variables: {appName: 'my-app'}});
+    await builder.build();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, {force: true, recursive: true});
+  });
+
+  // Pretend the project was created from an older template, in which `file` read `base`
+  function renderedBefore(file: string, base: string) {
+    const lock = readTemplateLock(projectRoot)!;
+    lock.entries['.'].files[file] = saveTemplateBase(projectRoot, Buffer.from(base));
+    writeTemplateLock(projectRoot, lock);
+  }
+
+  it('should record the rendered templates in the template lock', () => {
+    const entry = readTemplateLock(projectRoot)?.entries['.'];
+    expect(entry?.steps.map(step => step.template)).to.deep.equal(['app-common-react-ts']);
+    expect(entry?.files['src/index.tsx']).to.equal(hashContent(fs.readFileSync(path.join(projectRoot, 'src/index.tsx'))));
+  });
+
+  it('should keep the changes hooks made to the rendered templates', async () => {
+    const example = path.join(projectRoot, 'example');
+    const builder = ProjectBuilder.create({checkEmpty: false, packageName: 'my-app-example', projectRoot, targetDir: example});
+    await builder.loadTemplate(templatePath('app-common-react-ts'), {variables: {appName: 'my-app-example'}});
+    builder.addStep({
+      postHook() {
+        fs.appendFileSync(path.join(example, 'src/App.css'), '.mine {}\n');
+      },
+    });
+    await builder.build();
+
+    const {changes} = await upgradeTemplates(projectRoot, {dryRun: true});
+
+    expect(changes).to.deep.equal([]);
+  });
+
+  it('should merge your changes into the new template and report conflicts', async () => {
+    const read = (file: string) => fs.readFileSync(path.join(projectRoot, file), 'utf8');
+    const write = (file: string, content: string) => fs.writeFileSync(path.join(projectRoot, file), content);
+    const config = read('lynx.config.ts');
+    const index = read('src/index.tsx');
+
+    // The template changed a line you did not touch
+    renderedBefore('lynx.config.ts', config.replace('Infinity', '0'));
+    write('lynx.config.ts', config.replace('Infinity', '0').replace('pluginReactLynx(),', 'pluginReactLynx(),\n    pluginQRCode(),'));
+    // The template and you changed the same line
+    renderedBefore('src/index.tsx', index.replace('<App />', '<App title="old" />'));
+    write('src/index.tsx', index.replace('<App />', '<App title="mine" />'));
+    // Only the template changed it
+    renderedBefore('src/App.css', '.old {}\n');
+    write('src/App.css', '.old {}\n');
+
+    const {changes} = await upgradeTemplates(projectRoot);
+
+    expect(changes).to.deep.include.members([
+      {change: 'merged', file: 'lynx.config.ts'},
+      {change: 'conflict', conflicts: 1, file: 'src/index.tsx'},
+      {change: 'updated', file: 'src/App.css'},
+    ]);
+    expect(read('lynx.config.ts')).to.include('dataUriLimit: Infinity').and.include('pluginQRCode()');
+    expect(read('src/index.tsx')).to.match(/<<<<<<< yours\nroot.render\(<App title="mine" \/>\)\n=======\nroot.render\(<App \/>\)\n>>>>>>> template/);
+    expect(read('src/App.css')).to.equal(fs.readFileSync(path.join(templatePath('app-common-react-ts'), 'src/App.css'), 'utf8'));
+    expect(readTemplateLock(projectRoot)?.entries['.'].files['src/index.tsx']).to.equal(hashContent(index));
+  });
+
+  it('should refuse to upgrade without the lock or its bases', async () => {
+    const baseDir = path.join(projectRoot, '.lepo', 'template-base');
+    fs.rmSync(path.join(baseDir, fs.readdirSync(baseDir)[0]));
+    await upgradeTemplates(projectRoot).then(
+      () => expect.fail('the project was upgraded'),
+      (error: Error) => expect(error.message).to.contain('have no base in .lepo/template-base'),
+    );
+
+    fs.rmSync(path.join(projectRoot, '.lepo'), {force: true, recursive: true});
+    await upgradeTemplates(projectRoot).then(
+      () => expect.fail('the project was upgraded'),
+      (error: Error) => expect(error.message).to.contain('no template lock at .lepo/template-lock.json'),
+    );
+  });
+});
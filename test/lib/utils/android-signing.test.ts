@@ -0,0 +1,51 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {androidVersion, releaseGradleEnv, resolveSigningConfig, saveSigningSettings} from '../../../src/utils/android-signing.js';
+
+describe('Android signing', () => {
+  const projectRoot = path.join(os.tmpdir(), 'lepo-android-signing-test');
+
+  beforeEach(() => {
+    fs.mkdirSync(projectRoot, {recursive: true});
+    fs.writeFileSync(path.join(projectRoot, 'lynx.app.json'), JSON.stringify({platforms: {android: {platformDir: 'android'}}, precommands: []}));
+    fs.writeFileSync(path.join(projectRoot, 'release.keystore'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, {force: true, recursive: true});
+  });
+
+  it('should take the keystore from lynx.app.json and the passwords from the environment', () => {
+    expect(saveSigningSettings(projectRoot, {keyAlias: 'upload', keystore: 'release.keystore'})).to.be.true;
+
+    const signing = resolveSigningConfig(projectRoot, {LEPO_ANDROID_KEYSTORE_PASSWORD: 'secret'});
+    expect(signing).to.deep.equal({
+      keyAlias: 'upload',
+      keyPassword: 'secret',
+      keystore: path.join(projectRoot, 'release.keystore'),
+      storePassword: 'secret',
+    });
+    const {platforms} = JSON.parse(fs.readFileSync(path.join(projectRoot, 'lynx.app.json'), 'utf8'));
+    expect(platforms.android).to.deep.equal({platformDir: 'android', signing: {keyAlias: 'upload', keystore: 'release.keystore'}});
+  });
+
+  it('should name every missing setting', () => {
+    expect(() => resolveSigningConfig(projectRoot, {LEPO_ANDROID_KEY_ALIAS: 'upload'}))
+      .to.throw(/set LEPO_ANDROID_KEYSTORE \(or platforms\.android\.signing\.keystore in lynx\.app\.json\), LEPO_ANDROID_KEYSTORE_PASSWORD\./);
+  });
+
+  it('should derive the version and pass it to Gradle with the signing config', () => {
+    expect(androidVersion('1.4.2-beta.1')).to.deep.equal({versionCode: 10_402, versionName: '1.4.2-beta.1'});
+    expect(() => androidVersion('1.100.0')).to.throw('minor and patch must be below 100');
+
+    const env = releaseGradleEnv({keyAlias: 'upload', keyPassword: 'key', keystore: '/keys/release.keystore', storePassword: 'store'}, androidVersion('2.0.1'));
+    expect(env).to.include({
+      'ORG_GRADLE_PROJECT_android.injected.signing.store.file': '/keys/release.keystore',
+      'ORG_GRADLE_PROJECT_android.injected.signing.store.password': 'store',
+      'ORG_GRADLE_PROJECT_android.injected.version.code': '20001',
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {expect} from 'chai';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {ActionContext} from '../../../src/core/actions/action.js';
+import {PrepareDeviceAction} from '../../../src/core/actions/prepare-device-action.js';
+import {AndroidDevice, connectAndroidDevice, DeviceTarget, findAndroidDevice, findDeviceTarget, listAndroidDevices, reviveDevice} from '../../../src/utils/devices.js';
+
+// Answers like adb does for one phone, one emulator and one phone that was not allowed yet
+const FAKE_ADB = `#!/bin/sh
+case "$*" in
+  "devices -l") printf 'List of devices attached\\nR58M123 device usb:1-1 product:beyond1 model:SM_G973F device:beyond1\\nemulator-5554 device product:sdk_gphone64 model:sdk_gphone64_x86_64\\nZY22 unauthorized usb:1-2\\n' ;;
+  "-s emulator-5554 emu avd name") printf 'lepo_avd\\r\\nOK\\r\\n' ;;
+  "-s R58M123 shell getprop ro.build.version.release") echo 13 ;;
+  "-s emulator-5554 shell getprop ro.build.version.release") echo 16 ;;
+  "connect 192.168.1.20:5555") echo 'failed to connect to 192.168.1.20:5555' ;;
+  "-s R58M123 install -r /tmp/app.apk") echo Success ;;
+  "-s R58M123 shell am start -n com.example.app/.MainActivity") echo 'Starting: Intent { cmp=com.example.app/.MainActivity }' ;;
+  *) exit 1 ;;
+esac
+`;
+
+describe('Devices', () => {
+  const sdkRoot = path.join(os.tmpdir(), 'lepo-devices-test');
+  const androidHome = process.env.ANDROID_HOME;
+
+  before(function () {
+    if (os.platform() === 'win32') this.skip();
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(sdkRoot, 'platform-tools'), {recursive: true});
+    fs.writeFileSync(path.join(sdkRoot, 'platform-tools', 'adb'), FAKE_ADB, {mode: 0o755});
+    process.env.ANDROID_HOME = sdkRoot;
+  });
+
+  afterEach(() => {
+    if (androidHome === undefined) delete process.env.ANDROID_HOME;
+    else process.env.ANDROID_HOME = androidHome;
+    fs.rmSync(sdkRoot, {force: true, recursive: true});
+  });
+
+  it('should list connected devices and emulators from adb', async () => {
+    expect(await listAndroidDevices()).to.deep.equal([
+      {id: 'R58M123', name: 'SM G973F', osVersion: 'Android 13', platform: 'android', state: 'booted', type: 'real-device'},
+      {id: 'emulator-5554', name: 'lepo_avd', osVersion: 'Android 16', platform: 'android', state: 'booted', type: 'emulator'},
+      {id: 'ZY22', name: 'ZY22', osVersion: undefined, platform: 'android', state: 'unauthorized', type: 'real-device'},
+    ]);
+  });
+
+  it('should find a device by id or name, preferring a running emulator to its AVD', () => {
+    const targets: DeviceTarget[] = [
+      {id: 'lepo_avd', name: 'lepo_avd', platform: 'android', state: 'booted', type: 'avd'},
+      {id: 'emulator-5554', name: 'lepo_avd', platform: 'android', state: 'booted', type: 'emulator'},
+    ];
+    expect(findDeviceTarget('lepo_avd', targets).id).to.equal('emulator-5554');
+    expect(findDeviceTarget('lepo_avd', targets.slice(0, 1)).type).to.equal('avd');
+    expect(() => findDeviceTarget('pixel', targets)).to.throw('No device pixel, run `lepo devices`');
+  });
+
+  it('should find Android devices to run on and restore them from a checkpoint', async () => {
+    const phone = await findAndroidDevice('SM G973F');
+    expect(phone).to.deep.include({deviceType: 'real-device', name: 'SM G973F', platform: 'android', state: 'booted', udid: 'R58M123'});
+    expect((await findAndroidDevice('lepo_avd')).deviceType).to.equal('simulator');
+    await findAndroidDevice('ZY22').then(() => expect.fail('an unauthorized device was picked'), (error: Error) => {
+      expect(error.message).to.equal('ZY22 (ZY22) is unauthorized, connect it with USB debugging enabled and allow this computer on it');
+    });
+
+    const revived = reviveDevice(structuredClone(phone));
+    expect(revived).to.deep.include({platform: 'android', udid: 'R58M123'});
+    expect(revived.install).to.be.a('function');
+  });
+
+  it('should install and launch apps on an Android device with adb', async () => {
+    const phone = new AndroidDevice('SM G973F', 'booted', 'R58M123', 'real-device');
+    await phone.install('/tmp/app.apk');
+    await phone.launch('com.example.app/.MainActivity');
+
+    await new AndroidDevice('lepo_avd', 'shutdown', undefined, 'simulator').launch('com.example.app').then(() => expect.fail('the app was launched'), (error: Error) => {
+      expect(error.message).to.equal('The emulator of lepo_avd is not running, start it with lepo run android --device lepo_avd');
+    });
+  });
+
+  it('should report a failed Wi-Fi connection although adb exits with 0', async () => {
+    await connectAndroidDevice('192.168.1.20:5555').then(() => expect.fail('the device was connected'), (error: Error) => {
+      expect(error.message).to.equal('Connecting to 192.168.1.20:5555 failed: failed to connect to 192.168.1.20:5555. Pair the device first with --pair and --code');
+    });
+  });
+
+  it('should prepare several Android devices, or all online ones', async () => {
+    const context = {platform: 'android'} as ActionContext;
+    const named = await new PrepareDeviceAction({device: 'emulator-5554, SM G973F,R58M123'}).execute(context);
+    expect(named.artifacts?.devices?.map(device => device.udid)).to.deep.equal(['emulator-5554', 'R58M123']);
+    expect(named.artifacts?.device?.udid).to.equal('emulator-5554');
+
+    const all = await new PrepareDeviceAction({allDevices: true}).execute(context);
+    expect(all.artifacts?.devices?.map(device => device.udid)).to.deep.equal(['R58M123', 'emulator-5554']);
+  });
+});
@@ -0,0 +1,74 @@
+import {expect} from 'chai';
+
+import {TransientError} from '../../../src/core/actions/retry.js';
+import {OutputSource, ProcessError, runProcess, startProcess} from '../../../src/utils/process-runner.js';
+
+// Run a node script as the child process, so the tests do not depend on tools of the machine
+function node(script: string): [string, {args: string[]}] {
+  return [process.execPath, {args: ['-e', script]}];
+}
+
+describe('Process runner', () => {
+  it('should emit whole lines tagged with their stream', async () => {
+    const [command, options] = node(`
+      process.stdout.write('first ');
+      setTimeout(() => {
+        process.stdout.write('line\\nsecond line\\r\\n');
+        process.stderr.write('warning\\n');
+        process.stdout.write('no newline');
+      }, 20);
+    `);
+    const lines: Array<[string, OutputSource]> = [];
+    const child = startProcess(command, options);
+    child.on('output', (line, source) => lines.push([line, source]));
+    const result = await child.done;
+
+    expect(lines).to.deep.include.members([['first line', 'stdout'], ['second line', 'stdout'], ['warning', 'stderr'], ['no newline', 'stdout']]);
+    expect(result.stdout).to.equal('first line\nsecond line\nno newline\n');
+    expect(result.stderr).to.equal('warning\n');
+  });
+
+  it('should overlay the environment and pass input', async () => {
+    const [command, options] = node(`
+      let input = '';
+      process.stdin.on('data', data => input += data);
+      process.stdin.on('end', () => console.log(process.env.LEPO_TEST_VALUE, Boolean(process.env.PATH), input.trim()));
+    `);
+    const {stdout} = await runProcess(command, {...options, env: {LEPO_TEST_VALUE: 'overlay'}, input: 'yes\n'});
+
+    expect(stdout).to.equal('overlay true yes\n');
+  });
+
+  it('should fail with the last lines of output and keep the captured output in bounds', async () => {
+    const [command, options] = node(`
+      for (let i = 1; i <= 30; i++) console.log('line ' + i);
+      process.exit(3);
+    `);
+    const error = await runProcess(command, {...options, maxOutputLength: 40, tailLines: 2}).then(() => {}, (error_: Error) => error_);
+
+    expect(error).to.be.instanceOf(ProcessError);
+    const {exitCode, message, result} = error as ProcessError;
+    expect(exitCode).to.equal(3);
+    expect(message).to.match(/exited with code 3\nline 29\nline 30$/);
+    expect(result.stdout.length).to.be.at.most(40);
+  });
+
+  it('should stop processes that time out', async () => {
+    const [command, options] = node('setTimeout(() => {}, 10_000);');
+    const error = await runProcess(command, {...options, timeoutMs: 100}).then(() => {}, (error_: Error) => error_);
+
+    expect((error as ProcessError).timedOut).to.be.true;
+    expect(error?.message).to.contain('timed out after 100ms');
+  });
+
+  it('should report transient failures as retryable', async () => {
+    const [command, options] = node(`
+      console.error('Error: connect ETIMEDOUT 1.2.3.4:443');
+      process.exit(1);
+    `);
+    const error = await runProcess(command, {...options, transientErrors: true}).then(() => {}, (error_: Error) => error_);
+
+    expect(error).to.be.instanceOf(TransientError);
+    expect((error as Error).cause).to.be.instanceOf(ProcessError);
+  });
+});
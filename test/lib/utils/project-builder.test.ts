@@ -1016,6 +1016,99 @@ describe('ProjectBuilder', () => {
     });
   });
 
+  describe('Rollback', () => {
+    it('should remove a created project on rollback', async () => {
+      const builder = ProjectBuilder.create({
+        targetDir: path.join(testDir, 'nested', 'project'),
+      });
+
+      builder.addStep({
+        from: path.join(templateDir, 'base'),
+        variables: { name: 'test' },
+      });
+
+      await builder.build();
+      expect(fs.existsSync(path.join(testDir, 'nested', 'project', 'package.json'))).to.be.true;
+
+      builder.rollback();
+
+      expect(fs.existsSync(testDir)).to.be.false;
+    });
+
+    it('should restore overwritten files on rollback', async () => {
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, 'README.md'), 'original');
+      fs.writeFileSync(path.join(testDir, 'keep.txt'), 'keep');
+
+      const builder = ProjectBuilder.create({
+        override: true,
+        targetDir: testDir,
+      });
+
+      builder.addStep({
+        from: path.join(templateDir, 'base'),
+        variables: { name: 'test' },
+      });
+
+      await builder.build();
+      expect(fs.readFileSync(path.join(testDir, 'README.md'), 'utf8')).to.include('# test');
+
+      builder.rollback();
+
+      expect(fs.readFileSync(path.join(testDir, 'README.md'), 'utf8')).to.equal('original');
+      expect(fs.readFileSync(path.join(testDir, 'keep.txt'), 'utf8')).to.equal('keep');
+      expect(fs.existsSync(path.join(testDir, 'package.json'))).to.be.false;
+    });
+  });
+
+  describe('Dry Run', () => {
+    it('should plan files without writing them', async () => {
+      const variableTemplateDir = path.join(templateDir, 'variable-filename');
+      fs.mkdirSync(variableTemplateDir, { recursive: true });
+      fs.writeFileSync(path.join(variableTemplateDir, '{{componentName}}.component.js'), '');
+      fs.writeFileSync(path.join(variableTemplateDir, 'gitignore'), 'node_modules');
+
+      const builder = ProjectBuilder.create({
+        targetDir: testDir,
+      });
+
+      builder.addStep({
+        from: variableTemplateDir,
+        variables: { componentName: 'MyTest' },
+      });
+
+      const plan = await builder.plan();
+
+      expect(plan.files).to.have.members([
+        path.join(testDir, 'MyTest.component.js'),
+        path.join(testDir, '.gitignore'),
+      ]);
+      expect(fs.existsSync(testDir)).to.be.false;
+    });
+
+    it('should plan prepare commands and hooks', async () => {
+      const prepareTemplateDir = path.join(templateDir, 'prepare');
+      fs.mkdirSync(path.join(prepareTemplateDir, 'sub'), { recursive: true });
+      fs.writeFileSync(path.join(prepareTemplateDir, 'sub', 'prepare.command'), 'echo {{name}}');
+
+      const builder = ProjectBuilder.create({
+        targetDir: testDir,
+      });
+
+      builder.addStep({
+        from: prepareTemplateDir,
+        async postHook() {},
+        variables: { name: 'test' },
+      });
+
+      const plan = await builder.plan();
+
+      expect(plan.files).to.be.empty;
+      expect(plan.commands).to.deep.equal([`echo test (in ${path.join(testDir, 'sub')})`]);
+      expect(plan.notes).to.have.length(1);
+    });
+  });
+
   describe('Action Conversion', () => {
     it('should convert steps to actions correctly', () => {
       const builder = ProjectBuilder.create({
@@ -1067,7 +1160,7 @@ describe('ProjectBuilder', () => {
           on() {},
           warn() {},
         },
-        projectRoot: process.cwd(),
+        projectRoot: testDir,
       };
 
       await builder.buildWithActionRunner(actionContext);
@@ -0,0 +1,24 @@
+import {expect} from 'chai';
+
+import {mergeThreeWay} from '../../../src/utils/three-way-merge.js';
+
+const LABELS = {ours: 'yours', theirs: 'template'};
+
+describe('Three-way merge', () => {
+  it('should take the changes each side made to different lines', () => {
+    const base = 'a\nb\nc\nd\n';
+    const result = mergeThreeWay(base, 'a\nB\nc\nd\n', 'a\nb\nc\nD\ne\n', LABELS);
+    expect(result).to.deep.equal({conflicts: 0, text: 'a\nB\nc\nD\ne\n'});
+  });
+
+  it('should take a change both sides made once', () => {
+    const result = mergeThreeWay('a\nb\n', 'a\nc\n', 'a\nc\n', LABELS);
+    expect(result).to.deep.equal({conflicts: 0, text: 'a\nc\n'});
+  });
+
+  it('should mark the lines both sides changed differently', () => {
+    const result = mergeThreeWay('a\nb\nc', 'a\nmine\nc', 'a\ntheirs\nc', LABELS);
+    expect(result.conflicts).to.equal(1);
+    expect(result.text).to.equal('a\n<<<<<<< yours\nmine\n=======\ntheirs\n>>>>>>> template\nc');
+  });
+});